@@ -0,0 +1,61 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate RULES.md from the rule catalog
+ *
+ * Usage: npx tsx scripts/generate-rules-doc.ts
+ *
+ * Outputs: RULES.md (rule anchors are linked from each catalog entry's docsUrl)
+ */
+
+import { writeFileSync } from "fs";
+import { ruleCatalog } from "../src/core/catalog.js";
+import type { RuleMeta, SparkleVersionRange } from "../src/core/types.js";
+
+const SECTIONS: { title: string; severity: RuleMeta["severity"] }[] = [
+  { title: "Errors", severity: "error" },
+  { title: "Warnings", severity: "warning" },
+  { title: "Info", severity: "info" },
+];
+
+/** Escape angle brackets so element names are not rendered as HTML */
+function escapeMarkdown(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function formatRange(range: SparkleVersionRange): string {
+  const fatal = range.fatal ? ` (an error from ${range.fatal})` : "";
+  if (range.min && range.max) return `${range.min} to before ${range.max}`;
+  if (range.min) return `${range.min} and later${fatal}`;
+  if (range.max) return `before ${range.max}`;
+  return `all versions${fatal}`;
+}
+
+const lines: string[] = [
+  "# Validation Rules",
+  "",
+  "<!-- Generated by scripts/generate-rules-doc.ts from src/core/catalog.ts; do not edit by hand. -->",
+  "",
+  "Every diagnostic reported by Sparkle Validator carries one of the rule IDs below.",
+  "The same data is available programmatically as `ruleCatalog` from the library.",
+  "",
+];
+
+for (const section of SECTIONS) {
+  lines.push(`## ${section.title}`, "");
+  for (const rule of ruleCatalog.filter(
+    (r) => r.severity === section.severity
+  )) {
+    lines.push(`### ${rule.id}`, "");
+    lines.push(`**${escapeMarkdown(rule.title)}**`, "");
+    lines.push(escapeMarkdown(rule.description), "");
+    lines.push(`- Category: \`${rule.category}\``);
+    lines.push(`- Sparkle: ${formatRange(rule.sparkle)}`);
+    if (rule.data) {
+      lines.push(`- Data: ${rule.data.map((key) => `\`${key}\``).join(", ")}`);
+    }
+    lines.push("");
+  }
+}
+
+writeFileSync("RULES.md", lines.join("\n"));
+console.log(`Wrote RULES.md (${ruleCatalog.length} rules)`);
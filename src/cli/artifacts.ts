@@ -0,0 +1,34 @@
+import type { OptionValues } from "commander";
+import { resolve } from "node:path";
+import type { SignatureVerificationOptions } from "../core/signatures.js";
+
+/**
+ * Where to find local release archives, from --artifacts-dir and
+ * --artifact-map; undefined if neither was given.
+ */
+export function artifactOptions(
+  cliOptions: OptionValues
+):
+  | Pick<SignatureVerificationOptions, "artifactsDir" | "artifactMap">
+  | undefined {
+  const artifactsDir: string | undefined = cliOptions.artifactsDir;
+  const mappings = (cliOptions.artifactMap ?? []) as string[];
+  if (artifactsDir === undefined && mappings.length === 0) return undefined;
+
+  const artifactMap: Record<string, string> = {};
+  for (const mapping of mappings) {
+    const separator = mapping.lastIndexOf("=");
+    if (separator <= 0 || separator === mapping.length - 1) {
+      throw new Error(
+        `Invalid --artifact-map "${mapping}"; expected <url prefix>=<directory>`
+      );
+    }
+    artifactMap[mapping.slice(0, separator)] = resolve(
+      mapping.slice(separator + 1)
+    );
+  }
+  return {
+    ...(artifactsDir !== undefined && { artifactsDir: resolve(artifactsDir) }),
+    artifactMap,
+  };
+}
@@ -0,0 +1,326 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { RuleSetting } from "../core/types.js";
+import type { Plugin } from "../core/plugins.js";
+import { builtinPresets } from "./presets.js";
+import { loadPlugin } from "./plugins.js";
+
+/** Config file names searched for, in order, in each directory */
+export const CONFIG_FILE_NAMES = [
+  ".sparklevalidatorrc",
+  ".sparklevalidatorrc.json",
+  "sparkle-validator.config.json",
+];
+
+/** Contents of a config file or preset */
+export interface ConfigFile {
+  /**
+   * Presets or config files to build on, applied in order. A plugin's
+   * presets are named "<plugin name>/<preset name>"
+   */
+  extends?: string | string[];
+  /** Plugin modules: paths relative to the config file, or npm packages */
+  plugins?: string[];
+  /** Per-rule settings, e.g. { "I011": "off", "W018": "error" } */
+  rules?: Record<string, RuleSetting>;
+  /** Output format */
+  format?: "text" | "json";
+  /** Treat warnings as errors */
+  strict?: boolean;
+  /** Show informational messages */
+  info?: boolean;
+  /** Only show errors */
+  quiet?: boolean;
+  /** Colored output */
+  color?: boolean;
+  /** Check that URLs exist and sizes match */
+  checkUrls?: boolean;
+  /** Timeout for URL checks in milliseconds */
+  timeout?: number;
+  /** Maximum concurrent URL checks */
+  concurrency?: number;
+  /** Maximum concurrent URL checks to a single host */
+  perHost?: number;
+  /** Download enclosures to check their size, SHA-256 and signature */
+  verifyDownloads?: boolean;
+  /** Collapse repeated diagnostics with the same rule ID */
+  consolidate?: boolean;
+  /** Sparkle release the app ships with, e.g. "2.6" */
+  sparkleVersion?: string;
+}
+
+/** A config with all `extends` applied and its plugins loaded */
+export type ResolvedConfig = Omit<ConfigFile, "extends" | "plugins"> & {
+  plugins?: Plugin[];
+};
+
+const BOOLEAN_KEYS = [
+  "strict",
+  "info",
+  "quiet",
+  "color",
+  "checkUrls",
+  "verifyDownloads",
+  "consolidate",
+] as const;
+const NUMBER_KEYS = ["timeout", "concurrency", "perHost"] as const;
+const KNOWN_KEYS = new Set<string>([
+  "extends",
+  "plugins",
+  "rules",
+  "format",
+  "sparkleVersion",
+  ...BOOLEAN_KEYS,
+  ...NUMBER_KEYS,
+]);
+
+/**
+ * Find the nearest config file, searching from `startDir` up to the
+ * filesystem root.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = resolve(startDir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = resolve(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Load a config file, everything it extends and the plugins they load.
+ * `plugins` are loaded already (e.g. from the command line); their presets
+ * can be extended too.
+ */
+export async function loadConfig(
+  filePath: string,
+  plugins: Plugin[] = []
+): Promise<ResolvedConfig> {
+  const loaded = [...plugins];
+  const config = await loadConfigFile(resolve(filePath), [], loaded);
+  return loaded.length > 0 ? { ...config, plugins: loaded } : config;
+}
+
+/**
+ * Merge two configs; values in `override` win, rules are merged per ID and
+ * plugins from both are kept.
+ */
+export function mergeConfig(
+  base: ResolvedConfig,
+  override: ResolvedConfig
+): ResolvedConfig {
+  const merged: ResolvedConfig = { ...base, ...override };
+  if (base.rules || override.rules) {
+    merged.rules = { ...base.rules, ...override.rules };
+  }
+  if (base.plugins || override.plugins) {
+    merged.plugins = [
+      ...new Set([...(base.plugins ?? []), ...(override.plugins ?? [])]),
+    ];
+  }
+  return merged;
+}
+
+async function loadConfigFile(
+  filePath: string,
+  chain: string[],
+  plugins: Plugin[]
+): Promise<ResolvedConfig> {
+  if (chain.includes(filePath)) {
+    throw new Error(
+      `Circular extends in config: ${[...chain, filePath].join(" -> ")}`
+    );
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "ENOENT") {
+      throw new Error(`Config file not found: ${filePath}`, { cause: err });
+    }
+    throw err;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid JSON in config file ${filePath}: ${message}`, {
+      cause: err,
+    });
+  }
+
+  const config = checkConfig(raw, filePath);
+  return resolveConfig(
+    config,
+    dirname(filePath),
+    [...chain, filePath],
+    plugins
+  );
+}
+
+/**
+ * Load the config's plugins, adding them to `plugins`, then apply what it
+ * extends, which may be presets of those plugins.
+ */
+async function resolveConfig(
+  config: ConfigFile,
+  baseDir: string,
+  chain: string[],
+  plugins: Plugin[]
+): Promise<ResolvedConfig> {
+  const { extends: parents, plugins: modules = [], ...own } = config;
+  for (const specifier of modules) {
+    const plugin = await loadPlugin(specifier, baseDir);
+    if (!plugins.includes(plugin)) plugins.push(plugin);
+  }
+
+  let resolved: ResolvedConfig = {};
+  const names = parents === undefined ? [] : [parents].flat();
+  for (const name of names) {
+    resolved = mergeConfig(
+      resolved,
+      await resolveExtends(name, baseDir, chain, plugins)
+    );
+  }
+  return mergeConfig(resolved, own);
+}
+
+/**
+ * Resolve one `extends` entry: a built-in preset name, a plugin's preset
+ * ("<plugin name>/<preset name>") or a path relative to the config file
+ * that references it.
+ */
+async function resolveExtends(
+  name: string,
+  baseDir: string,
+  chain: string[],
+  plugins: Plugin[]
+): Promise<ResolvedConfig> {
+  if (name.startsWith(".") || name.startsWith("/")) {
+    return loadConfigFile(resolve(baseDir, name), chain, plugins);
+  }
+
+  const preset = name.includes("/")
+    ? pluginPreset(name, plugins)
+    : builtinPresets[name];
+  if (!preset) {
+    throw new Error(
+      `Unknown preset "${name}"; expected one of ${Object.keys(builtinPresets).join(", ")} or a relative path`
+    );
+  }
+  const key = `preset:${name}`;
+  if (chain.includes(key)) {
+    throw new Error(
+      `Circular extends in config: ${[...chain, key].join(" -> ")}`
+    );
+  }
+  return resolveConfig(preset, baseDir, [...chain, key], plugins);
+}
+
+/**
+ * Find a loaded plugin's preset, checking it like a config file since it
+ * comes from outside the validator.
+ */
+function pluginPreset(name: string, plugins: Plugin[]): ConfigFile {
+  const slash = name.indexOf("/");
+  const pluginName = name.slice(0, slash);
+  const presetName = name.slice(slash + 1);
+  const plugin = plugins.find((p) => p.name === pluginName);
+  if (!plugin) {
+    throw new Error(
+      `Unknown plugin "${pluginName}" in preset "${name}"; load it with "plugins" or --plugin`
+    );
+  }
+  const preset = plugin.presets?.[presetName];
+  if (!preset) {
+    const names = Object.keys(plugin.presets ?? {});
+    throw new Error(
+      `Plugin "${pluginName}" has no preset "${presetName}"${names.length > 0 ? `; expected one of ${names.join(", ")}` : ""}`
+    );
+  }
+  return checkConfig(preset, `preset "${name}"`);
+}
+
+/**
+ * Check the shape of a parsed config file.
+ */
+function checkConfig(raw: unknown, source: string): ConfigFile {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`Config file ${source} must contain a JSON object`);
+  }
+  const config = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(config)) {
+    if (!KNOWN_KEYS.has(key)) {
+      throw new Error(`Unknown option "${key}" in config file ${source}`);
+    }
+  }
+
+  const ext = config.extends;
+  if (
+    ext !== undefined &&
+    typeof ext !== "string" &&
+    !(Array.isArray(ext) && ext.every((e) => typeof e === "string"))
+  ) {
+    throw new Error(
+      `"extends" in ${source} must be a string or an array of strings`
+    );
+  }
+
+  const plugins = config.plugins;
+  if (
+    plugins !== undefined &&
+    !(Array.isArray(plugins) && plugins.every((p) => typeof p === "string"))
+  ) {
+    throw new Error(`"plugins" in ${source} must be an array of strings`);
+  }
+
+  const rules = config.rules;
+  if (
+    rules !== undefined &&
+    (typeof rules !== "object" || rules === null || Array.isArray(rules))
+  ) {
+    throw new Error(`"rules" in ${source} must be an object`);
+  }
+
+  if (
+    config.format !== undefined &&
+    config.format !== "text" &&
+    config.format !== "json"
+  ) {
+    throw new Error(`"format" in ${source} must be "text" or "json"`);
+  }
+
+  if (
+    config.sparkleVersion !== undefined &&
+    typeof config.sparkleVersion !== "string"
+  ) {
+    throw new Error(`"sparkleVersion" in ${source} must be a string`);
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== "boolean") {
+      throw new Error(`"${key}" in ${source} must be true or false`);
+    }
+  }
+
+  for (const key of NUMBER_KEYS) {
+    const value = config[key];
+    if (
+      value !== undefined &&
+      (typeof value !== "number" || !Number.isInteger(value) || value <= 0)
+    ) {
+      throw new Error(`"${key}" in ${source} must be a positive integer`);
+    }
+  }
+
+  return config as ConfigFile;
+}
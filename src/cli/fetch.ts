@@ -1,8 +1,9 @@
 /**
- * Fetch XML content from a URL.
+ * Fetch XML content from a URL as bytes, so the validator can check the
+ * encoding.
  * Uses Node.js built-in fetch (available since Node 18).
  */
-export async function fetchUrl(url: string): Promise<string> {
+export async function fetchUrl(url: string): Promise<Uint8Array> {
   const response = await fetch(url, {
     headers: {
       Accept: "application/xml, text/xml, application/rss+xml, */*",
@@ -15,16 +16,16 @@ export async function fetchUrl(url: string): Promise<string> {
     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
   }
 
-  return response.text();
+  return new Uint8Array(await response.arrayBuffer());
 }
 
 /**
- * Read all data from stdin as a string.
+ * Read all data from stdin as bytes.
  */
-export async function readStdin(): Promise<string> {
+export async function readStdin(): Promise<Uint8Array> {
   const chunks: Buffer[] = [];
   for await (const chunk of process.stdin) {
     chunks.push(Buffer.from(chunk));
   }
-  return Buffer.concat(chunks).toString("utf-8");
+  return Buffer.concat(chunks);
 }
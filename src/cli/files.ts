@@ -0,0 +1,34 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { readStdin } from "./fetch.js";
+
+/**
+ * Read a private key file, or stdin for "-" so the key needn't touch the
+ * disk.
+ */
+export async function readKeyFile(path: string): Promise<string> {
+  if (path === "-") {
+    return Buffer.from(await readStdin()).toString("utf-8");
+  }
+  return readFile(path, "Key file").toString("utf-8");
+}
+
+/**
+ * Read a local file, with a readable error if it's missing. `what` names
+ * the file in the error, e.g. "Archive".
+ */
+export function readFile(path: string, what: string): Buffer {
+  const filePath = resolve(path);
+  try {
+    return readFileSync(filePath);
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "ENOENT") {
+      throw new Error(`${what} not found: ${filePath}`, { cause: err });
+    }
+    if (code === "EISDIR") {
+      throw new Error(`${what} is a directory: ${filePath}`, { cause: err });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,81 @@
+import { validateAsync } from "../core/validator.js";
+import type { ValidateAsyncOptions } from "../core/validator.js";
+import { applyFixes } from "../core/fixes.js";
+import type { Diagnostic, ValidationResult } from "../core/types.js";
+
+/** Upper bound on --fix passes, in case fixes keep producing new ones */
+const MAX_FIX_PASSES = 10;
+
+/** Result of fixAppcast() */
+export interface FixRun {
+  /** The fixed text */
+  output: string;
+  /** Diagnostics whose fixes were applied, in the order they were */
+  applied: Diagnostic[];
+  /** What is left in the fixed text, with the async checks */
+  result: ValidationResult;
+}
+
+/**
+ * Apply automatic fixes to an appcast until nothing changes, for --fix and
+ * --fix-dry-run. `input` is the source as read and `xml` its decoded text;
+ * `encode` turns fixed text back into what validateAsync() should see.
+ *
+ * The passes only run the synchronous rules. The URL checks and async
+ * rules (downloads, signatures) run once, on the final text, and the fixes
+ * only they find (E028, E042) are applied from that result.
+ */
+export async function fixAppcast(
+  input: Uint8Array | string,
+  xml: string,
+  options: ValidateAsyncOptions,
+  encode: (text: string) => Uint8Array | string
+): Promise<FixRun> {
+  const syncOptions: ValidateAsyncOptions = {
+    ...options,
+    remote: undefined,
+    asyncRules: undefined,
+  };
+  const source = (text: string) => (text === xml ? input : encode(text));
+
+  // Fixes can reveal or unblock others (e.g. W007 only shows up once the
+  // namespace is canonical), so repeat until nothing changes
+  const applied: Diagnostic[] = [];
+  let output = xml;
+  let result = await validateAsync(input, syncOptions);
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const fixes = applyFixes(output, result.diagnostics);
+    if (fixes.applied.length === 0) break;
+    applied.push(...fixes.applied);
+    output = fixes.output;
+    result = await validateAsync(encode(output), syncOptions);
+  }
+
+  result = await validateAsync(source(output), options);
+  const late = applyFixes(output, result.diagnostics);
+  if (late.applied.length > 0) {
+    applied.push(...late.applied);
+    output = late.output;
+    result = withoutDiagnostics(result, late.applied);
+  }
+  return { output, applied, result };
+}
+
+/** A result without the given diagnostics, with the counts updated */
+function withoutDiagnostics(
+  result: ValidationResult,
+  removed: Diagnostic[]
+): ValidationResult {
+  const diagnostics = result.diagnostics.filter((d) => !removed.includes(d));
+  const count = (severity: Diagnostic["severity"]) =>
+    diagnostics.filter((d) => d.severity === severity).length;
+  const errorCount = count("error");
+  return {
+    ...result,
+    valid: errorCount === 0,
+    diagnostics,
+    errorCount,
+    warningCount: count("warning"),
+    infoCount: count("info"),
+  };
+}
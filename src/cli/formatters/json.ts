@@ -23,14 +23,20 @@ export function formatJson(
     errorCount: result.errorCount,
     warningCount: result.warningCount,
     infoCount: result.infoCount,
+    suppressedCount: result.suppressedCount,
+    ...(result.baseline && { baseline: result.baseline }),
     diagnostics: diagnostics.map((d) => ({
       id: d.id,
       severity: d.severity,
       message: d.message,
       ...(d.line !== undefined && { line: d.line }),
       ...(d.column !== undefined && { column: d.column }),
+      ...(d.range && { range: d.range }),
       ...(d.path && { path: d.path }),
       ...(d.fix && { fix: d.fix }),
+      ...(d.edits && { edits: d.edits }),
+      ...(d.relatedLocations && { relatedLocations: d.relatedLocations }),
+      ...(d.data && { data: d.data }),
     })),
   };
 
@@ -1,4 +1,8 @@
-import type { Diagnostic, ValidationResult } from "../../core/types.js";
+import type {
+  BaselineEntry,
+  Diagnostic,
+  ValidationResult,
+} from "../../core/types.js";
 
 const RESET = "\x1b[0m";
 const BOLD = "\x1b[1m";
@@ -57,6 +61,17 @@ function formatDiagnostic(
     parts.push(`       ${c(`at ${diag.path}`, DIM, options)}`);
   }
 
+  // Other occurrences folded into this one
+  const related = (diag.relatedLocations ?? []).filter(
+    (loc) => loc.line !== undefined
+  );
+  if (related.length > 0) {
+    const lines = related.map((loc) => loc.line).join(", ");
+    parts.push(
+      `       ${c(`Also at line${related.length > 1 ? "s" : ""} ${lines}`, DIM, options)}`
+    );
+  }
+
   // Fix suggestion
   if (diag.fix) {
     parts.push(`       ${c(`Fix: ${diag.fix}`, CYAN, options)}`);
@@ -65,6 +80,26 @@ function formatDiagnostic(
   return parts.join("\n");
 }
 
+function formatBaselineEntry(
+  entry: BaselineEntry,
+  options: TextFormatOptions
+): string {
+  const item = entry.item
+    ? Object.entries(entry.item)
+        .map(([key, value]) => `${key} ${value}`)
+        .join(", ")
+    : "";
+  const where = [item && `item (${item})`, entry.path]
+    .filter(Boolean)
+    .join(" > ");
+  const parts = [
+    `  ${c("FIXED", `${BOLD}${GREEN}`, options)} ${c(entry.id, BOLD, options)}`,
+  ];
+  parts.push(`       ${entry.message}`);
+  if (where) parts.push(`       ${c(`at ${where}`, DIM, options)}`);
+  return parts.join("\n");
+}
+
 export function formatText(
   result: ValidationResult,
   source: string,
@@ -120,6 +155,21 @@ export function formatText(
     lines.push("");
   }
 
+  const fixedEntries = result.baseline?.fixed ?? [];
+  if (fixedEntries.length > 0) {
+    lines.push(
+      c(
+        `Fixed since baseline (${fixedEntries.length})`,
+        `${BOLD}${GREEN}`,
+        options
+      )
+    );
+    for (const entry of fixedEntries) {
+      lines.push(formatBaselineEntry(entry, options));
+    }
+    lines.push("");
+  }
+
   // Summary line
   const summary: string[] = [];
   summary.push(
@@ -131,6 +181,12 @@ export function formatText(
   if (!options.noInfo) {
     summary.push(`${result.infoCount} info`);
   }
+  if (result.suppressedCount > 0) {
+    summary.push(`${result.suppressedCount} suppressed`);
+  }
+  if (result.baseline && result.baseline.matchedCount > 0) {
+    summary.push(`${result.baseline.matchedCount} in baseline`);
+  }
   lines.push(c(summary.join(", "), DIM, options));
   lines.push("");
 
@@ -1,12 +1,31 @@
 import { Command } from "commander";
-import { readFileSync } from "node:fs";
+import type { OptionValues } from "commander";
+import { readFileSync, writeFileSync } from "node:fs";
 import { resolve } from "node:path";
-import { validate } from "../core/validator.js";
-import { validateRemote } from "../core/remote.js";
+import { validateAsync } from "../core/validator.js";
+import type { ValidateAsyncOptions } from "../core/validator.js";
 import { parseXml } from "../core/parser.js";
+import { decodeXml } from "../core/encoding.js";
+import { checkBaseline, createBaseline } from "../core/baseline.js";
+import type {
+  AsyncValidationRule,
+  Baseline,
+  Diagnostic,
+  ValidationResult,
+} from "../core/types.js";
 import { formatText } from "./formatters/text.js";
 import { formatJson } from "./formatters/json.js";
 import { fetchUrl, readStdin } from "./fetch.js";
+import { findConfigFile, loadConfig, mergeConfig } from "./config.js";
+import type { ResolvedConfig } from "./config.js";
+import { loadPlugin } from "./plugins.js";
+import { fixAppcast } from "./fix.js";
+import type { Plugin } from "../core/plugins.js";
+import { verifySignatures } from "../core/signatures.js";
+import { verifyDownloads } from "../core/downloads.js";
+import { artifactOptions } from "./artifacts.js";
+import { signCommand } from "./sign.js";
+import { keysCommand } from "./keys.js";
 
 const program = new Command();
 
@@ -16,6 +35,9 @@ program
   .name("sparkle-validator")
   .description("Validate Sparkle appcast.xml feeds")
   .version(__VERSION__)
+  // Options after a subcommand's name are the subcommand's (keys check has
+  // its own --public-key)
+  .enablePositionalOptions()
   .argument("<source>", 'File path, URL (http/https), or "-" for stdin')
   .option("-f, --format <type>", "Output format: text or json", "text")
   .option("-s, --strict", "Treat warnings as errors")
@@ -24,76 +46,371 @@ program
   .option("-q, --quiet", "Only show errors")
   .option("-c, --check-urls", "Check that URLs exist and sizes match")
   .option("--timeout <ms>", "Timeout for URL checks in milliseconds", "10000")
-  .action(async (source: string, options) => {
-    try {
-      const xml = await readSource(source);
-      const result = validate(xml);
-
-      // Run remote validation if --check-urls is specified
-      if (options.checkUrls) {
-        const { document } = parseXml(xml);
-        const remoteDiags = await validateRemote(document, {
-          timeout: parseInt(options.timeout, 10) || 10000,
-        });
-        result.diagnostics.push(...remoteDiags);
-
-        // Recalculate counts
-        result.errorCount = result.diagnostics.filter(
-          (d) => d.severity === "error"
-        ).length;
-        result.warningCount = result.diagnostics.filter(
-          (d) => d.severity === "warning"
-        ).length;
-        result.infoCount = result.diagnostics.filter(
-          (d) => d.severity === "info"
-        ).length;
-        result.valid = result.errorCount === 0;
-
-        // Re-sort diagnostics
-        const severityOrder = { error: 0, warning: 1, info: 2 };
-        result.diagnostics.sort((a, b) => {
-          const sev =
-            severityOrder[a.severity as keyof typeof severityOrder] -
-            severityOrder[b.severity as keyof typeof severityOrder];
-          if (sev !== 0) return sev;
-          return (a.line ?? 0) - (b.line ?? 0);
-        });
-      }
+  .option(
+    "--verify-downloads",
+    "Download each enclosure to check its size, SHA-256 and signature"
+  )
+  .option("--per-host <n>", "Maximum concurrent requests to a single host")
+  .option(
+    "--config <path>",
+    "Config file to use instead of searching for .sparklevalidatorrc"
+  )
+  .option("--no-config", "Ignore config files")
+  .option(
+    "--plugin <module>",
+    "Load a rule plugin from a path or npm package (repeatable)",
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
+  .option(
+    "--no-consolidate",
+    "Report every occurrence instead of collapsing repeats of the same rule"
+  )
+  .option(
+    "--baseline <path>",
+    "Only report diagnostics not recorded in this baseline file"
+  )
+  .option(
+    "--write-baseline <path>",
+    "Record the current diagnostics in a baseline file"
+  )
+  .option(
+    "--sparkle-version <version>",
+    "Sparkle release the app ships with (e.g. 2.6); gates rules to that release"
+  )
+  .option(
+    "--public-key <base64>",
+    "EdDSA public key (SUPublicEDKey) to verify signatures with (default: $SPARKLE_PUBLIC_ED_KEY)"
+  )
+  .option(
+    "--dsa-public-key <pem file>",
+    "Legacy DSA public key (SUPublicDSAKeyFile) to verify sparkle:dsaSignature with"
+  )
+  .option(
+    "--artifacts-dir <dir>",
+    "Verify lengths and signatures against the release archives in this directory, matched by file name"
+  )
+  .option(
+    "--artifact-map <prefix=dir>",
+    "Verify against archives in a directory for URLs starting with a prefix (repeatable)",
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
+  .option("--fix", "Apply automatic fixes and rewrite the file in place")
+  .option(
+    "--fix-dry-run",
+    "Report which automatic fixes would be applied without writing them"
+  )
+  .action(
+    async (source: string, cliOptions: OptionValues, command: Command) => {
+      try {
+        const options = await resolveOptions(cliOptions, command);
+        if (cliOptions.fix && !isFilePath(source)) {
+          throw new Error(
+            "--fix can only rewrite a local file; use --fix-dry-run for URLs and stdin"
+          );
+        }
+
+        const baseline =
+          typeof cliOptions.baseline === "string"
+            ? readBaseline(cliOptions.baseline)
+            : undefined;
+        const writeBaseline =
+          typeof cliOptions.writeBaseline === "string"
+            ? cliOptions.writeBaseline
+            : undefined;
+
+        const validateOptions: ValidateAsyncOptions = {
+          rules: options.rules,
+          sparkleVersion: options.sparkleVersion,
+          plugins: options.plugins,
+          // A new baseline records every occurrence, ignoring any old one
+          consolidate: writeBaseline ? false : options.consolidate,
+          baseline: writeBaseline ? undefined : baseline,
+          ...(options.checkUrls && {
+            remote: {
+              timeout: options.timeout,
+              concurrency: options.concurrency,
+              perHost: options.perHost,
+              // Downloading checks the enclosures already
+              skipEnclosures: options.verifyDownloads,
+            },
+          }),
+          asyncRules: verificationRules(cliOptions, options),
+        };
+
+        const input = await readSource(source);
+        // Fixes and baselines work on the decoded text
+        const {
+          xml,
+          encoding,
+          bom,
+          diagnostics: encodingDiags,
+        } = decodeXml(input);
+        let current = xml;
+        let result: ValidationResult;
+
+        if (cliOptions.fix || cliOptions.fixDryRun) {
+          // Fixed text is written back as UTF-8, so only rewrite files that
+          // are already valid UTF-8
+          const utf8 =
+            encoding === "utf-8" && !encodingDiags.some((d) => d.id === "E034");
+          if (cliOptions.fix && !utf8) {
+            throw new Error(
+              "--fix only rewrites valid UTF-8 files; convert the file to UTF-8 first or use --fix-dry-run"
+            );
+          }
+          const encode = (text: string) =>
+            utf8 ? new TextEncoder().encode(text) : text;
+
+          const fixed = await fixAppcast(input, xml, validateOptions, encode);
+          current = fixed.output;
+          result = fixed.result;
+          if (cliOptions.fix && current !== xml) {
+            writeFileSync(resolve(source), bom ? `\uFEFF${current}` : current);
+          }
+          process.stderr.write(
+            formatFixSummary(fixed.applied, cliOptions.fix === true)
+          );
+        } else {
+          result = await validateAsync(input, validateOptions);
+        }
+
+        if (writeBaseline) {
+          const { document } = parseXml(current);
+          const written = createBaseline(document, result.diagnostics);
+          writeFileSync(
+            resolve(writeBaseline),
+            JSON.stringify(written, null, 2) + "\n"
+          );
+          const count = written.entries.length;
+          process.stderr.write(
+            `Wrote ${count} baseline entr${count !== 1 ? "ies" : "y"} to ${writeBaseline}\n`
+          );
+          process.exit(0);
+        }
+
+        const useColor =
+          options.color !== false &&
+          process.stdout.isTTY &&
+          !process.env.NO_COLOR;
 
-      const useColor =
-        options.color !== false &&
-        process.stdout.isTTY &&
-        !process.env.NO_COLOR;
-
-      let output: string;
-      if (options.format === "json") {
-        output = formatJson(result, source, {
-          quiet: options.quiet ?? false,
-          noInfo: !options.info,
-        });
-      } else {
-        output = formatText(result, source, {
-          color: useColor,
-          quiet: options.quiet ?? false,
-          noInfo: !options.info,
-        });
+        let output: string;
+        if (options.format === "json") {
+          output = formatJson(result, source, {
+            quiet: options.quiet ?? false,
+            noInfo: !options.info,
+          });
+        } else {
+          output = formatText(result, source, {
+            color: useColor,
+            quiet: options.quiet ?? false,
+            noInfo: !options.info,
+          });
+        }
+
+        process.stdout.write(output + "\n");
+
+        // Exit code
+        if (options.strict && result.warningCount > 0) {
+          process.exit(1);
+        }
+        process.exit(result.valid ? 0 : 1);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        process.stderr.write(`Error: ${message}\n`);
+        process.exit(2);
       }
+    }
+  );
 
-      process.stdout.write(output + "\n");
+/**
+ * Read and check a baseline file written by --write-baseline.
+ */
+function readBaseline(path: string): Baseline {
+  const filePath = resolve(path);
+  let text: string;
+  try {
+    text = readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "ENOENT") {
+      throw new Error(`Baseline file not found: ${filePath}`, { cause: err });
+    }
+    throw err;
+  }
+  try {
+    return checkBaseline(JSON.parse(text));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid baseline file ${filePath}: ${message}`, {
+      cause: err,
+    });
+  }
+}
 
-      // Exit code
-      if (options.strict && result.warningCount > 0) {
-        process.exit(1);
+/**
+ * Rules that verify the releases: against local archives with
+ * --artifacts-dir or --artifact-map, and by downloading them with
+ * --verify-downloads. Signatures are checked with --public-key (or
+ * SPARKLE_PUBLIC_ED_KEY), and DSA signatures of local archives with
+ * --dsa-public-key.
+ */
+function verificationRules(
+  cliOptions: OptionValues,
+  options: ResolvedConfig
+): AsyncValidationRule[] {
+  const publicKey: string | undefined =
+    cliOptions.publicKey ?? (process.env.SPARKLE_PUBLIC_ED_KEY || undefined);
+  const artifacts = artifactOptions(cliOptions);
+  if (
+    cliOptions.publicKey !== undefined &&
+    !artifacts &&
+    !options.verifyDownloads
+  ) {
+    throw new Error(
+      "--public-key needs --artifacts-dir, --artifact-map or --verify-downloads to find the release archives"
+    );
+  }
+
+  const dsaPublicKey =
+    typeof cliOptions.dsaPublicKey === "string"
+      ? readDsaPublicKey(cliOptions.dsaPublicKey)
+      : undefined;
+  if (dsaPublicKey !== undefined && !artifacts) {
+    throw new Error(
+      "--dsa-public-key needs --artifacts-dir or --artifact-map to find the release archives"
+    );
+  }
+
+  const rules: AsyncValidationRule[] = [];
+  if (artifacts) {
+    if (!publicKey && dsaPublicKey === undefined) {
+      throw new Error(
+        "Verifying release archives needs --public-key, SPARKLE_PUBLIC_ED_KEY or --dsa-public-key"
+      );
+    }
+    rules.push(verifySignatures({ publicKey, dsaPublicKey, ...artifacts }));
+  }
+  if (options.verifyDownloads) {
+    rules.push(
+      verifyDownloads({
+        timeout: options.timeout,
+        concurrency: options.concurrency,
+        perHost: options.perHost,
+        publicKey,
+      })
+    );
+  }
+  return rules;
+}
+
+/**
+ * Read the PEM file given to --dsa-public-key.
+ */
+function readDsaPublicKey(path: string): string {
+  const filePath = resolve(path);
+  try {
+    return readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "ENOENT") {
+      throw new Error(`DSA public key file not found: ${filePath}`, {
+        cause: err,
+      });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Describe the fixes applied (or that would be applied with --fix-dry-run).
+ */
+function formatFixSummary(applied: Diagnostic[], written: boolean): string {
+  const count = applied.reduce((n, d) => n + (d.edits?.length ?? 0), 0);
+  if (count === 0) return "No automatic fixes available\n";
+
+  const lines = [
+    `${written ? "Applied" : "Would apply"} ${count} fix${count !== 1 ? "es" : ""}:`,
+  ];
+  for (const d of applied) {
+    const location = d.line !== undefined ? ` line ${d.line}` : "";
+    lines.push(`  ${d.id}${location}: ${d.fix ?? d.message}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Command-line options that can also be set in a config file */
+const CONFIGURABLE_OPTIONS = [
+  "format",
+  "strict",
+  "info",
+  "quiet",
+  "color",
+  "checkUrls",
+  "timeout",
+  "verifyDownloads",
+  "perHost",
+  "consolidate",
+  "sparkleVersion",
+] as const;
+
+/**
+ * Merge the config file (explicit --config or discovered from the working
+ * directory upwards) with the command line. Options given on the command
+ * line win over the config file, which wins over built-in defaults.
+ * Plugins from --plugin are loaded first so the config file can extend
+ * their presets.
+ */
+async function resolveOptions(
+  cliOptions: OptionValues,
+  command: Command
+): Promise<ResolvedConfig> {
+  const plugins: Plugin[] = [];
+  for (const specifier of (cliOptions.plugin ?? []) as string[]) {
+    plugins.push(await loadPlugin(specifier, process.cwd()));
+  }
+
+  let config: ResolvedConfig = plugins.length > 0 ? { plugins } : {};
+  if (cliOptions.config !== false) {
+    const configPath =
+      typeof cliOptions.config === "string"
+        ? cliOptions.config
+        : findConfigFile(process.cwd());
+    if (configPath) config = await loadConfig(configPath, plugins);
+  }
+
+  const defaults: ResolvedConfig = {};
+  const explicit: ResolvedConfig = {};
+  for (const key of CONFIGURABLE_OPTIONS) {
+    const target =
+      command.getOptionValueSource(key) === "cli" ? explicit : defaults;
+    const value = cliOptions[key];
+    if (value === undefined) continue;
+    if (key === "timeout") {
+      target.timeout = parseInt(value, 10) || 10000;
+    } else if (key === "perHost") {
+      const perHost = parseInt(value, 10);
+      if (!(perHost > 0)) {
+        throw new Error(`--per-host must be a positive number, got "${value}"`);
       }
-      process.exit(result.valid ? 0 : 1);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      process.stderr.write(`Error: ${message}\n`);
-      process.exit(2);
+      target.perHost = perHost;
+    } else {
+      (target as Record<string, unknown>)[key] = value;
     }
-  });
+  }
+
+  return mergeConfig(mergeConfig(defaults, config), explicit);
+}
 
-async function readSource(source: string): Promise<string> {
+/** Whether a source argument names a local file rather than stdin or a URL */
+function isFilePath(source: string): boolean {
+  return (
+    source !== "-" &&
+    !source.startsWith("http://") &&
+    !source.startsWith("https://")
+  );
+}
+
+async function readSource(source: string): Promise<Uint8Array> {
   // Stdin
   if (source === "-") {
     return readStdin();
@@ -107,7 +424,7 @@ async function readSource(source: string): Promise<string> {
   // File path
   const filePath = resolve(source);
   try {
-    return readFileSync(filePath, "utf-8");
+    return readFileSync(filePath);
   } catch (err) {
     const code = (err as { code?: string }).code;
     if (code === "ENOENT") {
@@ -120,4 +437,7 @@ async function readSource(source: string): Promise<string> {
   }
 }
 
+program.addCommand(signCommand());
+program.addCommand(keysCommand());
+
 program.parse();
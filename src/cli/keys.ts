@@ -0,0 +1,183 @@
+import { Command } from "commander";
+import type { OptionValues } from "commander";
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { decodeXml } from "../core/encoding.js";
+import { parseXml } from "../core/parser.js";
+import type { AsyncValidationRule, Diagnostic } from "../core/types.js";
+import {
+  ed25519PrivateKey,
+  generateEd25519PrivateKey,
+} from "../core/signing.js";
+import { appcastEnclosures, verifySignatures } from "../core/signatures.js";
+import { verifyDownloads } from "../core/downloads.js";
+import { sparkleAttribute } from "../core/rules/utils.js";
+import { artifactOptions } from "./artifacts.js";
+import { readFile, readKeyFile } from "./files.js";
+
+/**
+ * `sparkle-validator keys`: create and inspect EdDSA keys in the format of
+ * Sparkle's generate_keys, and check a public key against an appcast.
+ */
+export function keysCommand(): Command {
+  const keys = new Command("keys").description(
+    "Create and inspect EdDSA keys compatible with Sparkle's generate_keys"
+  );
+
+  keys
+    .command("generate")
+    .description(
+      "Write a new private key file and print its public key (SUPublicEDKey)"
+    )
+    .argument("<file>", "Private key file to create")
+    .action((file: string) =>
+      run(() => {
+        const privateKey = generateEd25519PrivateKey();
+        writePrivateKey(file, privateKey);
+        process.stderr.write(
+          `Wrote the private key to ${file}. Keep it secret, and add the public key to the app's Info.plist as SUPublicEDKey:\n`
+        );
+        process.stdout.write(ed25519PrivateKey(privateKey).publicKey + "\n");
+        return 0;
+      })
+    );
+
+  keys
+    .command("public")
+    .description("Print the public key (SUPublicEDKey) of a private key file")
+    .argument("<file>", 'Private key file, or "-" for stdin')
+    .action((file: string) =>
+      run(async () => {
+        const key = ed25519PrivateKey(await readKeyFile(file));
+        process.stdout.write(key.publicKey + "\n");
+        return 0;
+      })
+    );
+
+  keys
+    .command("check")
+    .description(
+      "Check that a public key verifies every signature in an appcast"
+    )
+    .argument("<appcast>", "Appcast file")
+    .option(
+      "--public-key <base64>",
+      "EdDSA public key (SUPublicEDKey) to check (default: $SPARKLE_PUBLIC_ED_KEY)"
+    )
+    .option(
+      "--artifacts-dir <dir>",
+      "Check against the release archives in this directory, matched by file name"
+    )
+    .option(
+      "--artifact-map <prefix=dir>",
+      "Check against archives in a directory for URLs starting with a prefix (repeatable)",
+      (value: string, previous: string[] = []) => [...previous, value]
+    )
+    .option(
+      "--verify-downloads",
+      "Check against the archives downloaded from the enclosure URLs"
+    )
+    .action((appcast: string, cliOptions: OptionValues) =>
+      run(() => checkAppcast(appcast, cliOptions))
+    );
+
+  return keys;
+}
+
+/** Run a command, exiting with its code, or 2 with the message on errors */
+async function run(command: () => number | Promise<number>): Promise<void> {
+  try {
+    process.exit(await command());
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Error: ${message}\n`);
+    process.exit(2);
+  }
+}
+
+/**
+ * Write a private key as generate_keys -x does: the base64 seed, readable
+ * only by the owner. Never replaces an existing key.
+ */
+function writePrivateKey(path: string, privateKey: string): void {
+  const filePath = resolve(path);
+  try {
+    writeFileSync(filePath, privateKey, { flag: "wx", mode: 0o600 });
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "EEXIST") {
+      throw new Error(`${filePath} already exists; not replacing it`, {
+        cause: err,
+      });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Verify every enclosure and delta of an appcast with the public key and
+ * list the result for each. Unsigned enclosures and archives that can't be
+ * checked count as failures. Returns the exit code.
+ */
+async function checkAppcast(
+  path: string,
+  cliOptions: OptionValues
+): Promise<number> {
+  const publicKey: string | undefined =
+    cliOptions.publicKey ?? (process.env.SPARKLE_PUBLIC_ED_KEY || undefined);
+  if (!publicKey) {
+    throw new Error("keys check needs --public-key or SPARKLE_PUBLIC_ED_KEY");
+  }
+  const artifacts = artifactOptions(cliOptions);
+  let rule: AsyncValidationRule;
+  if (artifacts) {
+    rule = verifySignatures({ publicKey, ...artifacts });
+  } else if (cliOptions.verifyDownloads) {
+    rule = verifyDownloads({ publicKey });
+  } else {
+    throw new Error(
+      "keys check needs --artifacts-dir, --artifact-map or --verify-downloads to find the release archives"
+    );
+  }
+
+  const { xml } = decodeXml(readFile(path, "Appcast"));
+  const { document, diagnostics: parseDiagnostics } = parseXml(xml);
+  const error = parseDiagnostics.find((d) => d.severity === "error");
+  if (error) {
+    throw new Error(`The appcast isn't well-formed XML: ${error.message}`);
+  }
+  const enclosures = appcastEnclosures(document);
+  if (enclosures.length === 0) {
+    throw new Error(`${path} has no enclosures to check`);
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  await rule(document, diagnostics);
+
+  let verified = 0;
+  for (const enclosure of enclosures) {
+    const url = enclosure.attributes.url?.value ?? "";
+    const found = diagnostics.filter((d) => d.data?.url === url);
+    let problem: string | undefined;
+    if (!sparkleAttribute(enclosure, "edSignature")) {
+      problem = "no sparkle:edSignature";
+    } else if (!found.some((d) => d.id === "I013")) {
+      // Why it didn't verify: E041, or an archive that couldn't be read
+      const reason =
+        found.find((d) => d.id === "E041") ??
+        found.find((d) => d.severity !== "info");
+      problem = reason?.message ?? "not checked";
+    }
+    if (problem === undefined) verified++;
+    process.stdout.write(
+      problem === undefined
+        ? `  ok    ${url}\n`
+        : `  FAIL  ${url} (line ${enclosure.line}): ${problem}\n`
+    );
+  }
+
+  process.stdout.write(
+    `${verified} of ${enclosures.length} enclosure${enclosures.length !== 1 ? "s" : ""} verified with ${publicKey}\n`
+  );
+  return verified === enclosures.length ? 0 : 1;
+}
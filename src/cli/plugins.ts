@@ -0,0 +1,149 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Plugin } from "../core/plugins.js";
+
+/**
+ * Load a plugin module: a path (relative to `baseDir`) or an npm package
+ * name, resolved from `baseDir` the way import() resolves packages. The
+ * module exports the plugin as its default export.
+ */
+export async function loadPlugin(
+  specifier: string,
+  baseDir: string
+): Promise<Plugin> {
+  const isPath = specifier.startsWith(".") || isAbsolute(specifier);
+  let path: string;
+  if (isPath) {
+    path = resolve(baseDir, specifier);
+  } else {
+    path = resolvePackage(specifier, baseDir);
+  }
+
+  let module: { default?: unknown };
+  try {
+    module = await import(pathToFileURL(path).href);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not load plugin "${specifier}": ${message}`, {
+      cause: err,
+    });
+  }
+
+  const plugin = module.default as Partial<Plugin> | undefined;
+  if (
+    typeof plugin !== "object" ||
+    plugin === null ||
+    typeof plugin.name !== "string" ||
+    !Array.isArray(plugin.rules) ||
+    !Array.isArray(plugin.catalog)
+  ) {
+    throw new Error(
+      `Plugin "${specifier}" must export a plugin ({ name, rules, catalog }) as its default export`
+    );
+  }
+  return plugin as Plugin;
+}
+
+/** The conditions import() matches in a package's "exports" */
+const IMPORT_CONDITIONS = new Set(["node", "import", "default"]);
+
+/**
+ * Path of a package (or a subpath of one) imported from `baseDir`: the
+ * target of its "exports" for import(), or else its main file.
+ */
+function resolvePackage(specifier: string, baseDir: string): string {
+  const [, name, subpath = ""] =
+    /^((?:@[^/]+\/)?[^/]+)(\/.*)?$/.exec(specifier) ?? [];
+  for (let dir = resolve(baseDir); name; dir = dirname(dir)) {
+    const packageDir = join(dir, "node_modules", name);
+    const manifest = readManifest(join(packageDir, "package.json"));
+    if (manifest?.exports !== undefined) {
+      const target = exportTarget(manifest.exports, `.${subpath}`);
+      if (target === undefined) {
+        throw new Error(
+          `Plugin "${specifier}" is not exported for import by ${packageDir}`
+        );
+      }
+      return join(packageDir, target);
+    }
+    if (manifest || dirname(dir) === dir) break;
+  }
+
+  // No "exports": main and index files, as require() finds them
+  try {
+    return createRequire(join(baseDir, "noop.js")).resolve(specifier);
+  } catch (err) {
+    throw new Error(`Plugin "${specifier}" not found from ${baseDir}`, {
+      cause: err,
+    });
+  }
+}
+
+/** A package.json's contents; undefined if it is missing or invalid */
+function readManifest(path: string): { exports?: unknown } | undefined {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as { exports?: unknown };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The relative file a subpath ("." or "./name") of a package's "exports"
+ * maps to for import(), including "*" patterns.
+ */
+function exportTarget(exports: unknown, subpath: string): string | undefined {
+  const isSubpathMap =
+    typeof exports === "object" &&
+    exports !== null &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith("."));
+  if (!isSubpathMap) {
+    return subpath === "." ? conditionalTarget(exports, "") : undefined;
+  }
+
+  const map = exports as Record<string, unknown>;
+  if (subpath in map) return conditionalTarget(map[subpath], "");
+  // The pattern with the longest prefix wins
+  let best: { key: string; match: string } | undefined;
+  for (const key of Object.keys(map)) {
+    const [prefix, suffix, extra] = key.split("*");
+    if (suffix === undefined || extra !== undefined) continue;
+    if (
+      subpath.length >= prefix.length + suffix.length &&
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      (!best || prefix.length > best.key.indexOf("*"))
+    ) {
+      best = {
+        key,
+        match: subpath.slice(prefix.length, subpath.length - suffix.length),
+      };
+    }
+  }
+  return best && conditionalTarget(map[best.key], best.match);
+}
+
+/** The first target of an "exports" value import() can use */
+function conditionalTarget(value: unknown, match: string): string | undefined {
+  if (typeof value === "string") {
+    return value.startsWith("./") ? value.replaceAll("*", match) : undefined;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = conditionalTarget(item, match);
+      if (target !== undefined) return target;
+    }
+    return undefined;
+  }
+  if (typeof value === "object" && value !== null) {
+    for (const [condition, target] of Object.entries(value)) {
+      if (!IMPORT_CONDITIONS.has(condition)) continue;
+      const resolved = conditionalTarget(target, match);
+      if (resolved !== undefined) return resolved;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,32 @@
+import type { ConfigFile } from "./config.js";
+
+/**
+ * Built-in presets that a config file can `extends` by name.
+ */
+export const builtinPresets: Record<string, ConfigFile> = {
+  /** The validator's built-in defaults */
+  recommended: {
+    rules: {},
+  },
+
+  /** CI gate: warnings fail the run and informational messages are hidden */
+  strict: {
+    extends: "recommended",
+    strict: true,
+    info: false,
+  },
+
+  /**
+   * Apps still on Sparkle 1.x: DSA signatures, enclosure-only versions and
+   * sparkle:os were the documented way to publish a feed, and Sparkle 2
+   * elements are ignored.
+   */
+  "legacy-sparkle1": {
+    extends: "recommended",
+    sparkleVersion: "1.27",
+    rules: {
+      W042: "off",
+      W043: "off",
+    },
+  },
+};
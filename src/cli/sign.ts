@@ -0,0 +1,93 @@
+import { Command } from "commander";
+import type { OptionValues } from "commander";
+import { writeFileSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { validate } from "../core/validator.js";
+import { decodeXml } from "../core/encoding.js";
+import {
+  ed25519PrivateKey,
+  formatArchiveSignature,
+  signArchive,
+  updateEnclosureSignatures,
+} from "../core/signing.js";
+import type { ArchiveSignature } from "../core/signing.js";
+import { formatText } from "./formatters/text.js";
+import { readFile, readKeyFile } from "./files.js";
+
+/**
+ * `sparkle-validator sign <archive>`: sign a release archive the way
+ * Sparkle's sign_update does, optionally writing the signature into the
+ * appcast.
+ */
+export function signCommand(): Command {
+  return new Command("sign")
+    .description(
+      "Sign a release archive with an EdDSA key, like Sparkle's sign_update"
+    )
+    .argument("<archive>", "Release archive to sign")
+    .requiredOption(
+      "--ed-key-file <file>",
+      'Private EdDSA key file, as exported by generate_keys -x, or "-" for stdin'
+    )
+    .option(
+      "--appcast <file>",
+      "Update the enclosures for the archive in this appcast in place, then validate it"
+    )
+    .action(async (archive: string, cliOptions: OptionValues) => {
+      try {
+        const key = ed25519PrivateKey(await readKeyFile(cliOptions.edKeyFile));
+        const signature = signArchive(readFile(archive, "Archive"), key);
+        process.stdout.write(formatArchiveSignature(signature) + "\n");
+        if (typeof cliOptions.appcast === "string") {
+          process.exit(
+            updateAppcast(cliOptions.appcast, basename(archive), signature)
+          );
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        process.stderr.write(`Error: ${message}\n`);
+        process.exit(2);
+      }
+    });
+}
+
+/**
+ * Write the signature into the appcast's enclosures for the archive and
+ * report what validate() finds in the result. Returns the exit code.
+ */
+function updateAppcast(
+  path: string,
+  fileName: string,
+  signature: ArchiveSignature
+): number {
+  const { xml, encoding, bom, diagnostics } = decodeXml(
+    readFile(path, "Appcast")
+  );
+  // Written back as UTF-8, like --fix
+  if (encoding !== "utf-8" || diagnostics.some((d) => d.id === "E034")) {
+    throw new Error(
+      "--appcast only rewrites valid UTF-8 files; convert the file to UTF-8 first"
+    );
+  }
+
+  const { output, enclosures } = updateEnclosureSignatures(
+    xml,
+    fileName,
+    signature
+  );
+  if (enclosures.length === 0) {
+    throw new Error(`No enclosure in ${path} has a URL ending in ${fileName}`);
+  }
+  writeFileSync(resolve(path), bom ? `\uFEFF${output}` : output);
+  const count = enclosures.length;
+  process.stderr.write(
+    `Updated ${count} enclosure${count !== 1 ? "s" : ""} in ${path}\n`
+  );
+
+  const result = validate(output);
+  const color = process.stdout.isTTY && !process.env.NO_COLOR;
+  process.stdout.write(
+    formatText(result, path, { color, quiet: false, noInfo: false }) + "\n"
+  );
+  return result.valid ? 0 : 1;
+}
@@ -0,0 +1,223 @@
+import { parseXml } from "./parser.js";
+import {
+  attr,
+  childElement,
+  childElements,
+  getItems,
+  isNonNegativeInteger,
+  parseRfc2822Date,
+  resolveVersion,
+  sparkleAttr,
+  sparkleChildElement,
+  sparkleChildElements,
+  textContent,
+} from "./rules/utils.js";
+import type { VersionSource } from "./rules/utils.js";
+import type { SourceRange, XmlDocument, XmlElement } from "./types.js";
+
+export type { VersionSource };
+
+/** The <channel> of an appcast and its items */
+export interface Appcast {
+  title?: string;
+  link?: string;
+  description?: string;
+  language?: string;
+  /** Items in document order */
+  items: AppcastItem[];
+  /** The <channel> element */
+  element: XmlElement;
+  range: SourceRange;
+}
+
+/** An <item>, modeled on Sparkle's SUAppcastItem */
+export interface AppcastItem {
+  title?: string;
+  /** <link>: the download page, or the page to open for informational updates */
+  link?: string;
+  description?: string;
+  /** <pubDate> as written */
+  pubDate?: string;
+  /** <pubDate> parsed, if it is a valid RFC 2822 date */
+  date?: Date;
+  /** Effective version (sparkle:version), undefined if it cannot be resolved */
+  version?: string;
+  /** Where `version` came from */
+  versionSource?: VersionSource;
+  /** sparkle:shortVersionString, from the element or the enclosure attribute */
+  shortVersionString?: string;
+  /** sparkle:channel; undefined for the default channel */
+  channel?: string;
+  releaseNotesLink?: string;
+  fullReleaseNotesLink?: string;
+  minimumSystemVersion?: string;
+  maximumSystemVersion?: string;
+  minimumAutoupdateVersion?: string;
+  ignoreSkippedUpgradesBelowVersion?: string;
+  minimumUpdateVersion?: string;
+  /** sparkle:hardwareRequirements, split into architectures */
+  hardwareRequirements: string[];
+  criticalUpdate: boolean;
+  /** The criticalUpdate's version attribute: critical only below this version */
+  criticalUpdateVersion?: string;
+  informationalUpdate: boolean;
+  /** <sparkle:belowVersion> entries of the informationalUpdate */
+  informationalUpdateBelowVersions: string[];
+  /** sparkle:phasedRolloutInterval in seconds, if it is a valid integer */
+  phasedRolloutInterval?: number;
+  /** sparkle:installationType, from the element or the enclosure attribute */
+  installationType?: string;
+  /** The enclosure's sparkle:os */
+  os?: string;
+  enclosure?: Enclosure;
+  /** Enclosures inside <sparkle:deltas> */
+  deltas: DeltaEnclosure[];
+  /** The <item> element */
+  element: XmlElement;
+  range: SourceRange;
+}
+
+/** An <enclosure> */
+export interface Enclosure {
+  url?: string;
+  /** length attribute in bytes, if it is a valid integer */
+  length?: number;
+  type?: string;
+  edSignature?: string;
+  dsaSignature?: string;
+  os?: string;
+  installationType?: string;
+  /** The <enclosure> element */
+  element: XmlElement;
+  range: SourceRange;
+}
+
+/** An <enclosure> inside <sparkle:deltas> */
+export interface DeltaEnclosure extends Enclosure {
+  /** sparkle:deltaFrom: the version this delta updates from */
+  deltaFrom?: string;
+}
+
+/**
+ * Build a typed model of an appcast. Values are read leniently: anything
+ * missing or malformed is left undefined, and validate() reports why.
+ *
+ * @param source - The appcast XML, or a document from parseXml()
+ * @returns The model, or undefined if there is no <rss><channel>
+ */
+export function parseAppcast(
+  source: string | XmlDocument
+): Appcast | undefined {
+  const doc = typeof source === "string" ? parseXml(source).document : source;
+  const root = doc.root;
+  if (!root || root.name !== "rss") return undefined;
+  const channel = childElement(root, "channel");
+  if (!channel) return undefined;
+
+  return {
+    title: childText(channel, "title"),
+    link: childText(channel, "link"),
+    description: childText(channel, "description"),
+    language: childText(channel, "language"),
+    items: getItems(channel).map(toItem),
+    element: channel,
+    range: channel.range,
+  };
+}
+
+function toItem(item: XmlElement): AppcastItem {
+  const enclosureEl = childElement(item, "enclosure");
+  const enclosure = enclosureEl && toEnclosure(enclosureEl);
+  const resolved = resolveVersion(item);
+  const pubDate = childText(item, "pubDate");
+  const criticalEl = sparkleChildElement(item, "criticalUpdate");
+  const informationalEl = sparkleChildElement(item, "informationalUpdate");
+  const rollout = sparkleText(item, "phasedRolloutInterval");
+  const deltasEl = sparkleChildElement(item, "deltas");
+
+  return {
+    title: childText(item, "title"),
+    link: childText(item, "link"),
+    description: childText(item, "description"),
+    pubDate,
+    date: (pubDate && parseRfc2822Date(pubDate)) || undefined,
+    version: resolved?.version,
+    versionSource: resolved?.source,
+    shortVersionString:
+      sparkleText(item, "shortVersionString") ??
+      (enclosureEl && sparkleAttr(enclosureEl, "shortVersionString")),
+    channel: sparkleText(item, "channel"),
+    releaseNotesLink: sparkleText(item, "releaseNotesLink"),
+    fullReleaseNotesLink: sparkleText(item, "fullReleaseNotesLink"),
+    minimumSystemVersion: sparkleText(item, "minimumSystemVersion"),
+    maximumSystemVersion: sparkleText(item, "maximumSystemVersion"),
+    minimumAutoupdateVersion: sparkleText(item, "minimumAutoupdateVersion"),
+    ignoreSkippedUpgradesBelowVersion: sparkleText(
+      item,
+      "ignoreSkippedUpgradesBelowVersion"
+    ),
+    minimumUpdateVersion: sparkleText(item, "minimumUpdateVersion"),
+    hardwareRequirements: (sparkleText(item, "hardwareRequirements") ?? "")
+      .split(/[,\s]+/)
+      .filter((arch) => arch.length > 0),
+    criticalUpdate: criticalEl !== undefined,
+    criticalUpdateVersion:
+      criticalEl &&
+      (sparkleAttr(criticalEl, "version") ?? attr(criticalEl, "version")),
+    informationalUpdate: informationalEl !== undefined,
+    informationalUpdateBelowVersions: informationalEl
+      ? sparkleChildElements(informationalEl, "belowVersion")
+          .map((el) => textContent(el).trim())
+          .filter((version) => version.length > 0)
+      : [],
+    phasedRolloutInterval:
+      rollout && isNonNegativeInteger(rollout)
+        ? parseInt(rollout, 10)
+        : undefined,
+    installationType:
+      sparkleText(item, "installationType") ?? enclosure?.installationType,
+    os: enclosure?.os,
+    enclosure,
+    deltas: deltasEl
+      ? childElements(deltasEl, "enclosure").map((el) => ({
+          ...toEnclosure(el),
+          deltaFrom: sparkleAttr(el, "deltaFrom"),
+        }))
+      : [],
+    element: item,
+    range: item.range,
+  };
+}
+
+function toEnclosure(enclosure: XmlElement): Enclosure {
+  const length = attr(enclosure, "length");
+  return {
+    url: attr(enclosure, "url"),
+    length:
+      length !== undefined && isNonNegativeInteger(length)
+        ? parseInt(length, 10)
+        : undefined,
+    type: attr(enclosure, "type"),
+    edSignature: sparkleAttr(enclosure, "edSignature"),
+    dsaSignature: sparkleAttr(enclosure, "dsaSignature"),
+    os: sparkleAttr(enclosure, "os"),
+    installationType: sparkleAttr(enclosure, "installationType"),
+    element: enclosure,
+    range: enclosure.range,
+  };
+}
+
+/** Trimmed text of a child element; undefined if missing or empty */
+function childText(parent: XmlElement, localName: string): string | undefined {
+  const el = childElement(parent, localName);
+  return (el && textContent(el).trim()) || undefined;
+}
+
+/** Trimmed text of a Sparkle child element; undefined if missing or empty */
+function sparkleText(
+  parent: XmlElement,
+  localName: string
+): string | undefined {
+  const el = sparkleChildElement(parent, localName);
+  return (el && textContent(el).trim()) || undefined;
+}
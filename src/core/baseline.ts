@@ -0,0 +1,182 @@
+import {
+  childElement,
+  childElements,
+  elementPath,
+  getItems,
+  sparkleAttr,
+  sparkleChildElement,
+  textContent,
+} from "./rules/utils.js";
+import type {
+  Baseline,
+  BaselineEntry,
+  BaselineItem,
+  BaselineSummary,
+  Diagnostic,
+  XmlDocument,
+  XmlElement,
+} from "./types.js";
+
+/** Current baseline file format version */
+export const BASELINE_VERSION = 1;
+
+export interface BaselineResult extends BaselineSummary {
+  /** Diagnostics that are not in the baseline */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Record diagnostics as a baseline. Pass unconsolidated diagnostics
+ * (`validate(xml, { consolidate: false })`) so every occurrence is recorded.
+ */
+export function createBaseline(
+  doc: XmlDocument,
+  diagnostics: Diagnostic[]
+): Baseline {
+  const locate = itemLocator(doc);
+  return {
+    version: BASELINE_VERSION,
+    entries: diagnostics.map((d) => ({
+      id: d.id,
+      ...locate(d.path),
+      message: d.message,
+    })),
+  };
+}
+
+/**
+ * Drop diagnostics recorded in a baseline and report the baseline entries
+ * that no longer occur. Each entry matches at most one diagnostic.
+ */
+export function applyBaseline(
+  doc: XmlDocument,
+  diagnostics: Diagnostic[],
+  baseline: Baseline
+): BaselineResult {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const key = entryKey(entry);
+    const list = remaining.get(key) ?? [];
+    list.push(entry);
+    remaining.set(key, list);
+  }
+
+  const locate = itemLocator(doc);
+  const kept: Diagnostic[] = [];
+  let matchedCount = 0;
+  for (const diag of diagnostics) {
+    const key = entryKey({ id: diag.id, ...locate(diag.path) });
+    const list = remaining.get(key);
+    if (list && list.length > 0) {
+      list.pop();
+      matchedCount++;
+    } else {
+      kept.push(diag);
+    }
+  }
+
+  return {
+    diagnostics: kept,
+    matchedCount,
+    fixed: [...remaining.values()].flat(),
+  };
+}
+
+/**
+ * Check the shape of a parsed baseline file.
+ */
+export function checkBaseline(raw: unknown): Baseline {
+  const baseline = raw as Partial<Baseline> | null;
+  if (
+    typeof baseline !== "object" ||
+    baseline === null ||
+    !Array.isArray(baseline.entries)
+  ) {
+    throw new Error("Baseline must be an object with an entries array");
+  }
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new Error(
+      `Unsupported baseline version ${String(baseline.version)}; expected ${BASELINE_VERSION}`
+    );
+  }
+  for (const entry of baseline.entries as unknown[]) {
+    const e = entry as Partial<BaselineEntry> | null;
+    if (
+      typeof e !== "object" ||
+      e === null ||
+      typeof e.id !== "string" ||
+      typeof e.path !== "string"
+    ) {
+      throw new Error("Baseline entries need a string id and path");
+    }
+  }
+  return baseline as Baseline;
+}
+
+function entryKey(entry: Pick<BaselineEntry, "id" | "item" | "path">): string {
+  const item = entry.item;
+  return JSON.stringify([
+    entry.id,
+    item?.version ?? null,
+    item?.channel ?? null,
+    item?.os ?? null,
+    item?.title ?? null,
+    entry.path,
+  ]);
+}
+
+/**
+ * Build a function mapping a diagnostic path to its item identity and the
+ * path below that item.
+ */
+function itemLocator(
+  doc: XmlDocument
+): (path: string | undefined) => Pick<BaselineEntry, "item" | "path"> {
+  const items: Array<{ path: string; item: BaselineItem }> = [];
+  if (doc.root) {
+    for (const channel of childElements(doc.root, "channel")) {
+      for (const item of getItems(channel)) {
+        items.push({ path: elementPath(item), item: identify(item) });
+      }
+    }
+  }
+
+  return (path) => {
+    if (!path) return { path: "" };
+    for (const candidate of items) {
+      if (path === candidate.path) return { item: candidate.item, path: "" };
+      if (path.startsWith(`${candidate.path} > `)) {
+        return {
+          item: candidate.item,
+          path: path.slice(candidate.path.length + 3),
+        };
+      }
+    }
+    return { path };
+  };
+}
+
+function identify(item: XmlElement): BaselineItem {
+  const enclosure = childElement(item, "enclosure");
+  const versionEl = sparkleChildElement(item, "version");
+  const channelEl = sparkleChildElement(item, "channel");
+  const titleEl = childElement(item, "title");
+
+  const version =
+    (versionEl && textContent(versionEl).trim()) ||
+    (enclosure && sparkleAttr(enclosure, "version")) ||
+    undefined;
+  const channel = (channelEl && textContent(channelEl).trim()) || undefined;
+  const os = (enclosure && sparkleAttr(enclosure, "os")) || undefined;
+  const title =
+    version === undefined
+      ? (titleEl && textContent(titleEl).trim()) || undefined
+      : undefined;
+
+  return {
+    ...(version !== undefined && { version }),
+    ...(channel !== undefined && { channel }),
+    ...(os !== undefined && { os }),
+    ...(title !== undefined && { title }),
+  };
+}
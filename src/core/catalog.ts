@@ -0,0 +1,1031 @@
+import type { RuleMeta } from "./types.js";
+
+/** Base URL of the per-rule documentation (anchors are lowercase rule IDs) */
+export const RULE_DOCS_URL =
+  "https://github.com/dweekly/Sparkle-Validator/blob/main/RULES.md";
+
+/**
+ * Every rule ID the validator can emit. IDs are never reused: when a rule is
+ * retired or renumbered its old ID stays unassigned.
+ */
+const RULES: Omit<RuleMeta, "docsUrl">[] = [
+  // --- Errors ---
+  {
+    id: "E001",
+    severity: "error",
+    category: "xml",
+    title: "Not well-formed XML",
+    description:
+      "The document could not be parsed as XML. Sparkle's NSXMLDocument-based parser rejects the entire feed, so no updates are offered.",
+    sparkle: {},
+    data: ["reason"],
+  },
+  {
+    id: "E002",
+    severity: "error",
+    category: "structure",
+    title: "Root element is not <rss>",
+    description:
+      "An appcast is an RSS 2.0 feed and its root element must be <rss>. Atom feeds and other formats are not supported by Sparkle.",
+    sparkle: {},
+    data: ["value", "expected"],
+  },
+  {
+    id: "E003",
+    severity: "error",
+    category: "structure",
+    title: 'Missing version="2.0" on <rss>',
+    description:
+      'The <rss> element must declare version="2.0" to identify the feed as RSS 2.0.',
+    sparkle: {},
+    data: ["value", "expected"],
+  },
+  {
+    id: "E004",
+    severity: "error",
+    category: "structure",
+    title: "Missing Sparkle namespace declaration",
+    description:
+      "The sparkle: prefix must be bound to the Sparkle namespace URI on <rss>. Without it every sparkle: element and attribute is invisible to Sparkle.",
+    sparkle: {},
+  },
+  {
+    id: "E005",
+    severity: "error",
+    category: "structure",
+    title: "Missing <channel> inside <rss>",
+    description:
+      "Sparkle reads items from the single <channel> element; a feed without one contains no updates.",
+    sparkle: {},
+  },
+  {
+    id: "E006",
+    severity: "error",
+    category: "structure",
+    title: "More than one <channel> element",
+    description:
+      "RSS 2.0 allows exactly one <channel>. Items in additional channels are ignored.",
+    sparkle: {},
+    data: ["count"],
+  },
+  {
+    id: "E007",
+    severity: "error",
+    category: "structure",
+    title: "No <item> elements in <channel>",
+    description:
+      "The channel contains no <item> elements, so the feed offers no updates.",
+    sparkle: {},
+  },
+  {
+    id: "E008",
+    severity: "error",
+    category: "version",
+    title: "Item missing sparkle:version",
+    description:
+      "Sparkle compares the item's build number against the running app to decide whether it is an update. The item has no <sparkle:version> element, no sparkle:version enclosure attribute, and no version that can be deduced from the download filename.",
+    sparkle: {},
+  },
+  {
+    id: "E009",
+    severity: "error",
+    category: "enclosure",
+    title: "Item has neither <enclosure> nor <link>",
+    description:
+      "An item must provide something to install (<enclosure>) or somewhere to send the user (<link> with <sparkle:informationalUpdate>).",
+    sparkle: {},
+  },
+  {
+    id: "E010",
+    severity: "error",
+    category: "enclosure",
+    title: "<enclosure> missing url attribute",
+    description:
+      "The enclosure has no url attribute, so Sparkle has nothing to download.",
+    sparkle: {},
+  },
+  {
+    id: "E013",
+    severity: "error",
+    category: "enclosure",
+    title: "Enclosure length is not a non-negative integer",
+    description:
+      "The length attribute must be the archive size in bytes, written as a plain non-negative integer.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "E014",
+    severity: "error",
+    category: "urls",
+    title: "Invalid enclosure URL",
+    description:
+      "The enclosure url is not an absolute http(s) URL and cannot be downloaded.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "E015",
+    severity: "error",
+    category: "urls",
+    title: "Invalid <link> URL",
+    description:
+      "The channel or item <link> is not a valid absolute URL with an http, https, or feed scheme.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "E016",
+    severity: "error",
+    category: "urls",
+    title: "Invalid sparkle:releaseNotesLink URL",
+    description:
+      "The release notes link is not a valid absolute URL, so the update dialog cannot load the notes.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "E017",
+    severity: "error",
+    category: "urls",
+    title: "Invalid sparkle:fullReleaseNotesLink URL",
+    description:
+      "The full release notes link is not a valid absolute URL, so the version history button cannot open it.",
+    sparkle: { min: "2.0" },
+    data: ["url"],
+  },
+  {
+    id: "E018",
+    severity: "error",
+    category: "urls",
+    title: "Invalid delta enclosure URL",
+    description:
+      "A delta enclosure url is not a valid absolute URL, so the delta cannot be downloaded.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "E019",
+    severity: "error",
+    category: "channels",
+    title: "Invalid sparkle:channel name",
+    description:
+      "Channel names must be simple identifiers made of letters, digits, dots, hyphens, and underscores so they can match the channels an app allows.",
+    sparkle: { min: "2.0" },
+    data: ["value"],
+  },
+  {
+    id: "E020",
+    severity: "error",
+    category: "rollout",
+    title: "Invalid sparkle:phasedRolloutInterval",
+    description:
+      "The phased rollout interval must be a non-negative integer number of seconds.",
+    sparkle: { min: "2.0" },
+    data: ["value"],
+  },
+  {
+    id: "E021",
+    severity: "error",
+    category: "rollout",
+    title: "Phased rollout without <pubDate>",
+    description:
+      "Sparkle computes rollout groups relative to the item's publication date; without a <pubDate> the rollout cannot be scheduled.",
+    sparkle: { min: "2.0" },
+  },
+  {
+    id: "E022",
+    severity: "error",
+    category: "enclosure",
+    title: "Invalid sparkle:installationType",
+    description: 'sparkle:installationType must be "application" or "package".',
+    sparkle: { min: "2.0" },
+    data: ["value", "allowed"],
+  },
+  {
+    id: "E023",
+    severity: "error",
+    category: "deltas",
+    title: "<sparkle:deltas> has no <enclosure> children",
+    description:
+      "A <sparkle:deltas> element must contain one <enclosure> per delta update.",
+    sparkle: {},
+  },
+  {
+    id: "E024",
+    severity: "error",
+    category: "deltas",
+    title: "Delta enclosure missing sparkle:deltaFrom",
+    description:
+      "Each delta enclosure must declare the build number it patches from; Sparkle ignores deltas without it.",
+    sparkle: {},
+  },
+  {
+    id: "E025",
+    severity: "error",
+    category: "deltas",
+    title: "Delta enclosure missing url",
+    description:
+      "A delta enclosure has no url attribute, so the delta cannot be downloaded.",
+    sparkle: {},
+  },
+  {
+    id: "E027",
+    severity: "error",
+    category: "remote",
+    title: "URL is unreachable or returns a non-2xx status",
+    description:
+      "A download or release notes URL failed to load during --check-urls or --verify-downloads (network error, timeout, or HTTP error status).",
+    sparkle: {},
+    data: ["url", "reason", "status"],
+  },
+  {
+    id: "E028",
+    severity: "error",
+    category: "remote",
+    title: "Content-Length does not match declared length",
+    description:
+      "The server reports a different size than the enclosure's length attribute, or with --verify-downloads sends a different number of bytes; the archive was likely replaced without updating the appcast, or the upload was cut short.",
+    sparkle: {},
+    data: ["url", "declaredLength", "actualLength"],
+  },
+  {
+    id: "E029",
+    severity: "error",
+    category: "version",
+    title: "Version string is empty",
+    description:
+      "A <sparkle:version> element or sparkle:version attribute is present but empty or whitespace-only.",
+    sparkle: {},
+  },
+  {
+    id: "E030",
+    severity: "error",
+    category: "enclosure",
+    title: "Invalid sparkle:os value",
+    description: 'sparkle:os must be "macos" or "windows".',
+    sparkle: {},
+    data: ["value", "allowed"],
+  },
+  {
+    id: "E031",
+    severity: "error",
+    category: "signatures",
+    title: "Malformed signature",
+    description:
+      "An EdDSA or DSA signature is not valid base64 or has the wrong decoded length. Sparkle rejects updates with malformed signatures.",
+    sparkle: {},
+    data: ["value", "reason"],
+  },
+  {
+    id: "E032",
+    severity: "error",
+    category: "structure",
+    title: "Requires a newer Sparkle release",
+    description:
+      "Only reported with the sparkleVersion option (--sparkle-version). The item uses a Sparkle element or enclosure attribute that was introduced after the targeted release, which ignores it: for example <sparkle:channel> on Sparkle 1.x offers a beta to every user.",
+    sparkle: {},
+    data: ["value", "sparkleVersion"],
+  },
+  {
+    id: "E033",
+    severity: "error",
+    category: "xml",
+    title: "Declared encoding does not match the bytes",
+    description:
+      "Only reported when validating bytes. The encoding in the XML declaration contradicts the byte order mark, or the file declares a single-byte encoding such as ISO-8859-1 but is saved as UTF-8, so non-ASCII text is decoded wrongly or the feed fails to parse.",
+    sparkle: {},
+    data: ["value", "expected"],
+  },
+  {
+    id: "E034",
+    severity: "error",
+    category: "xml",
+    title: "Invalid UTF-8 byte sequence",
+    description:
+      "Only reported when validating bytes. The file is read as UTF-8 (declared, or the XML default) but contains bytes that are not valid UTF-8, typically because it was saved as ISO-8859-1 or Windows-1252. XML parsers, including Sparkle's, reject the feed.",
+    sparkle: {},
+    data: ["value", "byteOffset"],
+  },
+  {
+    id: "E035",
+    severity: "error",
+    category: "xml",
+    title: "Document exceeds the size limit",
+    description:
+      "The document is larger than the parser's maxBytes limit (16 MiB of UTF-8 by default). Only the part within the limit is parsed and no rules are run. Real appcasts are far smaller; the limit protects the validator from runaway or hostile input.",
+    sparkle: {},
+    data: ["limit"],
+  },
+  {
+    id: "E036",
+    severity: "error",
+    category: "xml",
+    title: "Elements nested too deeply",
+    description:
+      "Elements are nested deeper than the parser's maxDepth limit (64 by default). Parsing stops at the element that goes past it and no rules are run.",
+    sparkle: {},
+    data: ["limit"],
+  },
+  {
+    id: "E037",
+    severity: "error",
+    category: "xml",
+    title: "Too many child elements",
+    description:
+      "An element has more child elements than the parser's maxChildren limit (10,000 by default), e.g. a channel with that many items. Parsing stops at the element that goes past it and no rules are run.",
+    sparkle: {},
+    data: ["limit"],
+  },
+  {
+    id: "E038",
+    severity: "error",
+    category: "xml",
+    title: "Too many nodes",
+    description:
+      "The document has more elements, text nodes, comments and other nodes than the parser's maxNodes limit (250,000 by default). Parsing stops at the node that goes past it and no rules are run.",
+    sparkle: {},
+    data: ["limit"],
+  },
+  {
+    id: "E039",
+    severity: "error",
+    category: "xml",
+    title: "Too many XML errors",
+    description:
+      "The document has more well-formedness errors (E001) than the parser's maxErrors limit (100 by default), so it is unlikely to be an appcast at all. Parsing stops and no rules are run.",
+    sparkle: {},
+    data: ["limit"],
+  },
+  {
+    id: "E040",
+    severity: "error",
+    category: "xml",
+    title: "External entity in DOCTYPE",
+    description:
+      "The DOCTYPE loads an external DTD or declares an entity with a SYSTEM or PUBLIC identifier. An XML parser that resolves it fetches the URL or reads the local file while parsing the appcast, the basis of XML external entity (XXE) attacks. Appcasts never need external entities; one usually means the feed was tampered with.",
+    sparkle: {},
+    data: ["value", "url"],
+  },
+  {
+    id: "E041",
+    severity: "error",
+    category: "signatures",
+    title: "EdDSA signature does not verify",
+    description:
+      "Only checked with a public key, against local release archives or downloads (--verify-downloads). The sparkle:edSignature is not a signature of the archive by the app's public key (SUPublicEDKey), so Sparkle will refuse the update. The archive changed after signing, or it was signed with a different key.",
+    sparkle: { min: "1.21" },
+    data: ["url"],
+  },
+  {
+    id: "E042",
+    severity: "error",
+    category: "signatures",
+    title: "Length doesn't match the local archive",
+    description:
+      "Only checked with local release archives. The enclosure's length attribute differs from the size of the archive it serves. Sparkle checks the downloaded size against it, so the update would fail.",
+    sparkle: {},
+    data: ["url", "declaredLength", "actualLength"],
+  },
+  {
+    id: "E043",
+    severity: "error",
+    category: "signatures",
+    title: "DSA signature does not verify",
+    description:
+      "Only checked with a DSA public key (--dsa-public-key), against local release archives. The sparkle:dsaSignature is not the DSA signature of the archive's SHA-1 digest by the app's SUPublicDSAKeyFile key, so Sparkle 1 apps will refuse the update.",
+    sparkle: {},
+    data: ["url"],
+  },
+
+  // --- Warnings ---
+  {
+    id: "W001",
+    severity: "warning",
+    category: "best-practices",
+    title: "Channel missing <title>",
+    description:
+      "The channel has no <title>. It is not used by Sparkle but RSS 2.0 requires it.",
+    sparkle: {},
+  },
+  {
+    id: "W002",
+    severity: "warning",
+    category: "best-practices",
+    title: "Item missing <title>",
+    description:
+      "The item has no <title>; Sparkle shows it in the update dialog.",
+    sparkle: {},
+  },
+  {
+    id: "W003",
+    severity: "warning",
+    category: "dates",
+    title: "Item missing <pubDate>",
+    description:
+      "The item has no (or an empty) <pubDate>. Dates are shown to users and required for phased rollout.",
+    sparkle: {},
+  },
+  {
+    id: "W004",
+    severity: "warning",
+    category: "dates",
+    title: "<pubDate> is not RFC 2822",
+    description:
+      "RSS 2.0 dates must use RFC 2822 format, e.g. Thu, 13 Jul 2023 14:30:00 -0700.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W006",
+    severity: "warning",
+    category: "signatures",
+    title: "DSA-only signature",
+    description:
+      "The enclosure is signed with DSA but not EdDSA. DSA is deprecated in favor of EdDSA (Ed25519), and Sparkle 2 refuses updates that are only DSA-signed. DSA-only signing is fine for a Sparkle 1.x app, so with a 1.x sparkleVersion this isn't reported.",
+    sparkle: { min: "2.0", fatal: "2.0" },
+  },
+  {
+    id: "W007",
+    severity: "warning",
+    category: "version",
+    title: "Redundant sparkle:version",
+    description:
+      "The version is declared both as a <sparkle:version> element and as an enclosure attribute with the same value.",
+    sparkle: {},
+    data: ["version"],
+  },
+  {
+    id: "W008",
+    severity: "warning",
+    category: "version",
+    title: "Redundant sparkle:shortVersionString",
+    description:
+      "The marketing version is declared both as an element and as an enclosure attribute with the same value.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W009",
+    severity: "warning",
+    category: "release-notes",
+    title: "No release notes",
+    description:
+      "The item has no <description>, <sparkle:releaseNotesLink>, or <sparkle:fullReleaseNotesLink>, so the update dialog has nothing to show.",
+    sparkle: {},
+  },
+  {
+    id: "W010",
+    severity: "warning",
+    category: "enclosure",
+    title: "Non-standard enclosure MIME type",
+    description:
+      'The enclosure type is not "application/octet-stream", the conventional type for update archives.',
+    sparkle: {},
+    data: ["value", "expected"],
+  },
+  {
+    id: "W011",
+    severity: "warning",
+    category: "system-requirements",
+    title: "Invalid minimumSystemVersion format",
+    description:
+      "sparkle:minimumSystemVersion is not a macOS version such as 10.13, 11.0, or 14.0.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W012",
+    severity: "warning",
+    category: "system-requirements",
+    title: "Invalid maximumSystemVersion format",
+    description:
+      "sparkle:maximumSystemVersion is not a macOS version such as 10.13, 11.0, or 14.0.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W013",
+    severity: "warning",
+    category: "system-requirements",
+    title: "minimumSystemVersion is greater than maximumSystemVersion",
+    description:
+      "The item's system requirements exclude every macOS version, so no user can install it.",
+    sparkle: {},
+    data: ["value", "compareTo"],
+  },
+  {
+    id: "W016",
+    severity: "warning",
+    category: "urls",
+    title: "URL has unencoded special characters",
+    description:
+      "The URL contains characters such as spaces or braces that must be percent-encoded.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "W017",
+    severity: "warning",
+    category: "best-practices",
+    title: "informationalUpdate with enclosure",
+    description:
+      "The item is marked as an informational update but also has a download and no version conditions; Sparkle will never install the download.",
+    sparkle: { min: "2.0" },
+  },
+  {
+    id: "W018",
+    severity: "warning",
+    category: "version",
+    title: "Items not sorted by version",
+    description:
+      "Items on the same channel are not in descending version order, compared the way Sparkle compares versions (so 1.0b2 is older than 1.0). Sparkle picks the best item by version, but tools and humans reading the feed expect the newest first.",
+    sparkle: {},
+    data: ["version", "compareTo"],
+  },
+  {
+    id: "W019",
+    severity: "warning",
+    category: "enclosure",
+    title: "Enclosure length is 0",
+    description:
+      "A zero length is almost always a placeholder that was never filled in.",
+    sparkle: {},
+    data: ["declaredLength"],
+  },
+  {
+    id: "W020",
+    severity: "warning",
+    category: "version",
+    title: "Duplicate version",
+    description:
+      "Two items share the same version without differing sparkle:os or sparkle:channel, so only one of them can ever be offered.",
+    sparkle: {},
+    data: ["version"],
+  },
+  {
+    id: "W021",
+    severity: "warning",
+    category: "remote",
+    title: "URL redirects",
+    description:
+      "The URL redirects to another location during --check-urls; consider publishing the final URL.",
+    sparkle: {},
+    data: ["url", "redirectUrl"],
+  },
+  {
+    id: "W022",
+    severity: "warning",
+    category: "remote",
+    title: "Content-Length header missing",
+    description:
+      "The server did not report a Content-Length, so the declared length could not be verified.",
+    sparkle: {},
+    data: ["url", "declaredLength"],
+  },
+  {
+    id: "W023",
+    severity: "warning",
+    category: "remote",
+    title: "Local or private URL skipped",
+    description:
+      "The URL points to localhost or a private network and was not checked; it will not work for users.",
+    sparkle: {},
+    data: ["url", "reason"],
+  },
+  {
+    id: "W024",
+    severity: "warning",
+    category: "remote",
+    title: "URL uses insecure HTTP",
+    description:
+      "The URL uses plain HTTP. Downloads should be served over HTTPS.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "W025",
+    severity: "warning",
+    category: "dates",
+    title: "<pubDate> is in the future",
+    description:
+      "The publication date is more than a day in the future, which delays phased rollouts and confuses users.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W026",
+    severity: "warning",
+    category: "dates",
+    title: "<pubDate> is implausibly old",
+    description:
+      "The publication date predates Mac OS X, which usually indicates a formatting mistake.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W027",
+    severity: "warning",
+    category: "version",
+    title: "Non-numeric version string",
+    description:
+      "The version contains letters or symbols. Sparkle's version comparator handles them, but ordering against numeric builds is easy to get wrong.",
+    sparkle: {},
+    data: ["version"],
+  },
+  {
+    id: "W028",
+    severity: "warning",
+    category: "version",
+    title: "Version decreases while pubDate increases",
+    description:
+      "Within a channel, an item with a newer publication date has a lower version than an older item, compared the way Sparkle compares versions.",
+    sparkle: {},
+    data: ["version", "compareTo"],
+  },
+  {
+    id: "W030",
+    severity: "warning",
+    category: "urls",
+    title: "Suspicious download URL extension",
+    description:
+      "The enclosure URL ends in an extension such as .html or .png that is not an update archive.",
+    sparkle: {},
+    data: ["url", "value"],
+  },
+  {
+    id: "W032",
+    severity: "warning",
+    category: "deltas",
+    title: "Duplicate delta for the same deltaFrom",
+    description:
+      "An item has more than one delta enclosure for the same source version; only one is used.",
+    sparkle: {},
+    data: ["version"],
+  },
+  {
+    id: "W033",
+    severity: "warning",
+    category: "best-practices",
+    title: "Unusual shortVersionString format",
+    description:
+      "The marketing version does not follow the usual x.y or x.y.z pattern.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W034",
+    severity: "warning",
+    category: "best-practices",
+    title: "Invalid criticalUpdate version",
+    description:
+      "The sparkle:version attribute on <sparkle:criticalUpdate> is not a valid version.",
+    sparkle: { min: "2.0" },
+    data: ["value"],
+  },
+  {
+    id: "W035",
+    severity: "warning",
+    category: "urls",
+    title: "Feed mixes HTTP and HTTPS URLs",
+    description:
+      "Some URLs use HTTPS and others plain HTTP; use HTTPS consistently.",
+    sparkle: {},
+    data: ["url"],
+  },
+  {
+    id: "W036",
+    severity: "warning",
+    category: "system-requirements",
+    title: "Unknown hardware architecture",
+    description:
+      "sparkle:hardwareRequirements names an architecture Sparkle does not recognize.",
+    sparkle: { min: "2.9" },
+    data: ["value", "allowed"],
+  },
+  {
+    id: "W037",
+    severity: "warning",
+    category: "release-notes",
+    title: "releaseNotesLink missing xml:lang",
+    description:
+      "An item has several release notes links but one of them has no xml:lang to say which language it serves.",
+    sparkle: {},
+  },
+  {
+    id: "W038",
+    severity: "warning",
+    category: "xml",
+    title: "CDATA in version",
+    description:
+      "A CDATA section is used for a version value; plain text is expected and some tools mishandle CDATA there.",
+    sparkle: {},
+  },
+  {
+    id: "W039",
+    severity: "warning",
+    category: "xml",
+    title: "XML declaration missing encoding",
+    description:
+      'The XML declaration does not specify an encoding; add encoding="UTF-8".',
+    sparkle: {},
+  },
+  {
+    id: "W040",
+    severity: "warning",
+    category: "best-practices",
+    title: "Inconsistent language",
+    description:
+      "The channel declares a <language> but items carry release notes in other languages.",
+    sparkle: {},
+    data: ["values", "expected"],
+  },
+  {
+    id: "W041",
+    severity: "warning",
+    category: "version",
+    title: "Version deduced from filename",
+    description:
+      "The item has no explicit version. Sparkle may deduce one from the download filename, but this fallback is undocumented and unsupported.",
+    sparkle: {},
+    data: ["version", "url"],
+  },
+  {
+    id: "W042",
+    severity: "warning",
+    category: "version",
+    title: "Version only as enclosure attribute",
+    description:
+      "The version is only given as a sparkle:version enclosure attribute; prefer the <sparkle:version> element.",
+    sparkle: {},
+    data: ["version"],
+  },
+  {
+    id: "W043",
+    severity: "warning",
+    category: "enclosure",
+    title: "sparkle:os is deprecated",
+    description:
+      "sparkle:os is deprecated; publish a separate appcast per platform instead.",
+    sparkle: {},
+  },
+  {
+    id: "W044",
+    severity: "warning",
+    category: "enclosure",
+    title: "<enclosure> missing length attribute",
+    description:
+      "The enclosure has no length attribute. Sparkle still downloads the update but cannot show accurate progress. Previously reported as W011.",
+    sparkle: {},
+  },
+  {
+    id: "W045",
+    severity: "warning",
+    category: "enclosure",
+    title: "<enclosure> missing type attribute",
+    description:
+      'The enclosure has no type attribute; add type="application/octet-stream". Previously reported as W012.',
+    sparkle: {},
+  },
+  {
+    id: "W046",
+    severity: "warning",
+    category: "structure",
+    title: "Non-canonical Sparkle namespace URI",
+    description:
+      "The sparkle prefix is bound to a known variant of the Sparkle namespace (missing www or https). Sparkle accepts it, but the canonical URI is preferred. Previously reported as W042.",
+    sparkle: {},
+    data: ["value", "expected"],
+  },
+  {
+    id: "W047",
+    severity: "warning",
+    category: "xml",
+    title: "Suppression comment names an unknown rule ID",
+    description:
+      "A sparkle-validator-disable or sparkle-validator-disable-next-item comment lists a rule ID the validator does not know, so it suppresses nothing. This is usually a typo or a rule that has been renumbered.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "W048",
+    severity: "warning",
+    category: "deltas",
+    title: "Delta deltaFrom is not older than the item",
+    description:
+      "A delta enclosure's sparkle:deltaFrom is the same as or newer than the item's own version, compared the way Sparkle compares versions. A delta can only update from an older version, so no client will use it.",
+    sparkle: {},
+    data: ["version", "compareTo"],
+  },
+  {
+    id: "W049",
+    severity: "warning",
+    category: "best-practices",
+    title: "criticalUpdate version is newer than the item",
+    description:
+      "<sparkle:criticalUpdate sparkle:version=\"X\"> marks the update as critical for users running a version older than X. An X newer than the item's own version usually means a marketing version or another item's build number was used by mistake.",
+    sparkle: { min: "2.0" },
+    data: ["value", "compareTo"],
+  },
+  {
+    id: "W050",
+    severity: "warning",
+    category: "xml",
+    title: "Byte order mark inside the document",
+    description:
+      "A U+FEFF character appears after the start of the document, usually left over from concatenating files that each began with a byte order mark. Outside text it makes the XML malformed.",
+    sparkle: {},
+  },
+  {
+    id: "W051",
+    severity: "warning",
+    category: "xml",
+    title: "DOCTYPE declaration",
+    description:
+      "The appcast has a <!DOCTYPE> declaration. RSS feeds don't use DTDs, and entity declarations in one change what Sparkle reads from the feed, so a DTD is usually injected junk from a CMS or a sign of tampering.",
+    sparkle: {},
+    data: ["count"],
+  },
+  {
+    id: "W052",
+    severity: "warning",
+    category: "signatures",
+    title: "Local archive not found",
+    description:
+      "Only checked with local release archives. No archive for the enclosure URL was found in the artifacts directory or the URL prefix mapping, so its length and signature could not be verified.",
+    sparkle: {},
+    data: ["url", "value"],
+  },
+  {
+    id: "W053",
+    severity: "warning",
+    category: "signatures",
+    title: "Only one of two signatures verifies",
+    description:
+      "Only checked with both public keys, against local release archives. The enclosure has both sparkle:edSignature and sparkle:dsaSignature, but only one of them verifies. Apps checking the other signature will refuse the update: Sparkle 2 checks the EdDSA signature, Sparkle 1 apps with a DSA key check the DSA signature.",
+    sparkle: { min: "1.21" },
+    data: ["url"],
+  },
+
+  // --- Info ---
+  {
+    id: "I001",
+    severity: "info",
+    category: "info",
+    title: "Feed summary",
+    description: "Number of items and channels in the feed.",
+    sparkle: {},
+    data: ["count"],
+  },
+  {
+    id: "I002",
+    severity: "info",
+    category: "deltas",
+    title: "Item has delta updates",
+    description: "Number of delta updates offered by an item.",
+    sparkle: {},
+    data: ["count"],
+  },
+  {
+    id: "I003",
+    severity: "info",
+    category: "rollout",
+    title: "Item uses phased rollout",
+    description: "The item is rolled out gradually over the given interval.",
+    sparkle: { min: "2.0" },
+    data: ["value"],
+  },
+  {
+    id: "I004",
+    severity: "info",
+    category: "info",
+    title: "Critical update",
+    description: "The item is marked as a critical update.",
+    sparkle: {},
+  },
+  {
+    id: "I005",
+    severity: "info",
+    category: "info",
+    title: "Item targets a non-macOS platform",
+    description:
+      "The item's sparkle:os targets a platform other than macOS and is ignored by Sparkle on the Mac.",
+    sparkle: {},
+    data: ["value"],
+  },
+  {
+    id: "I006",
+    severity: "info",
+    category: "system-requirements",
+    title: "Item requires specific hardware",
+    description:
+      "The item declares sparkle:hardwareRequirements (Sparkle 2.9+).",
+    sparkle: { min: "2.9" },
+    data: ["value"],
+  },
+  {
+    id: "I007",
+    severity: "info",
+    category: "system-requirements",
+    title: "Item requires a minimum app version to update",
+    description:
+      "The item declares sparkle:minimumUpdateVersion (Sparkle 2.9+).",
+    sparkle: { min: "2.9" },
+    data: ["value"],
+  },
+  {
+    id: "I008",
+    severity: "info",
+    category: "info",
+    title: "Large feed",
+    description:
+      "The feed contains more than 50 items; consider pruning old releases.",
+    sparkle: {},
+    data: ["count"],
+  },
+  {
+    id: "I009",
+    severity: "info",
+    category: "info",
+    title: "OS support range",
+    description:
+      "Summary of the minimum and maximum macOS versions declared across items.",
+    sparkle: {},
+  },
+  {
+    id: "I010",
+    severity: "info",
+    category: "signatures",
+    title: "Enclosure has no signature",
+    description:
+      "The enclosure is unsigned. Signatures are optional for apps that do not require them, but EdDSA signing is recommended.",
+    sparkle: {},
+  },
+  {
+    id: "I011",
+    severity: "info",
+    category: "best-practices",
+    title: "Channel missing <link>",
+    description:
+      "The channel has no <link>. RSS 2.0 expects one, but Sparkle does not use it.",
+    sparkle: {},
+  },
+  {
+    id: "I012",
+    severity: "info",
+    category: "deltas",
+    title: "Delta source version not in feed",
+    description:
+      "A delta's sparkle:deltaFrom names a version that is not in the feed. This is normal once old releases are pruned.",
+    sparkle: {},
+    data: ["version"],
+  },
+  {
+    id: "I013",
+    severity: "info",
+    category: "signatures",
+    title: "EdDSA signature verified",
+    description:
+      "Only checked with a public key, against local release archives or downloads (--verify-downloads). The enclosure's sparkle:edSignature is a valid signature of the archive by the app's public key.",
+    sparkle: { min: "1.21" },
+    data: ["url"],
+  },
+  {
+    id: "I014",
+    severity: "info",
+    category: "enclosure",
+    title: "Download size and SHA-256",
+    description:
+      "Only reported with --verify-downloads. The number of bytes the enclosure URL served and their SHA-256, for comparing against the archive that was built and signed.",
+    sparkle: {},
+    data: ["url", "actualLength", "sha256"],
+  },
+  {
+    id: "I015",
+    severity: "info",
+    category: "signatures",
+    title: "DSA signature verified",
+    description:
+      "Only checked with a DSA public key (--dsa-public-key), against local release archives. The enclosure's sparkle:dsaSignature is a valid signature of the archive by the app's DSA public key.",
+    sparkle: {},
+    data: ["url"],
+  },
+];
+
+/** All known rules, in ID order within each severity */
+export const ruleCatalog: readonly RuleMeta[] = RULES.map((rule) => ({
+  ...rule,
+  docsUrl: `${RULE_DOCS_URL}#${rule.id.toLowerCase()}`,
+}));
+
+const rulesById = new Map(ruleCatalog.map((rule) => [rule.id, rule]));
+
+/** Finds a rule's catalog entry by ID */
+export type RuleLookup = (id: string) => RuleMeta | undefined;
+
+/**
+ * Look up a rule's catalog entry by ID.
+ */
+export function getRuleMeta(id: string): RuleMeta | undefined {
+  return rulesById.get(id);
+}
@@ -0,0 +1,248 @@
+import { createHash } from "node:crypto";
+import type { AsyncValidationRule, Diagnostic, XmlElement } from "./types.js";
+import {
+  createRequestLimiter,
+  getFetchErrorMessage,
+  isLocalOrPrivateUrl,
+} from "./remote.js";
+import type { RemoteValidationOptions } from "./remote.js";
+import { appcastEnclosures, rawEd25519PublicKey } from "./signatures.js";
+import { createEd25519Verify } from "./ed25519.js";
+import type { Ed25519Verify } from "./ed25519.js";
+import {
+  attributeLocation,
+  elementPath,
+  replaceAttributeValueEdit,
+  sparkleAttribute,
+} from "./rules/utils.js";
+
+/** Options for verifyDownloads() */
+export interface DownloadVerificationOptions extends Omit<
+  RemoteValidationOptions,
+  "skipEnclosures"
+> {
+  /**
+   * The app's base64 Ed25519 public key (SUPublicEDKey); when given, each
+   * download's sparkle:edSignature is verified
+   */
+  publicKey?: string;
+}
+
+/** Result of downloading a single enclosure */
+interface DownloadResult {
+  status: number | null;
+  error: string | null;
+  skipped?: boolean;
+  /** Bytes received */
+  bytes?: number;
+  /** Hex SHA-256 of the bytes received */
+  sha256?: string;
+  /** Whether sparkle:edSignature verified, if there was one to verify */
+  signatureValid?: boolean;
+}
+
+/**
+ * Build an async rule that downloads every enclosure and delta, streaming
+ * each archive through SHA-256 (and Ed25519 verification with a public
+ * key) without holding it in memory. Reports downloads that fail (E027),
+ * a byte count different from the declared length (E028), signatures that
+ * don't verify (E041) or do (I013), and each archive's size and SHA-256
+ * (I014). Throws if the public key is invalid.
+ */
+export function verifyDownloads(
+  options: DownloadVerificationOptions = {}
+): AsyncValidationRule {
+  const publicKey =
+    options.publicKey !== undefined
+      ? rawEd25519PublicKey(options.publicKey)
+      : undefined;
+
+  return async (doc, diagnostics) => {
+    const limit = createRequestLimiter(options);
+    const results = await Promise.all(
+      appcastEnclosures(doc).map(async (element) => {
+        const url = element.attributes.url?.value;
+        if (!url) return [];
+        const signature = sparkleAttribute(element, "edSignature")?.value;
+        const verifier =
+          publicKey && signature !== undefined
+            ? createEd25519Verify(
+                publicKey,
+                Buffer.from(signature.replace(/\s/g, ""), "base64")
+              )
+            : undefined;
+        const result = await limit(url, () => download(url, options, verifier));
+        return downloadDiagnostics(element, url, result);
+      })
+    );
+    diagnostics.push(...results.flat());
+  };
+}
+
+/**
+ * Download a URL a chunk at a time, counting and hashing the bytes. The
+ * download is abandoned if nothing arrives for `timeout` milliseconds.
+ */
+async function download(
+  url: string,
+  options: DownloadVerificationOptions,
+  verifier: Ed25519Verify | undefined
+): Promise<DownloadResult> {
+  if (!options.allowPrivateHosts && isLocalOrPrivateUrl(url)) {
+    return { status: null, error: null, skipped: true };
+  }
+
+  const timeout = options.timeout ?? 10000;
+  const userAgent = options.userAgent ?? "sparkle-validator/1.1";
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": userAgent },
+      signal: controller.signal,
+      redirect: "follow",
+    });
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      return { status: response.status, error: null };
+    }
+
+    const hash = createHash("sha256");
+    let bytes = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), timeout);
+      bytes += value.length;
+      hash.update(value);
+      verifier?.update(value);
+    }
+
+    return {
+      status: response.status,
+      error: null,
+      bytes,
+      sha256: hash.digest("hex"),
+      signatureValid: verifier?.verify(),
+    };
+  } catch (err) {
+    return { status: null, error: getFetchErrorMessage(err, url) };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function downloadDiagnostics(
+  element: XmlElement,
+  url: string,
+  result: DownloadResult
+): Diagnostic[] {
+  const path = elementPath(element);
+  const urlLocation = attributeLocation(element, element.attributes.url);
+
+  // W023: URL skipped (local/private)
+  if (result.skipped) {
+    return [
+      {
+        id: "W023",
+        severity: "warning",
+        message: `Skipped download: Local/private URL (${url})`,
+        ...urlLocation,
+        path,
+        fix: `Use a publicly accessible URL for production appcasts`,
+        data: { url, reason: "Local/private URL" },
+      },
+    ];
+  }
+
+  // E027: Download failed or returned non-2xx status
+  if (result.error) {
+    return [
+      {
+        id: "E027",
+        severity: "error",
+        message: `Failed to download URL: ${result.error}`,
+        ...urlLocation,
+        path,
+        fix: `Verify the URL is accessible: ${url}`,
+        data: { url, reason: result.error },
+      },
+    ];
+  }
+  if (result.bytes === undefined || result.sha256 === undefined) {
+    return [
+      {
+        id: "E027",
+        severity: "error",
+        message: `URL returned HTTP ${result.status}: ${url}`,
+        ...urlLocation,
+        path,
+        fix: `Ensure the URL returns a successful status code`,
+        data: { url, ...(result.status !== null && { status: result.status }) },
+      },
+    ];
+  }
+
+  const { bytes, sha256 } = result;
+  const diagnostics: Diagnostic[] = [];
+
+  // E028: Downloaded size doesn't match declared length
+  const lengthAttr = element.attributes.length;
+  const declared = Number(lengthAttr?.value);
+  if (lengthAttr && Number.isInteger(declared) && declared !== bytes) {
+    const edit = replaceAttributeValueEdit(lengthAttr, String(bytes));
+    diagnostics.push({
+      id: "E028",
+      severity: "error",
+      message: `Downloaded ${bytes} bytes, but length declares ${declared} bytes`,
+      ...attributeLocation(element, lengthAttr),
+      path,
+      fix: `Update the length attribute to ${bytes}, or upload the archive again if the download was cut short`,
+      data: { url, declaredLength: declared, actualLength: bytes },
+      ...(edit && { edits: [edit] }),
+    });
+  }
+
+  // E041/I013: EdDSA signature of the download
+  if (result.signatureValid !== undefined) {
+    const where = attributeLocation(
+      element,
+      sparkleAttribute(element, "edSignature")
+    );
+    diagnostics.push(
+      result.signatureValid
+        ? {
+            id: "I013",
+            severity: "info",
+            message: `EdDSA signature verified against the download of ${url}`,
+            ...where,
+            path,
+            data: { url },
+          }
+        : {
+            id: "E041",
+            severity: "error",
+            message: `EdDSA signature does not match the download of ${url}`,
+            ...where,
+            path,
+            fix: "Check that the server has the archive that was signed; upload it again or sign the served archive and update sparkle:edSignature",
+            data: { url },
+          }
+    );
+  }
+
+  // I014: What was downloaded
+  diagnostics.push({
+    id: "I014",
+    severity: "info",
+    message: `Downloaded ${bytes} bytes with SHA-256 ${sha256}`,
+    ...urlLocation,
+    path,
+    data: { url, actualLength: bytes, sha256 },
+  });
+
+  return diagnostics;
+}
@@ -0,0 +1,126 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Ed25519 verification of data that arrives in chunks. node:crypto only
+ * verifies Ed25519 signatures of a complete buffer, so verifying a
+ * download would mean holding the whole archive in memory. The signed
+ * data only enters verification through a SHA-512 hash, so hash it as it
+ * streams in and check the signature equation (RFC 8032, 5.1.7) at the end.
+ */
+
+/** Field prime 2^255 - 19 */
+const P = 2n ** 255n - 19n;
+/** Order of the base point */
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+function mod(a: bigint, m = P): bigint {
+  const r = a % m;
+  return r < 0n ? r + m : r;
+}
+
+function pow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = mod(result * b);
+    b = mod(b * b);
+  }
+  return result;
+}
+
+const inverse = (a: bigint) => pow(a, P - 2n);
+const D = mod(-121665n * inverse(121666n));
+/** A square root of -1 */
+const SQRT_M1 = pow(2n, (P - 1n) / 4n);
+
+/** Point in extended coordinates: x = X/Z, y = Y/Z, xy = T/Z */
+type Point = readonly [x: bigint, y: bigint, z: bigint, t: bigint];
+
+const IDENTITY: Point = [0n, 1n, 1n, 0n];
+const BASE: Point = (() => {
+  const x =
+    15112221349535400772501151409588531511454012693041857206046113283949847762202n;
+  const y =
+    46316835694926478169428394003475163141307993866256225615783033603165251855960n;
+  return [x, y, 1n, mod(x * y)];
+})();
+
+function add([x1, y1, z1, t1]: Point, [x2, y2, z2, t2]: Point): Point {
+  const a = mod((y1 - x1) * (y2 - x2));
+  const b = mod((y1 + x1) * (y2 + x2));
+  const c = mod(2n * D * t1 * t2);
+  const d = mod(2n * z1 * z2);
+  const [e, f, g, h] = [b - a, d - c, d + c, b + a];
+  return [mod(e * f), mod(g * h), mod(f * g), mod(e * h)];
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+  let result = IDENTITY;
+  let addend = point;
+  for (let s = scalar; s > 0n; s >>= 1n) {
+    if (s & 1n) result = add(result, addend);
+    addend = add(addend, addend);
+  }
+  return result;
+}
+
+function equal([x1, y1, z1]: Point, [x2, y2, z2]: Point): boolean {
+  return mod(x1 * z2 - x2 * z1) === 0n && mod(y1 * z2 - y2 * z1) === 0n;
+}
+
+function littleEndian(bytes: Uint8Array): bigint {
+  let n = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) n = (n << 8n) | BigInt(bytes[i]);
+  return n;
+}
+
+/** Decode a 32-byte point; undefined if it isn't on the curve */
+function decodePoint(bytes: Uint8Array): Point | undefined {
+  const n = littleEndian(bytes);
+  const y = n & ((1n << 255n) - 1n);
+  const sign = n >> 255n;
+  if (y >= P) return undefined;
+
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - 1n) * inverse(D * y2 + 1n));
+  if (x2 === 0n) return sign ? undefined : [0n, y, 1n, 0n];
+  let x = pow(x2, (P + 3n) / 8n);
+  if (mod(x * x - x2) !== 0n) x = mod(x * SQRT_M1);
+  if (mod(x * x - x2) !== 0n) return undefined;
+  if ((x & 1n) !== sign) x = P - x;
+  return [x, y, 1n, mod(x * y)];
+}
+
+/** Incremental verification of one Ed25519 signature */
+export interface Ed25519Verify {
+  /** Add the next chunk of the signed data */
+  update(chunk: Uint8Array): void;
+  /** Whether the signature is valid for all the data added */
+  verify(): boolean;
+}
+
+/**
+ * Start verifying a signature (64 bytes) by a raw public key (32 bytes)
+ * over data added in chunks. Matches crypto.verify() for Ed25519.
+ */
+export function createEd25519Verify(
+  publicKey: Uint8Array,
+  signature: Uint8Array
+): Ed25519Verify {
+  const hash = createHash("sha512");
+  hash.update(signature.subarray(0, 32)).update(publicKey);
+  return {
+    update(chunk) {
+      hash.update(chunk);
+    },
+    verify() {
+      if (publicKey.length !== 32 || signature.length !== 64) return false;
+      const r = decodePoint(signature.subarray(0, 32));
+      const a = decodePoint(publicKey);
+      const s = littleEndian(signature.subarray(32));
+      if (!r || !a || s >= L) return false;
+      const k = mod(littleEndian(hash.digest()), L);
+      return equal(multiply(BASE, s), add(r, multiply(a, k)));
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import { createLocator } from "./parser.js";
+import type { Diagnostic, SourceRange } from "./types.js";
+
+export interface DecodeResult {
+  /** The decoded document, without its byte order mark */
+  xml: string;
+  /** Encoding the bytes were decoded with, e.g. "utf-8" or "utf-16le" */
+  encoding: string;
+  /** Whether the bytes start with a byte order mark */
+  bom: boolean;
+  /** E033 for encoding mismatches, E034 for invalid UTF-8 */
+  diagnostics: Diagnostic[];
+}
+
+/** `encoding="..."` in an XML declaration at the very start */
+const DECLARED_ENCODING_RE =
+  /^<\?xml\s[^>]*?\bencoding\s*=\s*(?:"([^"]*)"|'([^']*)')/;
+
+/** Bytes sniffed for the XML declaration */
+const DECLARATION_SNIFF_LENGTH = 256;
+
+/**
+ * Decode an appcast from bytes the way an XML parser would: a byte order
+ * mark wins, then UTF-16 recognised from the `<?` of the declaration, then
+ * the declared encoding, then UTF-8.
+ *
+ * Reports E033 when the declared encoding contradicts the bytes and E034 for
+ * each invalid UTF-8 sequence, with its byte offset.
+ */
+export function decodeXml(bytes: Uint8Array): DecodeResult {
+  const detected = detectEncoding(bytes);
+  const start = detected?.bomLength ?? 0;
+  const declared = readDeclaredEncoding(
+    bytes.subarray(start),
+    detected?.encoding
+  );
+  const declaredEncoding = declared && canonicalEncoding(declared);
+
+  let encoding = detected?.encoding ?? "utf-8";
+  let mismatch: string | undefined;
+  if (detected) {
+    // The BOM or byte pattern is authoritative; the declaration must agree
+    if (declaredEncoding && family(declaredEncoding) !== family(encoding)) {
+      mismatch = detected.bom
+        ? `a ${displayName(encoding)} byte order mark`
+        : `${displayName(encoding)} bytes`;
+    }
+  } else if (declaredEncoding && family(declaredEncoding) === "utf-16") {
+    // The declaration could only be read because the bytes are 8-bit
+    mismatch = "8-bit bytes";
+  } else if (declaredEncoding) {
+    encoding = declaredEncoding;
+    if (encoding !== "utf-8" && isMultiByteUtf8(bytes)) {
+      mismatch = "UTF-8 bytes";
+    }
+  }
+
+  // The BOM is already skipped; another one would be a stray U+FEFF
+  const xml = new TextDecoder(encoding, { ignoreBOM: true }).decode(
+    bytes.subarray(start)
+  );
+  const locate = createLocator(xml);
+  const diagnostics: Diagnostic[] = [];
+
+  if (mismatch && declared) {
+    const actual = displayName(detected?.encoding ?? "utf-8");
+    const match = DECLARED_ENCODING_RE.exec(xml);
+    const valueStart = match
+      ? match.index + match[0].length - 1 - declared.length
+      : 0;
+    const range: SourceRange = {
+      start: locate(valueStart),
+      end: locate(valueStart + declared.length),
+    };
+    diagnostics.push({
+      id: "E033",
+      severity: "error",
+      message: `XML declaration says encoding="${declared}", but the document has ${mismatch}`,
+      line: range.start.line,
+      column: range.start.column,
+      range,
+      fix: `Declare encoding="${actual}", or save the file in ${declared}`,
+      data: { value: declared, expected: actual },
+    });
+  }
+
+  if (encoding === "utf-8") {
+    for (const invalid of invalidUtf8Sequences(bytes, start)) {
+      const range: SourceRange = {
+        start: locate(invalid.charOffset),
+        end: locate(invalid.charOffset + 1),
+      };
+      const hex = Array.from(bytes.subarray(invalid.start, invalid.end), (b) =>
+        b.toString(16).toUpperCase().padStart(2, "0")
+      ).join(" ");
+      diagnostics.push({
+        id: "E034",
+        severity: "error",
+        message: `Invalid UTF-8 byte sequence ${hex} at byte offset ${invalid.start}`,
+        line: range.start.line,
+        column: range.start.column,
+        range,
+        fix: `Save the file as ${declared ?? "UTF-8"}, or declare the encoding it is actually in (e.g. encoding="ISO-8859-1")`,
+        data: { value: hex, byteOffset: invalid.start },
+      });
+    }
+  }
+
+  return { xml, encoding, bom: detected?.bom ?? false, diagnostics };
+}
+
+/**
+ * Encoding given away by a byte order mark, or by the UTF-16 encoding of
+ * `<?` at the start of the document.
+ */
+function detectEncoding(
+  bytes: Uint8Array
+): { encoding: string; bom: boolean; bomLength: number } | undefined {
+  const [b0, b1, b2, b3] = bytes;
+  if (b0 === 0xef && b1 === 0xbb && b2 === 0xbf) {
+    return { encoding: "utf-8", bom: true, bomLength: 3 };
+  }
+  if (b0 === 0xff && b1 === 0xfe) {
+    return { encoding: "utf-16le", bom: true, bomLength: 2 };
+  }
+  if (b0 === 0xfe && b1 === 0xff) {
+    return { encoding: "utf-16be", bom: true, bomLength: 2 };
+  }
+  if (b0 === 0x3c && b1 === 0x00 && b2 === 0x3f && b3 === 0x00) {
+    return { encoding: "utf-16le", bom: false, bomLength: 0 };
+  }
+  if (b0 === 0x00 && b1 === 0x3c && b2 === 0x00 && b3 === 0x3f) {
+    return { encoding: "utf-16be", bom: false, bomLength: 0 };
+  }
+  return undefined;
+}
+
+/**
+ * The encoding named in the XML declaration, as written. The declaration is
+ * ASCII, so it can be read before the real encoding is known. `bytes` starts
+ * after any byte order mark.
+ */
+function readDeclaredEncoding(
+  bytes: Uint8Array,
+  detected: string | undefined
+): string | undefined {
+  const head = bytes.subarray(0, DECLARATION_SNIFF_LENGTH);
+  const text = new TextDecoder(
+    detected && family(detected) === "utf-16" ? detected : "latin1"
+  ).decode(head);
+  const match = DECLARED_ENCODING_RE.exec(text);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/** The WHATWG name for an encoding label, or undefined if it is unknown */
+function canonicalEncoding(label: string): string | undefined {
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+function family(encoding: string): string {
+  return encoding.startsWith("utf-16") ? "utf-16" : encoding;
+}
+
+function displayName(encoding: string): string {
+  return family(encoding).toUpperCase();
+}
+
+/** Whether the bytes are valid UTF-8 and contain non-ASCII characters */
+function isMultiByteUtf8(bytes: Uint8Array): boolean {
+  return (
+    bytes.some((b) => b > 0x7f) &&
+    invalidUtf8Sequences(bytes, 0).next().done === true
+  );
+}
+
+/** An invalid UTF-8 sequence and where its U+FFFD lands in the text */
+interface InvalidSequence {
+  /** Byte offset of the first byte */
+  start: number;
+  /** Byte offset just past the last byte */
+  end: number;
+  /** Offset of the replacement character in the decoded string */
+  charOffset: number;
+}
+
+/**
+ * Find invalid UTF-8 sequences, following the WHATWG UTF-8 decoder so each
+ * one matches a U+FFFD in TextDecoder's output.
+ */
+function* invalidUtf8Sequences(
+  bytes: Uint8Array,
+  from: number
+): Generator<InvalidSequence> {
+  // UTF-16 code units decoded so far
+  let charOffset = 0;
+  let needed = 0;
+  let seen = 0;
+  let sequenceStart = 0;
+  let lower = 0x80;
+  let upper = 0xbf;
+
+  for (let i = from; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (needed === 0) {
+      sequenceStart = i;
+      if (byte <= 0x7f) {
+        charOffset++;
+      } else if (byte >= 0xc2 && byte <= 0xdf) {
+        needed = 1;
+      } else if (byte >= 0xe0 && byte <= 0xef) {
+        if (byte === 0xe0) lower = 0xa0;
+        if (byte === 0xed) upper = 0x9f;
+        needed = 2;
+      } else if (byte >= 0xf0 && byte <= 0xf4) {
+        if (byte === 0xf0) lower = 0x90;
+        if (byte === 0xf4) upper = 0x8f;
+        needed = 3;
+      } else {
+        yield { start: i, end: i + 1, charOffset: charOffset++ };
+      }
+      continue;
+    }
+
+    if (byte < lower || byte > upper) {
+      // The sequence so far is replaced, and this byte starts over
+      yield { start: sequenceStart, end: i, charOffset: charOffset++ };
+      needed = seen = 0;
+      lower = 0x80;
+      upper = 0xbf;
+      i--;
+      continue;
+    }
+
+    lower = 0x80;
+    upper = 0xbf;
+    if (++seen === needed) {
+      // Four-byte sequences decode to a surrogate pair
+      charOffset += needed === 3 ? 2 : 1;
+      needed = seen = 0;
+    }
+  }
+
+  if (needed !== 0) {
+    yield { start: sequenceStart, end: bytes.length, charOffset };
+  }
+}
@@ -0,0 +1,73 @@
+import type { Diagnostic, TextEdit } from "./types.js";
+
+/** Result of applyFixes() */
+export interface FixResult {
+  /** The XML with all applied edits */
+  output: string;
+  /** Diagnostics whose edits were applied */
+  applied: Diagnostic[];
+  /** Diagnostics whose edits conflicted with an earlier fix and were skipped */
+  skipped: Diagnostic[];
+}
+
+/**
+ * Apply the machine-applicable edits carried by diagnostics to the XML they
+ * were produced from.
+ *
+ * Each diagnostic's edits are applied all together or not at all. Fixes are
+ * taken in order; one that overlaps an earlier fix is skipped, so running
+ * validate() and applyFixes() again picks it up on the next pass.
+ *
+ * @param xml - The XML string the diagnostics were produced from
+ * @param diagnostics - Diagnostics from validate(); those without edits are ignored
+ */
+export function applyFixes(xml: string, diagnostics: Diagnostic[]): FixResult {
+  const accepted: TextEdit[] = [];
+  const applied: Diagnostic[] = [];
+  const skipped: Diagnostic[] = [];
+
+  for (const diag of diagnostics) {
+    if (!diag.edits || diag.edits.length === 0) continue;
+
+    const edits = diag.edits;
+    const usable =
+      edits.every(
+        (e) => e.start >= 0 && e.start <= e.end && e.end <= xml.length
+      ) &&
+      edits.every((e, i) =>
+        [...accepted, ...edits.slice(0, i)].every(
+          (other) => !overlaps(e, other)
+        )
+      );
+
+    if (usable) {
+      accepted.push(...edits);
+      applied.push(diag);
+    } else {
+      skipped.push(diag);
+    }
+  }
+
+  return { output: applyEdits(xml, accepted), applied, skipped };
+}
+
+/**
+ * Apply edits that don't overlap to the text they were computed from.
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  // Apply from the end so earlier offsets stay valid
+  let output = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+  }
+  return output;
+}
+
+/**
+ * Whether two edits touch the same text. Two insertions at the same offset
+ * also conflict, since their order would be ambiguous.
+ */
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  if (a.start === b.start) return true;
+  return a.start < b.end && b.start < a.end;
+}
@@ -1,16 +1,93 @@
-export { validate } from "./validator.js";
+export { validate, validateAsync } from "./validator.js";
+export type { ValidateAsyncOptions } from "./validator.js";
 export { validateRemote } from "./remote.js";
 export type { RemoteValidationOptions } from "./remote.js";
+export { verifyDownloads } from "./downloads.js";
+export type { DownloadVerificationOptions } from "./downloads.js";
+export { createEd25519Verify } from "./ed25519.js";
+export type { Ed25519Verify } from "./ed25519.js";
+export {
+  verifySignatures,
+  ed25519PublicKey,
+  verifyEd25519,
+  rawEd25519PublicKey,
+  dsaPublicKey,
+  verifyDsa,
+  artifactPath,
+} from "./signatures.js";
+export type { SignatureVerificationOptions } from "./signatures.js";
+export {
+  ed25519PrivateKey,
+  generateEd25519PrivateKey,
+  signArchive,
+  formatArchiveSignature,
+  updateEnclosureSignatures,
+} from "./signing.js";
 export type {
+  Ed25519SigningKey,
+  ArchiveSignature,
+  SignatureUpdate,
+} from "./signing.js";
+export { applyFixes, applyEdits } from "./fixes.js";
+export type { FixResult } from "./fixes.js";
+export { createBaseline, applyBaseline, checkBaseline } from "./baseline.js";
+export type { BaselineResult } from "./baseline.js";
+export { compareVersions, versionKey } from "./versions.js";
+export { parseAppcast } from "./appcast.js";
+export type {
+  Appcast,
+  AppcastItem,
+  DeltaEnclosure,
+  Enclosure,
+  VersionSource,
+} from "./appcast.js";
+export { defineRule } from "./rules/define.js";
+export type {
+  RuleDefinition,
+  RuleDefinitionMeta,
+  RuleVisitor,
+  ValidationRule,
+} from "./rules/define.js";
+export type {
+  AppcastIndex,
+  IndexedItem,
+  ReportDescriptor,
+  RuleContext,
+} from "./rules/context.js";
+export { ruleCatalog, getRuleMeta, RULE_DOCS_URL } from "./catalog.js";
+export { definePlugin } from "./plugins.js";
+export type { Plugin, PluginPreset, PluginRuleMeta } from "./plugins.js";
+export type {
+  AsyncValidationRule,
+  Baseline,
+  BaselineEntry,
+  BaselineItem,
+  BaselineSummary,
   Diagnostic,
+  DiagnosticData,
   Severity,
+  RelatedLocation,
+  RuleCategory,
+  RuleMeta,
+  RuleSetting,
+  SourcePosition,
+  SourceRange,
+  SparkleVersionRange,
+  TextEdit,
+  ValidateOptions,
   ValidationResult,
-  ValidationRule,
   XmlDocument,
   XmlElement,
   XmlAttribute,
   XmlText,
+  XmlComment,
+  XmlProcessingInstruction,
+  XmlDoctype,
+  XmlEntityDeclaration,
   XmlNode,
 } from "./types.js";
 export { SPARKLE_NS } from "./constants.js";
-export { parseXml } from "./parser.js";
+export { parseXml, DEFAULT_PARSE_LIMITS } from "./parser.js";
+export { decodeXml } from "./encoding.js";
+export type { DecodeResult } from "./encoding.js";
+export type { ParseLimits, ParseOptions, ParseResult } from "./parser.js";
@@ -4,34 +4,176 @@ import type {
   XmlElement,
   XmlText,
   XmlAttribute,
+  XmlComment,
+  XmlDoctype,
+  XmlEntityDeclaration,
+  XmlNode,
   Diagnostic,
+  SourcePosition,
+  SourceRange,
 } from "./types.js";
 
+/** `name="value"` or `name='value'` inside an open tag */
+const ATTRIBUTE_RE = /([^\s=/<>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Quoted literal in a DTD */
+const LITERAL = `"[^"]*"|'[^']*'`;
+/** `<!DOCTYPE` name and external ID */
+const DOCTYPE_HEADER_RE = new RegExp(
+  `^\\s*([^\\s[>]+)(?:\\s+(?:SYSTEM\\s+(${LITERAL})|PUBLIC\\s+(${LITERAL})\\s+(${LITERAL})))?`
+);
+/**
+ * Markup in a DOCTYPE: comments, processing instructions, `<!ENTITY>` and
+ * other declarations, and literals, so `<!ENTITY` inside any of the others
+ * is not mistaken for a declaration
+ */
+const DTD_MARKUP_RE = new RegExp(
+  `<!--[\\s\\S]*?-->|<\\?[\\s\\S]*?\\?>|<!ENTITY\\s+(%\\s+)?([^\\s>]+)\\s+((?:${LITERAL}|[^>"'])*)>|<!(?:${LITERAL}|[^>"'])*>|${LITERAL}`,
+  "g"
+);
+/** Definition of an entity: its value or external ID */
+const ENTITY_DEFINITION_RE = new RegExp(
+  `^(?:(${LITERAL})|SYSTEM\\s+(${LITERAL})|PUBLIC\\s+(${LITERAL})\\s+(${LITERAL}))`
+);
+
+/**
+ * Limits that stop the parse of a hostile or runaway document. Each has its
+ * own diagnostic; the parse stops at the first one reached.
+ */
+export interface ParseLimits {
+  /** Size of the document in UTF-8 bytes; only this much is parsed (E035) */
+  maxBytes: number;
+  /** Depth of nested elements, counting the root as 1 (E036) */
+  maxDepth: number;
+  /** Child elements of a single element, e.g. items in the channel (E037) */
+  maxChildren: number;
+  /** Nodes in the tree: elements, text, comments and the like (E038) */
+  maxNodes: number;
+  /** Well-formedness errors (E001) reported before giving up (E039) */
+  maxErrors: number;
+}
+
+/** Limits well above any real appcast */
+export const DEFAULT_PARSE_LIMITS: Readonly<ParseLimits> = {
+  maxBytes: 16 * 1024 * 1024,
+  maxDepth: 64,
+  maxChildren: 10_000,
+  maxNodes: 250_000,
+  maxErrors: 100,
+};
+
+/** Characters written to the parser at a time, so a limit stops it early */
+const CHUNK_SIZE = 64 * 1024;
+
+export interface ParseOptions {
+  /**
+   * Keep whitespace-only text (indentation between elements) as text nodes.
+   * Off by default, since rules only care about meaningful text.
+   */
+  preserveWhitespace?: boolean;
+  /** Override some of DEFAULT_PARSE_LIMITS */
+  limits?: Partial<ParseLimits>;
+}
+
 export interface ParseResult {
   document: XmlDocument;
-  /** Parse-level diagnostics (E001 for malformed XML) */
+  /** Parse-level diagnostics (E001 for malformed XML, E035-E039 for limits) */
   diagnostics: Diagnostic[];
+  /** Whether a limit stopped the parse, leaving the document partial */
+  truncated: boolean;
 }
 
 /**
  * Parse an XML string into an XmlDocument tree using saxes in namespace-aware
- * strict mode, tracking line/column positions for every node.
+ * strict mode, tracking the source range of every node. Comments, processing
+ * instructions and the DOCTYPE are kept in the tree alongside elements.
+ *
+ * When a limit is reached the parse stops with that limit's diagnostic and
+ * returns what was parsed so far, with `truncated` set.
  */
-export function parseXml(xml: string): ParseResult {
+export function parseXml(xml: string, options: ParseOptions = {}): ParseResult {
+  const limits = { ...DEFAULT_PARSE_LIMITS, ...options.limits };
+  const locate = createLocator(xml);
+  const range = (start: number, end: number): SourceRange => ({
+    start: locate(start),
+    end: locate(end),
+  });
+  // End of the last tag, comment, CDATA section or PI; text starts here
+  let markupEnd = 0;
   const diagnostics: Diagnostic[] = [];
   const namespaces: Record<string, string> = {};
+  const comments: XmlComment[] = [];
+  const children: XmlNode[] = [];
   let root: XmlElement | undefined;
+  let doctype: XmlDoctype | undefined;
   const stack: XmlElement[] = [];
+  // Child elements of each element on the stack, for maxChildren
+  const childCounts: number[] = [];
+  let nodeCount = 0;
+  let errorCount = 0;
+  // Set when a limit is reached; events after it are ignored
+  let truncated = false;
+
+  /** Stop parsing with a limit's diagnostic */
+  const stop = (
+    id: string,
+    message: string,
+    limit: number,
+    where: SourceRange
+  ) => {
+    truncated = true;
+    diagnostics.push({
+      id,
+      severity: "error",
+      message,
+      line: where.start.line,
+      column: where.start.column,
+      range: where,
+      fix: "Check that this is the right document; a real appcast stays well within the parser's limits",
+      data: { limit },
+    });
+  };
+
+  /**
+   * Add a node to the current element, or to the document outside the root.
+   * Returns false, adding nothing, if it would be one node too many.
+   */
+  const append = (node: XmlNode): boolean => {
+    if (++nodeCount > limits.maxNodes) {
+      stop(
+        "E038",
+        `Document has more than ${limits.maxNodes} nodes; parsing stopped`,
+        limits.maxNodes,
+        node.range
+      );
+      return false;
+    }
+    if (stack.length > 0) stack[stack.length - 1].children.push(node);
+    else children.push(node);
+    return true;
+  };
 
   const parser = new SaxesParser({ xmlns: true, position: true });
 
   parser.on("error", (err) => {
+    if (truncated) return;
+    if (++errorCount > limits.maxErrors) {
+      const position = locate(parser.position);
+      stop(
+        "E039",
+        `More than ${limits.maxErrors} XML errors; parsing stopped`,
+        limits.maxErrors,
+        { start: position, end: position }
+      );
+      return;
+    }
     diagnostics.push({
       id: "E001",
       severity: "error",
       message: `Not well-formed XML: ${err.message}`,
       line: parser.line,
       column: parser.column,
+      data: { reason: err.message },
     });
     // Resume parsing to collect as many diagnostics as possible
     // @ts-expect-error -- resume to continue collecting errors
@@ -44,6 +186,38 @@ export function parseXml(xml: string): ParseResult {
   });
 
   parser.on("opentag", (node) => {
+    if (truncated) return;
+    // The parser sits just past the closing `>`; `<` cannot appear inside
+    // a tag, so the last one before here opens it
+    const tagEnd = parser.position;
+    const tagStart = xml.lastIndexOf("<", tagEnd - 1);
+    markupEnd = tagEnd;
+
+    const openTag = range(tagStart, tagEnd);
+    if (stack.length >= limits.maxDepth) {
+      stop(
+        "E036",
+        `Elements are nested more than ${limits.maxDepth} deep; parsing stopped at <${node.name}>`,
+        limits.maxDepth,
+        openTag
+      );
+      return;
+    }
+    if (
+      stack.length > 0 &&
+      ++childCounts[childCounts.length - 1] > limits.maxChildren
+    ) {
+      stop(
+        "E037",
+        `<${stack[stack.length - 1].qname}> has more than ${limits.maxChildren} child elements; parsing stopped`,
+        limits.maxChildren,
+        openTag
+      );
+      return;
+    }
+
+    const offsets = attributeOffsets(xml, tagStart, tagEnd);
+
     // Collect namespace declarations
     if (node.ns) {
       for (const [prefix, uri] of Object.entries(node.ns)) {
@@ -63,6 +237,11 @@ export function parseXml(xml: string): ParseResult {
         prefix: saxAttr.prefix,
         value: saxAttr.value,
       };
+      const found = offsets.get(qname);
+      if (found) {
+        attributes[qname].range = range(found.start, found.end);
+        attributes[qname].valueRange = range(found.valueStart, found.valueEnd);
+      }
     }
 
     const element: XmlElement = {
@@ -73,55 +252,276 @@ export function parseXml(xml: string): ParseResult {
       prefix: node.prefix,
       attributes,
       children: [],
-      line: parser.line,
-      column: parser.column,
+      line: openTag.start.line,
+      column: openTag.start.column,
+      // Extended to the end tag when it is reached
+      range: { start: openTag.start, end: openTag.end },
+      openTag,
       parent: stack.length > 0 ? stack[stack.length - 1] : undefined,
     };
 
-    if (stack.length > 0) {
-      stack[stack.length - 1].children.push(element);
-    } else {
-      root = element;
-    }
-
+    if (!append(element)) return;
+    if (stack.length === 0) root = element;
     stack.push(element);
+    childCounts.push(0);
   });
 
   parser.on("closetag", () => {
-    stack.pop();
+    if (truncated) return;
+    markupEnd = parser.position;
+    childCounts.pop();
+    const element = stack.pop();
+    if (element) element.range.end = locate(markupEnd);
   });
 
   parser.on("text", (text) => {
-    // Only capture non-whitespace-only text or text inside elements
-    if (stack.length > 0 && text.trim().length > 0) {
-      const textNode: XmlText = {
+    if (truncated) return;
+    // Raw text runs from the previous markup up to the next `<`
+    const rawEnd = xml.indexOf("<", markupEnd);
+    const raw = xml.slice(markupEnd, rawEnd === -1 ? xml.length : rawEnd);
+
+    if (text.trim().length === 0) {
+      // Whitespace-only: indentation, kept only on request
+      if (!options.preserveWhitespace) return;
+      const textRange = range(markupEnd, markupEnd + raw.length);
+      append({
         type: "text",
         text,
-        line: parser.line,
-        column: parser.column,
-      };
-      stack[stack.length - 1].children.push(textNode);
+        line: textRange.start.line,
+        column: textRange.start.column,
+        range: textRange,
+      });
+      return;
     }
+
+    // Text outside the root is a well-formedness error (E001)
+    if (stack.length === 0) return;
+    // The range leaves out the whitespace around the text
+    const start = markupEnd + (raw.length - raw.trimStart().length);
+    const textRange = range(start, markupEnd + raw.trimEnd().length);
+    const textNode: XmlText = {
+      type: "text",
+      text,
+      line: textRange.start.line,
+      column: textRange.start.column,
+      range: textRange,
+    };
+    append(textNode);
   });
 
   parser.on("cdata", (cdata) => {
+    if (truncated) return;
+    const start = xml.indexOf("<![CDATA[", markupEnd);
+    markupEnd = parser.position;
     if (stack.length > 0) {
+      const cdataRange = range(start, markupEnd);
       const textNode: XmlText = {
         type: "text",
         text: cdata,
-        line: parser.line,
-        column: parser.column,
+        cdata: true,
+        line: cdataRange.start.line,
+        column: cdataRange.start.column,
+        range: cdataRange,
       };
-      stack[stack.length - 1].children.push(textNode);
+      append(textNode);
     }
   });
 
-  // Write the XML string to the parser
-  parser.write(xml);
-  parser.close();
+  parser.on("comment", (text) => {
+    if (truncated) return;
+    // The event fires before the final `>` is consumed
+    const start = xml.lastIndexOf("<!--", parser.position);
+    markupEnd = xml.indexOf("-->", start + 4) + 3;
+    const commentRange = range(start, markupEnd);
+    const comment: XmlComment = {
+      type: "comment",
+      text,
+      line: commentRange.start.line,
+      column: commentRange.start.column,
+      range: commentRange,
+    };
+    if (append(comment)) comments.push(comment);
+  });
+
+  parser.on("processinginstruction", ({ target, body }) => {
+    if (truncated) return;
+    const start = xml.indexOf("<?", markupEnd);
+    markupEnd = parser.position;
+    const piRange = range(start, markupEnd);
+    append({
+      type: "processingInstruction",
+      target,
+      body,
+      line: piRange.start.line,
+      column: piRange.start.column,
+      range: piRange,
+    });
+  });
+
+  parser.on("xmldecl", () => {
+    markupEnd = parser.position;
+  });
+
+  parser.on("doctype", (text) => {
+    if (truncated) return;
+    const start = xml.indexOf("<!DOCTYPE", markupEnd);
+    markupEnd = parser.position;
+    const doctypeRange = range(start, markupEnd);
+    const node: XmlDoctype = {
+      type: "doctype",
+      text,
+      ...parseDoctype(text, start + "<!DOCTYPE".length, range),
+      line: doctypeRange.start.line,
+      column: doctypeRange.start.column,
+      range: doctypeRange,
+    };
+    if (!append(node)) return;
+    // Declared entities are only reported, never registered: expanding them
+    // would let a small document grow without bound, so references to them
+    // stay undefined (E001)
+    doctype = node;
+  });
+
+  // Write the XML to the parser a chunk at a time, up to maxBytes
+  const oversize = utf8Overflow(xml, limits.maxBytes);
+  const end = oversize?.cut ?? xml.length;
+  for (let offset = 0; offset < end && !truncated; offset += CHUNK_SIZE) {
+    parser.write(xml.slice(offset, Math.min(offset + CHUNK_SIZE, end)));
+  }
+  if (oversize && !truncated) {
+    stop(
+      "E035",
+      `Document is ${oversize.bytes} bytes, more than the limit of ${limits.maxBytes}; only the first ${limits.maxBytes} bytes were parsed`,
+      limits.maxBytes,
+      range(oversize.cut, xml.length)
+    );
+  }
+  // Closing a stopped parse would only report its open elements
+  if (!truncated) parser.close();
 
   return {
-    document: { root, namespaces },
+    document: { root, namespaces, comments, children, doctype },
     diagnostics,
+    truncated,
+  };
+}
+
+/**
+ * Read the root name, external ID and entity declarations from the text of
+ * a DOCTYPE, which starts at `offset` in the document.
+ */
+function parseDoctype(
+  text: string,
+  offset: number,
+  range: (start: number, end: number) => SourceRange
+): Pick<XmlDoctype, "name" | "publicId" | "systemId" | "entities"> {
+  const header = DOCTYPE_HEADER_RE.exec(text);
+  const entities: XmlEntityDeclaration[] = [];
+  for (const match of text.matchAll(DTD_MARKUP_RE)) {
+    if (match[2] === undefined) continue;
+    const definition = ENTITY_DEFINITION_RE.exec(match[3]);
+    const start = offset + match.index;
+    const entityRange = range(start, start + match[0].length);
+    entities.push({
+      name: match[2],
+      parameter: match[1] !== undefined,
+      value: unquote(definition?.[1]),
+      publicId: unquote(definition?.[3]),
+      systemId: unquote(definition?.[2] ?? definition?.[4]),
+      line: entityRange.start.line,
+      column: entityRange.start.column,
+      range: entityRange,
+    });
+  }
+  return {
+    name: header?.[1] ?? "",
+    publicId: unquote(header?.[3]),
+    systemId: unquote(header?.[2] ?? header?.[4]),
+    entities,
+  };
+}
+
+/** A literal's text without its quotes */
+function unquote(literal: string | undefined): string | undefined {
+  return literal?.slice(1, -1);
+}
+
+/**
+ * If a string is more than `maxBytes` of UTF-8, its size in bytes and the
+ * offset of the first character past the limit (never inside a surrogate
+ * pair); undefined if it fits.
+ */
+function utf8Overflow(
+  xml: string,
+  maxBytes: number
+): { bytes: number; cut: number } | undefined {
+  // Every UTF-16 code unit is at most 3 bytes of UTF-8
+  if (xml.length * 3 <= maxBytes) return undefined;
+  let bytes = 0;
+  let cut: number | undefined;
+  for (let i = 0; i < xml.length; i++) {
+    const code = xml.charCodeAt(i);
+    // A surrogate pair is 4 bytes, 2 for each half
+    bytes += code < 0x80 ? 1 : code < 0x800 || code >> 11 === 0x1b ? 2 : 3;
+    if (bytes > maxBytes && cut === undefined) {
+      // Don't leave the high half of a pair behind
+      cut = code >> 10 === 0x37 ? i - 1 : i;
+    }
+  }
+  return cut === undefined ? undefined : { bytes, cut };
+}
+
+/**
+ * Build a function that maps string offsets to line/column positions.
+ * Like the XML parser, treats `\r\n`, `\r` and `\n` as line breaks.
+ */
+export function createLocator(xml: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (const match of xml.matchAll(/\r\n?|\n/g)) {
+    lineStarts.push(match.index + match[0].length);
+  }
+
+  return (offset) => {
+    // Binary search for the last line starting at or before offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
   };
 }
+
+interface AttributeOffsets {
+  start: number;
+  end: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * Find the source offsets of each attribute in the open tag
+ * `xml.slice(tagStart, tagEnd)`, keyed by qualified name.
+ */
+function attributeOffsets(
+  xml: string,
+  tagStart: number,
+  tagEnd: number
+): Map<string, AttributeOffsets> {
+  const offsets = new Map<string, AttributeOffsets>();
+  const tag = xml.slice(tagStart, tagEnd);
+  for (const match of tag.matchAll(ATTRIBUTE_RE)) {
+    const start = tagStart + match.index;
+    const end = start + match[0].length;
+    const value = match[2] ?? match[3];
+    offsets.set(match[1], {
+      start,
+      end,
+      valueStart: end - 1 - value.length,
+      valueEnd: end - 1,
+    });
+  }
+  return offsets;
+}
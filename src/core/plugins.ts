@@ -0,0 +1,117 @@
+import { getRuleMeta } from "./catalog.js";
+import type { RuleLookup } from "./catalog.js";
+import type { RuleDefinition } from "./rules/define.js";
+import type { RuleMeta, RuleSetting } from "./types.js";
+
+/**
+ * Rules from outside the validator, e.g. a company's own policies. Their
+ * IDs are namespaced by the plugin name: plugin "acme" reports "acme/E001".
+ */
+export interface Plugin {
+  /** Namespace of the plugin's rule IDs; lowercase letters, digits and "-" */
+  name: string;
+  /** The plugin's rules, run after the built-in rules */
+  rules: RuleDefinition[];
+  /** Catalog entries for every ID the plugin's rules report */
+  catalog: PluginRuleMeta[];
+  /** Presets a config file can extend as "<plugin name>/<preset name>" */
+  presets?: Record<string, PluginPreset>;
+}
+
+/**
+ * Catalog entry for a plugin rule. The category defaults to "plugin" and
+ * the Sparkle range to every release.
+ */
+export type PluginRuleMeta = Omit<
+  RuleMeta,
+  "category" | "sparkle" | "docsUrl"
+> &
+  Partial<Pick<RuleMeta, "category" | "sparkle" | "docsUrl">>;
+
+/** A preset shipped by a plugin */
+export interface PluginPreset {
+  /** Presets or config files to build on, applied in order */
+  extends?: string | string[];
+  /** Per-rule settings, e.g. { "acme/W001": "error" } */
+  rules?: Record<string, RuleSetting>;
+  /** Sparkle release the app ships with, e.g. "2.6" */
+  sparkleVersion?: string;
+}
+
+const PLUGIN_NAME_RE = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Define a plugin. Its rules are written with defineRule() and report IDs
+ * in the plugin's namespace:
+ *
+ * ```ts
+ * export default definePlugin({
+ *   name: "acme",
+ *   rules: [cdnRule],
+ *   catalog: [
+ *     {
+ *       id: "acme/E001",
+ *       severity: "error",
+ *       title: "Download not on the Acme CDN",
+ *       description: "Enclosures must be served from cdn.acme.com.",
+ *     },
+ *   ],
+ *   presets: { strict: { rules: { "acme/W001": "error" } } },
+ * });
+ * ```
+ */
+export function definePlugin(plugin: Plugin): Plugin {
+  return plugin;
+}
+
+/**
+ * Catalog entries of the plugins' rules. Throws if two plugins share a
+ * name, an ID is outside its plugin's namespace, or a rule reports an ID
+ * its plugin has no catalog entry for.
+ */
+export function pluginCatalog(plugins: readonly Plugin[]): RuleMeta[] {
+  const names = new Set<string>();
+  const entries: RuleMeta[] = [];
+  for (const plugin of plugins) {
+    const { name } = plugin;
+    if (!PLUGIN_NAME_RE.test(name)) {
+      throw new Error(
+        `Invalid plugin name "${name}"; use lowercase letters, digits and "-"`
+      );
+    }
+    if (names.has(name)) {
+      throw new Error(`Plugin "${name}" is loaded more than once`);
+    }
+    names.add(name);
+
+    const ids = new Set<string>();
+    for (const meta of plugin.catalog) {
+      if (!meta.id.startsWith(`${name}/`) || meta.id === `${name}/`) {
+        throw new Error(
+          `Plugin "${name}" has rule ID "${meta.id}"; its IDs must start with "${name}/"`
+        );
+      }
+      ids.add(meta.id);
+      entries.push({ category: "plugin", sparkle: {}, ...meta });
+    }
+
+    for (const rule of plugin.rules) {
+      const missing = rule.meta.ids.find((id) => !ids.has(id));
+      if (missing) {
+        throw new Error(
+          `Rule "${rule.meta.name}" of plugin "${name}" reports ${missing}, which is not in the plugin's catalog`
+        );
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Look up rules in the built-in catalog and the plugins' catalogs.
+ */
+export function pluginRuleLookup(plugins: readonly Plugin[]): RuleLookup {
+  if (plugins.length === 0) return getRuleMeta;
+  const byId = new Map(pluginCatalog(plugins).map((meta) => [meta.id, meta]));
+  return (id) => getRuleMeta(id) ?? byId.get(id);
+}
@@ -1,5 +1,9 @@
 import type { Diagnostic, XmlDocument, XmlElement } from "./types.js";
-import { sparkleAttr } from "./rules/utils.js";
+import {
+  replaceAttributeValueEdit,
+  sparkleAttr,
+  attributeLocation,
+} from "./rules/utils.js";
 import { isSparkleNamespace } from "./constants.js";
 
 /**
@@ -38,6 +42,15 @@ export interface RemoteValidationOptions {
   timeout?: number;
   /** Maximum concurrent requests (default: 5) */
   concurrency?: number;
+  /** Maximum concurrent requests to a single host (default: concurrency) */
+  perHost?: number;
+  /**
+   * Check local and private URLs, e.g. a staging server, instead of
+   * skipping them (W023)
+   */
+  allowPrivateHosts?: boolean;
+  /** Leave enclosures out, e.g. when verifyDownloads() checks them */
+  skipEnclosures?: boolean;
   /** User-Agent header to send (default: "sparkle-validator/1.0") */
   userAgent?: string;
 }
@@ -59,7 +72,8 @@ interface UrlCheckResult {
  * Extract all enclosure URLs from a parsed appcast document.
  */
 function extractEnclosures(
-  doc: XmlDocument
+  doc: XmlDocument,
+  skipEnclosures = false
 ): Array<{ url: string; length: number; element: XmlElement }> {
   const enclosures: Array<{
     url: string;
@@ -74,7 +88,7 @@ function extractEnclosures(
 
   const items = getChildElements(channel, "item");
 
-  for (const item of items) {
+  for (const item of skipEnclosures ? [] : items) {
     // Main enclosure
     const enclosure = getChildElement(item, "enclosure");
     if (enclosure) {
@@ -145,7 +159,7 @@ function extractEnclosures(
 /**
  * Check if a URL points to a local/private address.
  */
-function isLocalOrPrivateUrl(url: string): boolean {
+export function isLocalOrPrivateUrl(url: string): boolean {
   try {
     const parsed = new URL(url);
     const hostname = parsed.hostname.toLowerCase();
@@ -188,7 +202,7 @@ function isLocalOrPrivateUrl(url: string): boolean {
 /**
  * Extract a helpful error message from a fetch error.
  */
-function getFetchErrorMessage(err: unknown, url: string): string {
+export function getFetchErrorMessage(err: unknown, url: string): string {
   if (!(err instanceof Error)) {
     return String(err);
   }
@@ -275,7 +289,7 @@ async function checkUrl(
   const userAgent = options.userAgent ?? "sparkle-validator/1.1";
 
   // Check for local/private URLs
-  if (isLocalOrPrivateUrl(url)) {
+  if (!options.allowPrivateHosts && isLocalOrPrivateUrl(url)) {
     return {
       url,
       status: null,
@@ -335,6 +349,59 @@ async function checkUrl(
   }
 }
 
+/**
+ * Build a function that runs requests with at most `concurrency` at a time
+ * and `perHost` to any one host, starting them in the order they are added.
+ */
+export function createRequestLimiter(
+  options: Pick<RemoteValidationOptions, "concurrency" | "perHost">
+): <T>(url: string, request: () => Promise<T>) => Promise<T> {
+  const concurrency = options.concurrency ?? 5;
+  const perHost = options.perHost ?? concurrency;
+  let active = 0;
+  const activeByHost = new Map<string, number>();
+  const queue: Array<{ host: string; start: () => void }> = [];
+
+  const startQueued = () => {
+    for (let i = 0; i < queue.length && active < concurrency; ) {
+      const { host, start } = queue[i];
+      const hostActive = activeByHost.get(host) ?? 0;
+      if (hostActive >= perHost) {
+        i++;
+        continue;
+      }
+      queue.splice(i, 1);
+      active++;
+      activeByHost.set(host, hostActive + 1);
+      start();
+    }
+  };
+
+  return (url, request) => {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = url;
+    }
+    return new Promise((resolve, reject) => {
+      queue.push({
+        host,
+        start: () => {
+          request()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              activeByHost.set(host, (activeByHost.get(host) ?? 1) - 1);
+              startQueued();
+            });
+        },
+      });
+      startQueued();
+    });
+  };
+}
+
 /**
  * Run remote validation checks on all URLs in the appcast.
  * Returns additional diagnostics for URL issues.
@@ -344,35 +411,29 @@ export async function validateRemote(
   options: RemoteValidationOptions = {}
 ): Promise<Diagnostic[]> {
   const diagnostics: Diagnostic[] = [];
-  const enclosures = extractEnclosures(doc);
+  const enclosures = extractEnclosures(doc, options.skipEnclosures);
 
   if (enclosures.length === 0) {
     return diagnostics;
   }
 
-  const concurrency = options.concurrency ?? 5;
-
-  // Process URLs in batches for concurrency control
-  const results: Array<{
-    enclosure: (typeof enclosures)[0];
-    result: UrlCheckResult;
-  }> = [];
-
-  for (let i = 0; i < enclosures.length; i += concurrency) {
-    const batch = enclosures.slice(i, i + concurrency);
-    const batchResults = await Promise.all(
-      batch.map(async (enc) => ({
-        enclosure: enc,
-        result: await checkUrl(enc.url, options),
-      }))
-    );
-    results.push(...batchResults);
-  }
+  const limit = createRequestLimiter(options);
+  const results = await Promise.all(
+    enclosures.map(async (enc) => ({
+      enclosure: enc,
+      result: await limit(enc.url, () => checkUrl(enc.url, options)),
+    }))
+  );
 
   // Generate diagnostics from results
   for (const { enclosure, result } of results) {
     const { element } = enclosure;
     const path = buildPath(element);
+    const urlLocation = attributeLocation(element, element.attributes.url);
+    const lengthLocation = attributeLocation(
+      element,
+      element.attributes.length
+    );
 
     // W023: URL skipped (local/private)
     if (result.skipped) {
@@ -380,10 +441,10 @@ export async function validateRemote(
         id: "W023",
         severity: "warning",
         message: `Skipped URL check: ${result.skipReason} (${enclosure.url})`,
-        line: element.line,
-        column: element.column,
+        ...urlLocation,
         path,
         fix: `Use a publicly accessible URL for production appcasts`,
+        data: { url: enclosure.url, reason: result.skipReason },
       });
       continue; // Skip other checks for skipped URLs
     }
@@ -394,10 +455,10 @@ export async function validateRemote(
         id: "W024",
         severity: "warning",
         message: `URL uses insecure HTTP instead of HTTPS`,
-        line: element.line,
-        column: element.column,
+        ...urlLocation,
         path,
         fix: `Use HTTPS for secure downloads: ${enclosure.url.replace(/^http:/, "https:")}`,
+        data: { url: enclosure.url },
       });
     }
 
@@ -407,20 +468,20 @@ export async function validateRemote(
         id: "E027",
         severity: "error",
         message: `Failed to fetch URL: ${result.error}`,
-        line: element.line,
-        column: element.column,
+        ...urlLocation,
         path,
         fix: `Verify the URL is accessible: ${enclosure.url}`,
+        data: { url: enclosure.url, reason: result.error },
       });
     } else if (result.status && (result.status < 200 || result.status >= 300)) {
       diagnostics.push({
         id: "E027",
         severity: "error",
         message: `URL returned HTTP ${result.status}: ${enclosure.url}`,
-        line: element.line,
-        column: element.column,
+        ...urlLocation,
         path,
         fix: `Ensure the URL returns a successful status code`,
+        data: { url: enclosure.url, status: result.status },
       });
     }
 
@@ -430,14 +491,23 @@ export async function validateRemote(
       enclosure.length > 0 &&
       result.contentLength !== enclosure.length
     ) {
+      const lengthAttr = element.attributes["length"];
+      const edit = lengthAttr
+        ? replaceAttributeValueEdit(lengthAttr, String(result.contentLength))
+        : undefined;
       diagnostics.push({
         id: "E028",
         severity: "error",
         message: `Content-Length mismatch: declared ${enclosure.length} bytes, server reports ${result.contentLength} bytes`,
-        line: element.line,
-        column: element.column,
+        ...lengthLocation,
         path,
         fix: `Update the length attribute to ${result.contentLength}`,
+        data: {
+          url: enclosure.url,
+          declaredLength: enclosure.length,
+          actualLength: result.contentLength,
+        },
+        ...(edit && { edits: [edit] }),
       });
     }
 
@@ -447,10 +517,10 @@ export async function validateRemote(
         id: "W021",
         severity: "warning",
         message: `URL redirects to: ${result.finalUrl}`,
-        line: element.line,
-        column: element.column,
+        ...urlLocation,
         path,
         fix: `Consider using the final URL directly: ${result.finalUrl}`,
+        data: { url: enclosure.url, redirectUrl: result.finalUrl },
       });
     }
 
@@ -466,9 +536,9 @@ export async function validateRemote(
         id: "W022",
         severity: "warning",
         message: `Server did not return Content-Length header, cannot verify declared size of ${enclosure.length} bytes`,
-        line: element.line,
-        column: element.column,
+        ...lengthLocation,
         path,
+        data: { url: enclosure.url, declaredLength: enclosure.length },
       });
     }
   }
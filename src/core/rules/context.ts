@@ -0,0 +1,161 @@
+import type {
+  DiagnosticData,
+  TextEdit,
+  XmlAttribute,
+  XmlDocument,
+  XmlElement,
+} from "../types.js";
+import { isSparkleNamespace } from "../constants.js";
+import { versionKey } from "../versions.js";
+import {
+  childElement,
+  childElements,
+  getItems,
+  parseRfc2822Date,
+  resolveVersion,
+  sparkleAttr,
+  textContent,
+} from "./utils.js";
+import type { Location, VersionSource } from "./utils.js";
+
+/** What a rule's create() is given */
+export interface RuleContext {
+  doc: XmlDocument;
+  /** The XML source the document was parsed from */
+  xml: string;
+  /** The channel and items, indexed once for all rules */
+  index: AppcastIndex;
+  /**
+   * Report a diagnostic about an element. Its severity comes from the rule
+   * catalog, and its location and path from the element; pass undefined
+   * for diagnostics about the document as a whole.
+   */
+  report(node: XmlElement | undefined, descriptor: ReportDescriptor): void;
+}
+
+/** A diagnostic as a rule reports it */
+export interface ReportDescriptor {
+  /** Rule ID; must be in the rule's meta.ids and the catalog */
+  id: string;
+  message: string;
+  fix?: string;
+  data?: DiagnosticData;
+  edits?: TextEdit[];
+  /**
+   * What to point at: one of the node's attributes, "text" for its text
+   * content, or an explicit location. Defaults to the node's open tag, which
+   * is also the fallback for an attribute that is undefined.
+   */
+  at?: XmlAttribute | "text" | Location;
+}
+
+/**
+ * The parts of an appcast rules look up, collected in a single pass over
+ * the document so no rule has to walk the tree again.
+ */
+export interface AppcastIndex {
+  /** The first <channel> of an <rss> root; undefined if there is none */
+  channel?: XmlElement;
+  /** The channel's items, in document order */
+  items: IndexedItem[];
+  /**
+   * Items by their sparkle:channel name, in document order; the default
+   * channel is "". Channels appear in the order they are first used.
+   */
+  channels: ReadonlyMap<string, IndexedItem[]>;
+  /**
+   * Items by each version they declare, as a <sparkle:version> element or
+   * an enclosure attribute. Keyed by versionKey(), so versions Sparkle
+   * considers equal (e.g. "1.0-1" and "1.0.1") share an entry.
+   */
+  versions: ReadonlyMap<string, IndexedItem[]>;
+}
+
+/** An <item> and the values rules need from it */
+export interface IndexedItem {
+  /** The <item> element */
+  element: XmlElement;
+  /** First child element with this local name and no namespace */
+  child(localName: string): XmlElement | undefined;
+  /** First Sparkle-namespaced child element with this local name */
+  sparkleChild(localName: string): XmlElement | undefined;
+  /** All Sparkle-namespaced child elements with this local name */
+  sparkleChildren(localName: string): XmlElement[];
+  /** The item's <enclosure> */
+  enclosure?: XmlElement;
+  /** Enclosures inside <sparkle:deltas> */
+  deltaEnclosures: XmlElement[];
+  /** Effective version, as resolveVersion() finds it */
+  version?: { version: string; source: VersionSource };
+  /** Trimmed sparkle:channel text; "" for the default channel */
+  channel: string;
+  /** <pubDate>, if it is a valid RFC 2822 date */
+  date?: Date;
+}
+
+/**
+ * Index an appcast's channel and items in one pass.
+ */
+export function indexAppcast(doc: XmlDocument): AppcastIndex {
+  const root = doc.root;
+  const channel =
+    root && root.name === "rss" ? childElement(root, "channel") : undefined;
+
+  const items = channel ? getItems(channel).map(indexItem) : [];
+  const channels = new Map<string, IndexedItem[]>();
+  const versions = new Map<string, IndexedItem[]>();
+  for (const item of items) {
+    addTo(channels, item.channel, item);
+
+    const versionEl = item.sparkleChild("version");
+    const elementVersion = versionEl && textContent(versionEl).trim();
+    const enclosureVersion =
+      item.enclosure && sparkleAttr(item.enclosure, "version");
+    for (const version of new Set([elementVersion, enclosureVersion])) {
+      if (version) addTo(versions, versionKey(version), item);
+    }
+  }
+
+  return { channel, items, channels, versions };
+}
+
+function indexItem(item: XmlElement): IndexedItem {
+  // Group children by name once; "sparkle:" marks the Sparkle namespace
+  const children = new Map<string, XmlElement[]>();
+  for (const child of item.children) {
+    if (child.type !== "element") continue;
+    if (isSparkleNamespace(child.namespace)) {
+      addTo(children, `sparkle:${child.name}`, child);
+    } else if (!child.namespace) {
+      addTo(children, child.name, child);
+    }
+  }
+
+  const sparkleChildren = (localName: string) =>
+    children.get(`sparkle:${localName}`) ?? [];
+  const sparkleChild = (localName: string) => sparkleChildren(localName)[0];
+  const child = (localName: string) => children.get(localName)?.[0];
+
+  const deltas = sparkleChild("deltas");
+  const channelEl = sparkleChild("channel");
+  const pubDate = child("pubDate");
+
+  return {
+    element: item,
+    child,
+    sparkleChild,
+    sparkleChildren,
+    enclosure: child("enclosure"),
+    deltaEnclosures: deltas ? childElements(deltas, "enclosure") : [],
+    version: resolveVersion(item),
+    channel: channelEl ? textContent(channelEl).trim() : "",
+    date:
+      (pubDate && parseRfc2822Date(textContent(pubDate).trim())) || undefined,
+  };
+}
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
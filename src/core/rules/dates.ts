@@ -1,11 +1,5 @@
-import type { Diagnostic, XmlDocument } from "../types.js";
-import {
-  childElements,
-  childElement,
-  textContent,
-  elementPath,
-  parseRfc2822Date,
-} from "./utils.js";
+import { textContent, parseRfc2822Date } from "./utils.js";
+import { defineRule } from "./define.js";
 
 // Sparkle was first released in 2006, Mac OS X in 2001
 // We'll use 2001 as a reasonable lower bound
@@ -21,87 +15,71 @@ const FUTURE_GRACE_MS = 24 * 60 * 60 * 1000;
  * W026: <pubDate> is unreasonably old
  * (W018 moved to version.ts - now checks version sort, not date sort)
  */
-export function dateRules(doc: XmlDocument, diagnostics: Diagnostic[]): void {
-  const { root } = doc;
-  if (!root || root.name !== "rss") return;
+export const dateRules = defineRule({
+  meta: { name: "dates", ids: ["W003", "W004", "W025", "W026"] },
+  create(context) {
+    return {
+      onItem(item) {
+        const pubDateEl = item.child("pubDate");
 
-  const channel = childElement(root, "channel");
-  if (!channel) return;
+        // W003: Missing pubDate
+        if (!pubDateEl) {
+          context.report(item.element, {
+            id: "W003",
+            message: "Item is missing <pubDate>",
+            fix: "Add a <pubDate> element with an RFC 2822 date (e.g., Thu, 13 Jul 2023 14:30:00 -0700)",
+          });
+          return;
+        }
 
-  const items = childElements(channel, "item");
+        const dateStr = textContent(pubDateEl).trim();
+        if (!dateStr) {
+          context.report(pubDateEl, {
+            id: "W003",
+            message: "Item has empty <pubDate>",
+            fix: "Set the <pubDate> content to an RFC 2822 date",
+          });
+          return;
+        }
 
-  for (const item of items) {
-    const pubDateEl = childElement(item, "pubDate");
+        // W004: Not RFC 2822
+        const parsedDate = parseRfc2822Date(dateStr);
+        if (!parsedDate) {
+          context.report(pubDateEl, {
+            id: "W004",
+            message: `<pubDate> "${dateStr}" is not in RFC 2822 format`,
+            fix: "Use RFC 2822 format: Day, DD Mon YYYY HH:MM:SS +ZZZZ (e.g., Thu, 13 Jul 2023 14:30:00 -0700)",
+            data: { value: dateStr },
+            at: "text",
+          });
+          return;
+        }
 
-    // W003: Missing pubDate
-    if (!pubDateEl) {
-      diagnostics.push({
-        id: "W003",
-        severity: "warning",
-        message: "Item is missing <pubDate>",
-        line: item.line,
-        column: item.column,
-        path: elementPath(item),
-        fix: "Add a <pubDate> element with an RFC 2822 date (e.g., Thu, 13 Jul 2023 14:30:00 -0700)",
-      });
-      continue;
-    }
+        const now = new Date();
 
-    const dateStr = textContent(pubDateEl).trim();
-    if (!dateStr) {
-      diagnostics.push({
-        id: "W003",
-        severity: "warning",
-        message: "Item has empty <pubDate>",
-        line: pubDateEl.line,
-        column: pubDateEl.column,
-        path: elementPath(pubDateEl),
-        fix: "Set the <pubDate> content to an RFC 2822 date",
-      });
-      continue;
-    }
+        // W025: Date is in the future
+        if (parsedDate.getTime() > now.getTime() + FUTURE_GRACE_MS) {
+          context.report(pubDateEl, {
+            id: "W025",
+            message: `<pubDate> "${dateStr}" is in the future`,
+            fix: "Set the publication date to when the release was actually published",
+            data: { value: dateStr },
+            at: "text",
+          });
+        }
 
-    // W004: Not RFC 2822
-    const parsedDate = parseRfc2822Date(dateStr);
-    if (!parsedDate) {
-      diagnostics.push({
-        id: "W004",
-        severity: "warning",
-        message: `<pubDate> "${dateStr}" is not in RFC 2822 format`,
-        line: pubDateEl.line,
-        column: pubDateEl.column,
-        path: elementPath(pubDateEl),
-        fix: "Use RFC 2822 format: Day, DD Mon YYYY HH:MM:SS +ZZZZ (e.g., Thu, 13 Jul 2023 14:30:00 -0700)",
-      });
-    } else {
-      const now = new Date();
-
-      // W025: Date is in the future
-      if (parsedDate.getTime() > now.getTime() + FUTURE_GRACE_MS) {
-        diagnostics.push({
-          id: "W025",
-          severity: "warning",
-          message: `<pubDate> "${dateStr}" is in the future`,
-          line: pubDateEl.line,
-          column: pubDateEl.column,
-          path: elementPath(pubDateEl),
-          fix: "Set the publication date to when the release was actually published",
-        });
-      }
-
-      // W026: Date is unreasonably old (before Mac OS X existed)
-      if (parsedDate.getTime() < EARLIEST_REASONABLE_DATE.getTime()) {
-        const year = parsedDate.getFullYear();
-        diagnostics.push({
-          id: "W026",
-          severity: "warning",
-          message: `<pubDate> "${dateStr}" (year ${year}) is implausibly old for a macOS app update`,
-          line: pubDateEl.line,
-          column: pubDateEl.column,
-          path: elementPath(pubDateEl),
-          fix: "Verify the publication date is correct",
-        });
-      }
-    }
-  }
-}
+        // W026: Date is unreasonably old (before Mac OS X existed)
+        if (parsedDate.getTime() < EARLIEST_REASONABLE_DATE.getTime()) {
+          const year = parsedDate.getFullYear();
+          context.report(pubDateEl, {
+            id: "W026",
+            message: `<pubDate> "${dateStr}" (year ${year}) is implausibly old for a macOS app update`,
+            fix: "Verify the publication date is correct",
+            data: { value: dateStr },
+            at: "text",
+          });
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,130 @@
+import type { Diagnostic, XmlDocument, XmlElement } from "../types.js";
+import { getRuleMeta } from "../catalog.js";
+import type { RuleLookup } from "../catalog.js";
+import { attributeLocation, elementPath, textLocation } from "./utils.js";
+import type { Location } from "./utils.js";
+import type { IndexedItem, ReportDescriptor, RuleContext } from "./context.js";
+
+/** Describes a rule */
+export interface RuleDefinitionMeta {
+  /** Short name, e.g. "enclosure" */
+  name: string;
+  /** Every rule ID the rule reports */
+  ids: readonly string[];
+}
+
+/**
+ * Hooks a rule implements. For each run they are called in document order:
+ * onDocument, onChannel, then for each item onItem, onEnclosure and onDelta
+ * for each delta, and finally onEnd for checks across items.
+ */
+export interface RuleVisitor {
+  /** The document, whatever its root element */
+  onDocument?(doc: XmlDocument): void;
+  /** The <channel> of an <rss> root */
+  onChannel?(channel: XmlElement): void;
+  onItem?(item: IndexedItem): void;
+  /** The item's <enclosure> */
+  onEnclosure?(enclosure: XmlElement, item: IndexedItem): void;
+  /** An <enclosure> inside the item's <sparkle:deltas> */
+  onDelta?(delta: XmlElement, item: IndexedItem): void;
+  /** After every item has been visited */
+  onEnd?(): void;
+}
+
+/** A rule: its metadata and a factory for its visitor */
+export interface RuleDefinition {
+  meta: RuleDefinitionMeta;
+  /** Called once per validation; state kept in the closure is per run */
+  create(context: RuleContext): RuleVisitor;
+}
+
+/**
+ * @deprecated Rules are now RuleDefinition objects written with
+ * defineRule(); this alias will be removed in the next major release.
+ */
+export type ValidationRule = RuleDefinition;
+
+/**
+ * Define a rule. Rules report diagnostics through `context.report()`,
+ * which fills in the severity from the catalog and the location and path
+ * from the node:
+ *
+ * ```ts
+ * export const titleRules = defineRule({
+ *   meta: { name: "titles", ids: ["W002"] },
+ *   create(context) {
+ *     return {
+ *       onItem(item) {
+ *         if (!item.child("title")) {
+ *           context.report(item.element, {
+ *             id: "W002",
+ *             message: "Item is missing a <title> element",
+ *           });
+ *         }
+ *       },
+ *     };
+ *   },
+ * });
+ * ```
+ */
+export function defineRule(rule: RuleDefinition): RuleDefinition {
+  return rule;
+}
+
+/**
+ * Run a rule over a document, adding what it reports to `diagnostics`.
+ * Throws if the rule reports an ID missing from its meta or the catalog.
+ */
+export function runRule(
+  rule: RuleDefinition,
+  source: Omit<RuleContext, "report">,
+  diagnostics: Diagnostic[],
+  lookup: RuleLookup = getRuleMeta
+): void {
+  const { name, ids } = rule.meta;
+  const report = (
+    node: XmlElement | undefined,
+    descriptor: ReportDescriptor
+  ): void => {
+    const { id, message, fix, data, edits, at } = descriptor;
+    const meta = lookup(id);
+    if (!ids.includes(id) || !meta) {
+      throw new Error(
+        `Rule "${name}" reported ${id}, which is not ${meta ? "in its meta.ids" : "a known rule ID"}`
+      );
+    }
+    const where = reportLocation(node, at);
+    diagnostics.push({
+      id,
+      severity: meta.severity,
+      message,
+      ...where,
+      ...(node && { path: elementPath(node) }),
+      ...(fix !== undefined && { fix }),
+      ...(data && { data }),
+      ...(edits && { edits }),
+    });
+  };
+
+  const visitor = rule.create({ ...source, report });
+  const { doc, index } = source;
+  visitor.onDocument?.(doc);
+  if (index.channel) visitor.onChannel?.(index.channel);
+  for (const item of index.items) {
+    visitor.onItem?.(item);
+    if (item.enclosure) visitor.onEnclosure?.(item.enclosure, item);
+    for (const delta of item.deltaEnclosures) visitor.onDelta?.(delta, item);
+  }
+  visitor.onEnd?.();
+}
+
+function reportLocation(
+  node: XmlElement | undefined,
+  at: ReportDescriptor["at"]
+): Location | undefined {
+  if (at !== undefined && typeof at !== "string" && "line" in at) return at;
+  if (!node) return undefined;
+  if (at === "text") return textLocation(node);
+  return attributeLocation(node, at);
+}
@@ -0,0 +1,55 @@
+import { defineRule } from "./define.js";
+
+/**
+ * E040: External entity or external DTD subset in the DOCTYPE
+ * W051: DOCTYPE declaration in the appcast
+ *
+ * Sparkle parses appcasts with NSXMLDocument, which reads the DOCTYPE.
+ * An appcast has no use for one, so any DTD is suspicious and one that
+ * points outside the document is a potential XXE attack.
+ */
+export const doctypeRules = defineRule({
+  meta: { name: "doctype", ids: ["E040", "W051"] },
+  create(context) {
+    return {
+      onDocument(doc) {
+        const { doctype } = doc;
+        if (!doctype) return;
+
+        const { entities } = doctype;
+        context.report(undefined, {
+          id: "W051",
+          message:
+            entities.length > 0
+              ? `Appcast has a DOCTYPE declaration with ${entities.length} entity declaration${entities.length === 1 ? "" : "s"}`
+              : "Appcast has a DOCTYPE declaration",
+          fix: "Remove the <!DOCTYPE> declaration; appcasts don't need a DTD",
+          data: { count: entities.length },
+          at: doctype,
+        });
+
+        if (doctype.systemId !== undefined) {
+          context.report(undefined, {
+            id: "E040",
+            message: `DOCTYPE loads an external DTD from "${doctype.systemId}"`,
+            fix: "Remove the external DTD reference from the <!DOCTYPE> declaration",
+            data: { url: doctype.systemId },
+            at: doctype,
+          });
+        }
+
+        for (const entity of entities) {
+          if (entity.systemId === undefined) continue;
+          const name = entity.parameter ? `%${entity.name}` : entity.name;
+          context.report(undefined, {
+            id: "E040",
+            message: `Entity "${name}" is loaded from "${entity.systemId}"`,
+            fix: `Remove the declaration of external entity "${name}" and any references to it`,
+            data: { value: name, url: entity.systemId },
+            at: entity,
+          });
+        }
+      },
+    };
+  },
+});
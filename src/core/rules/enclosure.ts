@@ -1,15 +1,15 @@
-import type { Diagnostic, XmlDocument, XmlElement } from "../types.js";
+import type { XmlElement } from "../types.js";
 import { ENCLOSURE_MIME_TYPE, VALID_INSTALLATION_TYPES } from "../constants.js";
 import {
-  childElements,
-  childElement,
   attr,
   sparkleAttr,
-  elementPath,
   isNonNegativeInteger,
-  sparkleChildElement,
   textContent,
+  sparkleAttribute,
 } from "./utils.js";
+import type { RuleContext } from "./context.js";
+import { defineRule } from "./define.js";
+import { compareVersions, versionKey } from "../versions.js";
 
 /** Valid values for sparkle:os attribute */
 const VALID_OS_VALUES = ["macos", "windows"] as const;
@@ -80,223 +80,234 @@ function validateSignature(
  * I012: Delta deltaFrom version not found in feed (info - old versions may be pruned)
  * W006: Only DSA signature, no EdDSA
  * W010: Enclosure type not application/octet-stream
- * W011: <enclosure> missing length attribute (Sparkle works without it)
- * W012: <enclosure> missing type attribute (Sparkle works without it)
  * W019: Enclosure length is 0
  * W043: sparkle:os attribute present (deprecated - prefer separate feeds)
+ * W044: <enclosure> missing length attribute (Sparkle works without it)
+ * W045: <enclosure> missing type attribute (Sparkle works without it)
  * E031: Signature is malformed (Sparkle will reject)
  * W032: Multiple delta enclosures for same deltaFrom
+ * W048: Delta deltaFrom is not older than the item's version
  */
-export function enclosureRules(
-  doc: XmlDocument,
-  diagnostics: Diagnostic[]
-): void {
-  const { root } = doc;
-  if (!root || root.name !== "rss") return;
-
-  const channel = childElement(root, "channel");
-  if (!channel) return;
-
-  const items = childElements(channel, "item");
-
-  // Collect all versions in the feed for W031 check
-  const feedVersions = new Set<string>();
-  for (const item of items) {
-    const versionEl = sparkleChildElement(item, "version");
-    if (versionEl) {
-      const version = textContent(versionEl).trim();
-      if (version) feedVersions.add(version);
-    }
-    const enclosure = childElement(item, "enclosure");
-    if (enclosure) {
-      const enclosureVersion = sparkleAttr(enclosure, "version");
-      if (enclosureVersion) feedVersions.add(enclosureVersion);
-    }
-  }
-
-  for (const item of items) {
-    const enclosure = childElement(item, "enclosure");
-    const link = childElement(item, "link");
-    const informationalUpdate = sparkleChildElement(
-      item,
-      "informationalUpdate"
-    );
+export const enclosureRules = defineRule({
+  meta: {
+    name: "enclosure",
+    ids: [
+      "E009",
+      "E010",
+      "E013",
+      "E022",
+      "E023",
+      "E024",
+      "E025",
+      "E030",
+      "E031",
+      "I010",
+      "I012",
+      "W006",
+      "W010",
+      "W019",
+      "W032",
+      "W043",
+      "W044",
+      "W045",
+      "W048",
+    ],
+  },
+  create(context) {
+    return {
+      onItem(item) {
+        // E009: Must have enclosure with url or link
+        if (
+          !item.enclosure &&
+          !item.child("link") &&
+          !item.sparkleChild("informationalUpdate")
+        ) {
+          context.report(item.element, {
+            id: "E009",
+            message: "Item has neither <enclosure> with url nor <link>",
+            fix: 'Add an <enclosure url="..." length="..." type="..."/> or <link> element',
+          });
+        }
 
-    // E009: Must have enclosure with url or link
-    if (!enclosure && !link && !informationalUpdate) {
-      diagnostics.push({
-        id: "E009",
-        severity: "error",
-        message: "Item has neither <enclosure> with url nor <link>",
-        line: item.line,
-        column: item.column,
-        path: elementPath(item),
-        fix: 'Add an <enclosure url="..." length="..." type="..."/> or <link> element',
-      });
-      continue;
-    }
+        // E022: installationType validation (on item-level element)
+        const installationTypeEl = item.sparkleChild("installationType");
+        if (installationTypeEl) {
+          const val = textContent(installationTypeEl).trim();
+          if (!(VALID_INSTALLATION_TYPES as readonly string[]).includes(val)) {
+            context.report(installationTypeEl, {
+              id: "E022",
+              message: `Invalid sparkle:installationType "${val}"; must be "application" or "package"`,
+              fix: 'Set installationType to "application" or "package"',
+              data: { value: val, allowed: [...VALID_INSTALLATION_TYPES] },
+              at: "text",
+            });
+          }
+        }
 
-    if (enclosure) {
-      validateEnclosure(enclosure, diagnostics);
+        // Delta updates: the <sparkle:deltas> as a whole; each delta
+        // enclosure is checked in onDelta
+        const deltasEl = item.sparkleChild("deltas");
+        if (deltasEl) {
+          validateDeltas(deltasEl, item.deltaEnclosures, context);
+        }
+      },
+
+      onEnclosure(enclosure) {
+        validateEnclosure(enclosure, context);
+
+        // Check sparkle:os attribute
+        const os = sparkleAttr(enclosure, "os");
+        if (os) {
+          // W043: Warn that sparkle:os is deprecated, prefer separate feeds
+          context.report(enclosure, {
+            id: "W043",
+            message: `sparkle:os attribute is deprecated; prefer using separate appcast feeds per platform`,
+            fix: "Create separate appcast.xml files for each platform instead of using sparkle:os",
+            at: sparkleAttribute(enclosure, "os"),
+          });
 
-      // Check sparkle:os attribute
-      const os = sparkleAttr(enclosure, "os");
-      if (os) {
-        // W043: Warn that sparkle:os is deprecated, prefer separate feeds
-        diagnostics.push({
-          id: "W043",
-          severity: "warning",
-          message: `sparkle:os attribute is deprecated; prefer using separate appcast feeds per platform`,
-          line: enclosure.line,
-          column: enclosure.column,
-          path: elementPath(enclosure),
-          fix: "Create separate appcast.xml files for each platform instead of using sparkle:os",
-        });
+          // E030: Also check for invalid values
+          if (
+            !(VALID_OS_VALUES as readonly string[]).includes(os.toLowerCase())
+          ) {
+            context.report(enclosure, {
+              id: "E030",
+              message: `Invalid sparkle:os value "${os}"; must be "macos" or "windows"`,
+              fix: 'Set sparkle:os to "macos" or "windows"',
+              data: { value: os, allowed: [...VALID_OS_VALUES] },
+              at: sparkleAttribute(enclosure, "os"),
+            });
+          }
+        }
 
-        // E030: Also check for invalid values
+        // E022: installationType on enclosure attribute
+        const instType = sparkleAttr(enclosure, "installationType");
         if (
-          !(VALID_OS_VALUES as readonly string[]).includes(os.toLowerCase())
+          instType &&
+          !(VALID_INSTALLATION_TYPES as readonly string[]).includes(instType)
         ) {
-          diagnostics.push({
-            id: "E030",
-            severity: "error",
-            message: `Invalid sparkle:os value "${os}"; must be "macos" or "windows"`,
-            line: enclosure.line,
-            column: enclosure.column,
-            path: elementPath(enclosure),
-            fix: 'Set sparkle:os to "macos" or "windows"',
+          context.report(enclosure, {
+            id: "E022",
+            message: `Invalid sparkle:installationType "${instType}" on enclosure; must be "application" or "package"`,
+            fix: 'Set installationType to "application" or "package"',
+            data: { value: instType, allowed: [...VALID_INSTALLATION_TYPES] },
+            at: sparkleAttribute(enclosure, "installationType"),
           });
         }
-      }
-    }
-
-    // E022: installationType validation (on item-level element)
-    const installationTypeEl = sparkleChildElement(item, "installationType");
-    if (installationTypeEl) {
-      const val = textContent(installationTypeEl).trim();
-      if (!(VALID_INSTALLATION_TYPES as readonly string[]).includes(val)) {
-        diagnostics.push({
-          id: "E022",
-          severity: "error",
-          message: `Invalid sparkle:installationType "${val}"; must be "application" or "package"`,
-          line: installationTypeEl.line,
-          column: installationTypeEl.column,
-          path: elementPath(installationTypeEl),
-          fix: 'Set installationType to "application" or "package"',
-        });
-      }
-    }
+      },
+
+      onDelta(deltaEnc, item) {
+        // E024: Delta enclosure must have sparkle:deltaFrom
+        const deltaFrom = sparkleAttr(deltaEnc, "deltaFrom");
+        if (!deltaFrom) {
+          context.report(deltaEnc, {
+            id: "E024",
+            message: "Delta <enclosure> is missing sparkle:deltaFrom attribute",
+            fix: 'Add sparkle:deltaFrom="<previousVersion>" to the delta enclosure',
+          });
+        } else {
+          // I012: Check if deltaFrom version exists in feed (info - old versions may be pruned)
+          if (!context.index.versions.has(versionKey(deltaFrom))) {
+            context.report(deltaEnc, {
+              id: "I012",
+              message: `Delta references version "${deltaFrom}" which does not exist in the feed`,
+              fix: "This is normal if the deltaFrom version has been pruned from the feed",
+              data: { version: deltaFrom },
+              at: sparkleAttribute(deltaEnc, "deltaFrom"),
+            });
+          }
+
+          // W048: A delta can only update from an older version
+          const itemVersion = item.version?.version;
+          if (itemVersion && compareVersions(deltaFrom, itemVersion) >= 0) {
+            context.report(deltaEnc, {
+              id: "W048",
+              message: `Delta updates from version "${deltaFrom}", which is not older than the item's version "${itemVersion}"`,
+              fix: "Set sparkle:deltaFrom to the version the delta was generated from",
+              data: { version: deltaFrom, compareTo: itemVersion },
+              at: sparkleAttribute(deltaEnc, "deltaFrom"),
+            });
+          }
+        }
 
-    // Check installationType on enclosure attribute
-    if (enclosure) {
-      const instType = sparkleAttr(enclosure, "installationType");
-      if (
-        instType &&
-        !(VALID_INSTALLATION_TYPES as readonly string[]).includes(instType)
-      ) {
-        diagnostics.push({
-          id: "E022",
-          severity: "error",
-          message: `Invalid sparkle:installationType "${instType}" on enclosure; must be "application" or "package"`,
-          line: enclosure.line,
-          column: enclosure.column,
-          path: elementPath(enclosure),
-          fix: 'Set installationType to "application" or "package"',
-        });
-      }
-    }
+        // E025: Delta enclosure must also have standard enclosure attributes
+        if (!attr(deltaEnc, "url")) {
+          context.report(deltaEnc, {
+            id: "E025",
+            message: "Delta <enclosure> is missing the url attribute",
+            fix: "Add a url attribute pointing to the delta update file",
+          });
+        }
 
-    // Delta updates: check <sparkle:deltas> children
-    const deltasEl = sparkleChildElement(item, "deltas");
-    if (deltasEl) {
-      validateDeltas(deltasEl, feedVersions, diagnostics);
-    }
-  }
-}
+        // Also validate the delta enclosure like a regular one (length, type, signatures)
+        validateEnclosure(deltaEnc, context);
+      },
+    };
+  },
+});
 
-function validateEnclosure(
-  enclosure: XmlElement,
-  diagnostics: Diagnostic[]
-): void {
+function validateEnclosure(enclosure: XmlElement, context: RuleContext): void {
   const url = attr(enclosure, "url");
   const length = attr(enclosure, "length");
   const type = attr(enclosure, "type");
 
   // E010
   if (!url) {
-    diagnostics.push({
+    context.report(enclosure, {
       id: "E010",
-      severity: "error",
       message: "<enclosure> is missing the url attribute",
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: "Add a url attribute to the <enclosure> element",
     });
   }
 
-  // W011: Missing length (Sparkle works without it, used for progress display)
+  // W044: Missing length (Sparkle works without it, used for progress display)
   if (length === undefined) {
-    diagnostics.push({
-      id: "W011",
-      severity: "warning",
+    context.report(enclosure, {
+      id: "W044",
       message: "<enclosure> is missing the length attribute",
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: "Add a length attribute with the file size in bytes",
     });
   }
 
-  // W012: Missing type (Sparkle works without it, can infer from URL)
+  // W045: Missing type (Sparkle works without it, can infer from URL)
   if (!type) {
-    diagnostics.push({
-      id: "W012",
-      severity: "warning",
+    context.report(enclosure, {
+      id: "W045",
       message: "<enclosure> is missing the type attribute",
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: `Add type="${ENCLOSURE_MIME_TYPE}" to the <enclosure> element`,
     });
   }
 
   // E013
   if (length !== undefined && !isNonNegativeInteger(length)) {
-    diagnostics.push({
+    context.report(enclosure, {
       id: "E013",
-      severity: "error",
       message: `Enclosure length "${length}" is not a valid non-negative integer`,
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: "Set length to the file size in bytes (a non-negative integer)",
+      data: { value: length },
+      at: enclosure.attributes.length,
     });
   }
 
   // W019: length is 0
   if (length === "0") {
-    diagnostics.push({
+    context.report(enclosure, {
       id: "W019",
-      severity: "warning",
       message: "Enclosure length is 0; this is usually a mistake",
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: "Set length to the actual file size in bytes",
+      data: { declaredLength: 0 },
+      at: enclosure.attributes.length,
     });
   }
 
   // W010: type not application/octet-stream
   if (type && type !== ENCLOSURE_MIME_TYPE) {
-    diagnostics.push({
+    context.report(enclosure, {
       id: "W010",
-      severity: "warning",
       message: `Enclosure type is "${type}", expected "${ENCLOSURE_MIME_TYPE}"`,
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: `Change type to "${ENCLOSURE_MIME_TYPE}"`,
+      data: { value: type, expected: ENCLOSURE_MIME_TYPE },
+      at: enclosure.attributes.type,
     });
   }
 
@@ -306,26 +317,19 @@ function validateEnclosure(
   const dsaSig = sparkleAttr(enclosure, "dsaSignature");
 
   if (!edSig && !dsaSig) {
-    diagnostics.push({
+    context.report(enclosure, {
       id: "I010",
-      severity: "info",
       message:
         "Enclosure has no signature (signatures are optional but recommended)",
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: "Consider adding a sparkle:edSignature attribute for EdDSA signing",
     });
   } else if (dsaSig && !edSig) {
-    diagnostics.push({
+    context.report(enclosure, {
       id: "W006",
-      severity: "warning",
       message:
         "Enclosure only has a DSA signature; DSA is deprecated in favor of EdDSA",
-      line: enclosure.line,
-      column: enclosure.column,
-      path: elementPath(enclosure),
       fix: "Add a sparkle:edSignature attribute and consider removing dsaSignature",
+      at: sparkleAttribute(enclosure, "dsaSignature"),
     });
   }
 
@@ -333,122 +337,67 @@ function validateEnclosure(
   if (edSig) {
     const result = validateSignature(edSig, "ed");
     if (!result.valid) {
-      diagnostics.push({
+      context.report(enclosure, {
         id: "E031",
-        severity: "error",
         message: `edSignature is invalid: ${result.reason}`,
-        line: enclosure.line,
-        column: enclosure.column,
-        path: elementPath(enclosure),
         fix: "Ed25519 signatures must be exactly 64 bytes encoded as base64 (88 characters)",
+        data: { value: edSig, reason: result.reason },
+        at: sparkleAttribute(enclosure, "edSignature"),
       });
     }
   }
   if (dsaSig) {
     const result = validateSignature(dsaSig, "dsa");
     if (!result.valid) {
-      diagnostics.push({
+      context.report(enclosure, {
         id: "E031",
-        severity: "error",
         message: `dsaSignature is invalid: ${result.reason}`,
-        line: enclosure.line,
-        column: enclosure.column,
-        path: elementPath(enclosure),
         fix: "Ensure the signature is a valid base64-encoded DSA signature",
+        data: { value: dsaSig, reason: result.reason },
+        at: sparkleAttribute(enclosure, "dsaSignature"),
       });
     }
   }
 }
 
+/**
+ * E023: <sparkle:deltas> without enclosures
+ * W032: Several delta enclosures from the same version
+ */
 function validateDeltas(
   deltasEl: XmlElement,
-  feedVersions: Set<string>,
-  diagnostics: Diagnostic[]
+  deltaEnclosures: XmlElement[],
+  context: RuleContext
 ): void {
-  const deltaEnclosures = childElements(deltasEl, "enclosure");
-
   // E023: deltas must contain enclosure elements
   if (deltaEnclosures.length === 0) {
-    diagnostics.push({
+    context.report(deltasEl, {
       id: "E023",
-      severity: "error",
       message: "<sparkle:deltas> element has no <enclosure> children",
-      line: deltasEl.line,
-      column: deltasEl.column,
-      path: elementPath(deltasEl),
       fix: "Add <enclosure> elements inside <sparkle:deltas> for each delta update",
     });
     return;
   }
 
-  // Track deltaFrom versions for W032 duplicate check
+  // W032: Check for duplicate deltaFrom versions
   const deltaFromVersions = new Map<string, XmlElement[]>();
-
   for (const deltaEnc of deltaEnclosures) {
-    // E024: Delta enclosure must have sparkle:deltaFrom
     const deltaFrom = sparkleAttr(deltaEnc, "deltaFrom");
-    if (!deltaFrom) {
-      diagnostics.push({
-        id: "E024",
-        severity: "error",
-        message: "Delta <enclosure> is missing sparkle:deltaFrom attribute",
-        line: deltaEnc.line,
-        column: deltaEnc.column,
-        path: elementPath(deltaEnc),
-        fix: 'Add sparkle:deltaFrom="<previousVersion>" to the delta enclosure',
-      });
-    } else {
-      // I012: Check if deltaFrom version exists in feed (info - old versions may be pruned)
-      if (!feedVersions.has(deltaFrom)) {
-        diagnostics.push({
-          id: "I012",
-          severity: "info",
-          message: `Delta references version "${deltaFrom}" which does not exist in the feed`,
-          line: deltaEnc.line,
-          column: deltaEnc.column,
-          path: elementPath(deltaEnc),
-          fix: "This is normal if the deltaFrom version has been pruned from the feed",
-        });
-      }
-
-      // Track for W032 duplicate check
-      if (!deltaFromVersions.has(deltaFrom)) {
-        deltaFromVersions.set(deltaFrom, []);
-      }
-      deltaFromVersions.get(deltaFrom)!.push(deltaEnc);
+    if (!deltaFrom) continue;
+    if (!deltaFromVersions.has(deltaFrom)) {
+      deltaFromVersions.set(deltaFrom, []);
     }
-
-    // E025: Delta enclosure must also have standard enclosure attributes
-    if (!attr(deltaEnc, "url")) {
-      diagnostics.push({
-        id: "E025",
-        severity: "error",
-        message: "Delta <enclosure> is missing the url attribute",
-        line: deltaEnc.line,
-        column: deltaEnc.column,
-        path: elementPath(deltaEnc),
-        fix: "Add a url attribute pointing to the delta update file",
-      });
-    }
-
-    // Also validate the delta enclosure like a regular one (length, type, signatures)
-    validateEnclosure(deltaEnc, diagnostics);
+    deltaFromVersions.get(deltaFrom)!.push(deltaEnc);
   }
-
-  // W032: Check for duplicate deltaFrom versions
   for (const [version, enclosures] of deltaFromVersions) {
-    if (enclosures.length > 1) {
-      for (let i = 1; i < enclosures.length; i++) {
-        diagnostics.push({
-          id: "W032",
-          severity: "warning",
-          message: `Duplicate delta enclosure for deltaFrom="${version}"`,
-          line: enclosures[i].line,
-          column: enclosures[i].column,
-          path: elementPath(enclosures[i]),
-          fix: "Remove duplicate delta enclosures; only one delta per source version is needed",
-        });
-      }
+    for (let i = 1; i < enclosures.length; i++) {
+      context.report(enclosures[i], {
+        id: "W032",
+        message: `Duplicate delta enclosure for deltaFrom="${version}"`,
+        fix: "Remove duplicate delta enclosures; only one delta per source version is needed",
+        data: { version },
+        at: sparkleAttribute(enclosures[i], "deltaFrom"),
+      });
     }
   }
 }
@@ -1,4 +1,4 @@
-import type { ValidationRule } from "../types.js";
+import type { RuleDefinition } from "./define.js";
 import { structureRules } from "./structure.js";
 import { versionRules } from "./version.js";
 import { enclosureRules } from "./enclosure.js";
@@ -15,7 +15,7 @@ import { infoRules } from "./info.js";
  * All validation rules, in order of execution.
  * Structure rules run first since other rules depend on having a valid structure.
  */
-export const allRules: ValidationRule[] = [
+export const allRules: RuleDefinition[] = [
   structureRules,
   versionRules,
   enclosureRules,
@@ -1,6 +1,6 @@
-import type { Diagnostic, XmlDocument } from "../types.js";
 import { SPARKLE_NS } from "../constants.js";
-import { childElements, elementPath } from "./utils.js";
+import { childElements, replaceAttributeValueEdit } from "./utils.js";
+import { defineRule } from "./define.js";
 
 /**
  * E002: Root element must be <rss>
@@ -9,109 +9,95 @@ import { childElements, elementPath } from "./utils.js";
  * E005: Missing <channel> inside <rss>
  * E006: More than one <channel> element
  * E007: No <item> elements in <channel>
- * W042: Sparkle namespace URI variant (old format or HTTPS)
+ * W046: Sparkle namespace URI variant (old format or HTTPS)
  */
-export function structureRules(
-  doc: XmlDocument,
-  diagnostics: Diagnostic[]
-): void {
-  const { root } = doc;
-  if (!root) return; // E001 already reported by parser
+export const structureRules = defineRule({
+  meta: {
+    name: "structure",
+    ids: ["E002", "E003", "E004", "E005", "E006", "E007", "W046"],
+  },
+  create(context) {
+    return {
+      onDocument(doc) {
+        const { root } = doc;
+        if (!root) return; // E001 already reported by parser
 
-  // E002: Root must be <rss>
-  if (root.name !== "rss") {
-    diagnostics.push({
-      id: "E002",
-      severity: "error",
-      message: `Root element is <${root.qname}>, expected <rss>`,
-      line: root.line,
-      column: root.column,
-      path: elementPath(root),
-      fix: "Change the root element to <rss>",
-    });
-    return; // Can't check further structure
-  }
+        // E002: Root must be <rss>
+        if (root.name !== "rss") {
+          context.report(root, {
+            id: "E002",
+            message: `Root element is <${root.qname}>, expected <rss>`,
+            fix: "Change the root element to <rss>",
+            data: { value: root.qname, expected: "rss" },
+          });
+          return; // Can't check further structure
+        }
 
-  // E003: version="2.0"
-  const version = root.attributes["version"]?.value;
-  if (version !== "2.0") {
-    diagnostics.push({
-      id: "E003",
-      severity: "error",
-      message: version
-        ? `<rss> version is "${version}", expected "2.0"`
-        : `<rss> is missing version="2.0" attribute`,
-      line: root.line,
-      column: root.column,
-      path: elementPath(root),
-      fix: 'Add version="2.0" to the <rss> element',
-    });
-  }
+        // E003: version="2.0"
+        const version = root.attributes["version"]?.value;
+        if (version !== "2.0") {
+          context.report(root, {
+            id: "E003",
+            message: version
+              ? `<rss> version is "${version}", expected "2.0"`
+              : `<rss> is missing version="2.0" attribute`,
+            fix: 'Add version="2.0" to the <rss> element',
+            data: { value: version, expected: "2.0" },
+          });
+        }
 
-  // E004 / E026: Sparkle namespace
-  const sparkleNsUri = doc.namespaces["sparkle"];
-  if (!sparkleNsUri) {
-    diagnostics.push({
-      id: "E004",
-      severity: "error",
-      message: "Missing Sparkle namespace declaration (xmlns:sparkle)",
-      line: root.line,
-      column: root.column,
-      path: elementPath(root),
-      fix: `Add xmlns:sparkle="${SPARKLE_NS}" to the <rss> element`,
-    });
-  } else if (sparkleNsUri !== SPARKLE_NS) {
-    // W042: Namespace variant - old format or HTTPS version
-    // These work fine with Sparkle; the URI is just an identifier, not fetched
-    diagnostics.push({
-      id: "W042",
-      severity: "warning",
-      message: `Sparkle namespace URI "${sparkleNsUri}" differs from canonical "${SPARKLE_NS}"`,
-      line: root.line,
-      column: root.column,
-      path: elementPath(root),
-      fix: `Consider using the canonical namespace URI "${SPARKLE_NS}"`,
-    });
-  }
+        // E004 / W046: Sparkle namespace
+        const sparkleNsUri = doc.namespaces["sparkle"];
+        if (!sparkleNsUri) {
+          context.report(root, {
+            id: "E004",
+            message: "Missing Sparkle namespace declaration (xmlns:sparkle)",
+            fix: `Add xmlns:sparkle="${SPARKLE_NS}" to the <rss> element`,
+          });
+        } else if (sparkleNsUri !== SPARKLE_NS) {
+          // W046: Namespace variant - old format or HTTPS version
+          // These work fine with Sparkle; the URI is just an identifier, not fetched
+          const declaration = root.attributes["xmlns:sparkle"];
+          const edit = declaration
+            ? replaceAttributeValueEdit(declaration, SPARKLE_NS)
+            : undefined;
+          context.report(root, {
+            id: "W046",
+            message: `Sparkle namespace URI "${sparkleNsUri}" differs from canonical "${SPARKLE_NS}"`,
+            fix: `Consider using the canonical namespace URI "${SPARKLE_NS}"`,
+            data: { value: sparkleNsUri, expected: SPARKLE_NS },
+            ...(edit && { edits: [edit] }),
+          });
+        }
 
-  // E005/E006: <channel>
-  const channels = childElements(root, "channel");
-  if (channels.length === 0) {
-    diagnostics.push({
-      id: "E005",
-      severity: "error",
-      message: "Missing <channel> element inside <rss>",
-      line: root.line,
-      column: root.column,
-      path: elementPath(root),
-      fix: "Add a <channel> element as a child of <rss>",
-    });
-    return;
-  }
-  if (channels.length > 1) {
-    diagnostics.push({
-      id: "E006",
-      severity: "error",
-      message: `Found ${channels.length} <channel> elements, expected exactly 1`,
-      line: channels[1].line,
-      column: channels[1].column,
-      path: elementPath(channels[1]),
-      fix: "Remove extra <channel> elements; RSS 2.0 allows only one",
-    });
-  }
+        // E005/E006: <channel>
+        const channels = childElements(root, "channel");
+        if (channels.length === 0) {
+          context.report(root, {
+            id: "E005",
+            message: "Missing <channel> element inside <rss>",
+            fix: "Add a <channel> element as a child of <rss>",
+          });
+          return;
+        }
+        if (channels.length > 1) {
+          context.report(channels[1], {
+            id: "E006",
+            message: `Found ${channels.length} <channel> elements, expected exactly 1`,
+            fix: "Remove extra <channel> elements; RSS 2.0 allows only one",
+            data: { count: channels.length },
+          });
+        }
 
-  // E007: at least one <item>
-  const channel = channels[0];
-  const items = childElements(channel, "item");
-  if (items.length === 0) {
-    diagnostics.push({
-      id: "E007",
-      severity: "error",
-      message: "No <item> elements found in <channel>",
-      line: channel.line,
-      column: channel.column,
-      path: elementPath(channel),
-      fix: "Add at least one <item> element to the channel",
-    });
-  }
-}
+        // E007: at least one <item>
+        if (context.index.items.length === 0) {
+          context.report(channels[0], {
+            id: "E007",
+            message: "No <item> elements found in <channel>",
+            fix: "Add at least one <item> element to the channel",
+          });
+        }
+      },
+    };
+  },
+});
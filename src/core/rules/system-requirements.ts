@@ -1,90 +1,72 @@
-import type { Diagnostic, XmlDocument } from "../types.js";
 import { MACOS_VERSION_REGEX } from "../constants.js";
-import {
-  childElements,
-  childElement,
-  sparkleChildElement,
-  textContent,
-  elementPath,
-} from "./utils.js";
+import { textContent } from "./utils.js";
+import { defineRule } from "./define.js";
 
 /**
  * W011: minimumSystemVersion not a valid macOS version format
  * W012: maximumSystemVersion not a valid macOS version format
  * W013: minimumSystemVersion > maximumSystemVersion
  */
-export function systemRequirementRules(
-  doc: XmlDocument,
-  diagnostics: Diagnostic[]
-): void {
-  const { root } = doc;
-  if (!root || root.name !== "rss") return;
+export const systemRequirementRules = defineRule({
+  meta: { name: "system-requirements", ids: ["W011", "W012", "W013"] },
+  create(context) {
+    return {
+      onItem(item) {
+        const minVerEl = item.sparkleChild("minimumSystemVersion");
+        const maxVerEl = item.sparkleChild("maximumSystemVersion");
 
-  const channel = childElement(root, "channel");
-  if (!channel) return;
+        let minVer: string | undefined;
+        let maxVer: string | undefined;
 
-  const items = childElements(channel, "item");
+        // W011: minimumSystemVersion format
+        if (minVerEl) {
+          minVer = textContent(minVerEl).trim();
+          if (minVer && !MACOS_VERSION_REGEX.test(minVer)) {
+            context.report(minVerEl, {
+              id: "W011",
+              message: `minimumSystemVersion "${minVer}" is not a valid macOS version format`,
+              fix: "Use a version format like 10.13, 11.0, or 14.0",
+              data: { value: minVer },
+              at: "text",
+            });
+          }
+        }
 
-  for (const item of items) {
-    const minVerEl = sparkleChildElement(item, "minimumSystemVersion");
-    const maxVerEl = sparkleChildElement(item, "maximumSystemVersion");
+        // W012: maximumSystemVersion format
+        if (maxVerEl) {
+          maxVer = textContent(maxVerEl).trim();
+          if (maxVer && !MACOS_VERSION_REGEX.test(maxVer)) {
+            context.report(maxVerEl, {
+              id: "W012",
+              message: `maximumSystemVersion "${maxVer}" is not a valid macOS version format`,
+              fix: "Use a version format like 10.13, 11.0, or 14.0",
+              data: { value: maxVer },
+              at: "text",
+            });
+          }
+        }
 
-    let minVer: string | undefined;
-    let maxVer: string | undefined;
-
-    // W011: minimumSystemVersion format
-    if (minVerEl) {
-      minVer = textContent(minVerEl).trim();
-      if (minVer && !MACOS_VERSION_REGEX.test(minVer)) {
-        diagnostics.push({
-          id: "W011",
-          severity: "warning",
-          message: `minimumSystemVersion "${minVer}" is not a valid macOS version format`,
-          line: minVerEl.line,
-          column: minVerEl.column,
-          path: elementPath(minVerEl),
-          fix: "Use a version format like 10.13, 11.0, or 14.0",
-        });
-      }
-    }
-
-    // W012: maximumSystemVersion format
-    if (maxVerEl) {
-      maxVer = textContent(maxVerEl).trim();
-      if (maxVer && !MACOS_VERSION_REGEX.test(maxVer)) {
-        diagnostics.push({
-          id: "W012",
-          severity: "warning",
-          message: `maximumSystemVersion "${maxVer}" is not a valid macOS version format`,
-          line: maxVerEl.line,
-          column: maxVerEl.column,
-          path: elementPath(maxVerEl),
-          fix: "Use a version format like 10.13, 11.0, or 14.0",
-        });
-      }
-    }
-
-    // W013: min > max
-    if (
-      minVer &&
-      maxVer &&
-      MACOS_VERSION_REGEX.test(minVer) &&
-      MACOS_VERSION_REGEX.test(maxVer)
-    ) {
-      if (compareVersions(minVer, maxVer) > 0) {
-        diagnostics.push({
-          id: "W013",
-          severity: "warning",
-          message: `minimumSystemVersion (${minVer}) is greater than maximumSystemVersion (${maxVer})`,
-          line: minVerEl!.line,
-          column: minVerEl!.column,
-          path: elementPath(minVerEl!),
-          fix: "Swap the values or correct the version requirements",
-        });
-      }
-    }
-  }
-}
+        // W013: min > max
+        if (
+          minVer &&
+          maxVer &&
+          MACOS_VERSION_REGEX.test(minVer) &&
+          MACOS_VERSION_REGEX.test(maxVer)
+        ) {
+          if (compareVersions(minVer, maxVer) > 0) {
+            context.report(minVerEl, {
+              id: "W013",
+              message: `minimumSystemVersion (${minVer}) is greater than maximumSystemVersion (${maxVer})`,
+              fix: "Swap the values or correct the version requirements",
+              data: { value: minVer, compareTo: maxVer },
+              at: "text",
+            });
+          }
+        }
+      },
+    };
+  },
+});
 
 /**
  * Compare two dot-separated version strings.
@@ -1,13 +1,7 @@
-import type { Diagnostic, XmlDocument, XmlElement } from "../types.js";
-import {
-  childElements,
-  childElement,
-  attr,
-  textContent,
-  elementPath,
-  isValidUrl,
-  sparkleChildElement,
-} from "./utils.js";
+import type { XmlElement } from "../types.js";
+import { childElement, attr, textContent, isValidUrl } from "./utils.js";
+import type { RuleContext } from "./context.js";
+import { defineRule } from "./define.js";
 
 /** Expected file extensions for enclosure downloads */
 const EXPECTED_DOWNLOAD_EXTENSIONS = [
@@ -57,177 +51,129 @@ function getUrlExtension(url: string): string | null {
  * W030: URL file extension doesn't match expected type
  * W035: Feed mixes HTTP and HTTPS URLs
  */
-export function urlRules(doc: XmlDocument, diagnostics: Diagnostic[]): void {
-  const { root } = doc;
-  if (!root || root.name !== "rss") return;
-
-  const channel = childElement(root, "channel");
-  if (!channel) return;
-
-  const items = childElements(channel, "item");
-
-  // Track HTTP vs HTTPS URLs for W035
-  const httpUrls: { url: string; element: XmlElement }[] = [];
-  const httpsUrls: { url: string; element: XmlElement }[] = [];
-
-  function trackProtocol(url: string, element: XmlElement): void {
-    try {
-      const parsed = new URL(url);
-      if (parsed.protocol === "http:") {
-        httpUrls.push({ url, element });
-      } else if (parsed.protocol === "https:") {
-        httpsUrls.push({ url, element });
+export const urlRules = defineRule({
+  meta: {
+    name: "urls",
+    ids: ["E014", "E015", "E016", "E017", "E018", "W016", "W030", "W035"],
+  },
+  create(context) {
+    // Track HTTP vs HTTPS URLs for W035
+    const httpUrls: { url: string; element: XmlElement }[] = [];
+    const httpsUrls: { url: string; element: XmlElement }[] = [];
+
+    function trackProtocol(url: string, element: XmlElement): void {
+      try {
+        const parsed = new URL(url);
+        if (parsed.protocol === "http:") {
+          httpUrls.push({ url, element });
+        } else if (parsed.protocol === "https:") {
+          httpsUrls.push({ url, element });
+        }
+      } catch {
+        // Invalid URL, skip tracking
       }
-    } catch {
-      // Invalid URL, skip tracking
     }
-  }
 
-  for (const item of items) {
-    // Check enclosure url
-    const enclosure = childElement(item, "enclosure");
-    if (enclosure) {
-      const url = attr(enclosure, "url");
+    /** Validate and track the URL in an element's text */
+    function checkTextUrl(
+      element: XmlElement | undefined,
+      errorId: string,
+      description: string
+    ): void {
+      const url = element && textContent(element).trim();
       if (url) {
-        validateUrl(url, "E014", "enclosure url", enclosure, diagnostics);
-        trackProtocol(url, enclosure);
-
-        // W030: Check for suspicious file extensions on enclosure URLs
-        const ext = getUrlExtension(url);
-        if (ext && SUSPICIOUS_EXTENSIONS.includes(ext)) {
-          diagnostics.push({
-            id: "W030",
-            severity: "warning",
-            message: `Enclosure URL has suspicious extension "${ext}" for a download file`,
-            line: enclosure.line,
-            column: enclosure.column,
-            path: elementPath(enclosure),
-            fix: `Download URLs should typically end with ${EXPECTED_DOWNLOAD_EXTENSIONS.slice(0, 3).join(", ")}, etc.`,
-          });
-        }
+        validateUrl(url, errorId, description, element, context);
+        trackProtocol(url, element);
       }
     }
 
-    // Check <link>
-    const link = childElement(item, "link");
-    if (link) {
-      const url = textContent(link).trim();
-      if (url) {
-        validateUrl(url, "E015", "item <link>", link, diagnostics);
-        trackProtocol(url, link);
+    /** Validate and track an enclosure's url attribute */
+    function checkEnclosureUrl(
+      enclosure: XmlElement,
+      errorId: string,
+      description: string
+    ): void {
+      const url = attr(enclosure, "url");
+      if (!url) return;
+      validateUrl(url, errorId, description, enclosure, context);
+      trackProtocol(url, enclosure);
+
+      // W030: Check for suspicious file extensions on download URLs
+      const ext = getUrlExtension(url);
+      if (ext && SUSPICIOUS_EXTENSIONS.includes(ext)) {
+        const kind = errorId === "E018" ? "Delta enclosure" : "Enclosure";
+        context.report(enclosure, {
+          id: "W030",
+          message: `${kind} URL has suspicious extension "${ext}" for a download file`,
+          fix: `Download URLs should typically end with ${EXPECTED_DOWNLOAD_EXTENSIONS.slice(0, 3).join(", ")}, etc.`,
+          data: { url, value: ext },
+          at: enclosure.attributes.url,
+        });
       }
     }
 
-    // Check sparkle:releaseNotesLink
-    const rnLink = sparkleChildElement(item, "releaseNotesLink");
-    if (rnLink) {
-      const url = textContent(rnLink).trim();
-      if (url) {
-        validateUrl(
-          url,
+    return {
+      onItem(item) {
+        if (item.enclosure) {
+          checkEnclosureUrl(item.enclosure, "E014", "enclosure url");
+        }
+        checkTextUrl(item.child("link"), "E015", "item <link>");
+        checkTextUrl(
+          item.sparkleChild("releaseNotesLink"),
           "E016",
-          "sparkle:releaseNotesLink",
-          rnLink,
-          diagnostics
+          "sparkle:releaseNotesLink"
         );
-        trackProtocol(url, rnLink);
-      }
-    }
-
-    // Check sparkle:fullReleaseNotesLink
-    const frnLink = sparkleChildElement(item, "fullReleaseNotesLink");
-    if (frnLink) {
-      const url = textContent(frnLink).trim();
-      if (url) {
-        validateUrl(
-          url,
+        checkTextUrl(
+          item.sparkleChild("fullReleaseNotesLink"),
           "E017",
-          "sparkle:fullReleaseNotesLink",
-          frnLink,
-          diagnostics
+          "sparkle:fullReleaseNotesLink"
         );
-        trackProtocol(url, frnLink);
-      }
-    }
-
-    // Check delta enclosure URLs
-    const deltasEl = sparkleChildElement(item, "deltas");
-    if (deltasEl) {
-      const deltaEnclosures = childElements(deltasEl, "enclosure");
-      for (const deltaEnc of deltaEnclosures) {
-        const url = attr(deltaEnc, "url");
-        if (url) {
-          validateUrl(
-            url,
-            "E018",
-            "delta enclosure url",
-            deltaEnc,
-            diagnostics
-          );
-          trackProtocol(url, deltaEnc);
-
-          // W030: Check for suspicious file extensions on delta enclosure URLs
-          const ext = getUrlExtension(url);
-          if (ext && SUSPICIOUS_EXTENSIONS.includes(ext)) {
-            diagnostics.push({
-              id: "W030",
-              severity: "warning",
-              message: `Delta enclosure URL has suspicious extension "${ext}" for a download file`,
-              line: deltaEnc.line,
-              column: deltaEnc.column,
-              path: elementPath(deltaEnc),
-              fix: `Download URLs should typically end with ${EXPECTED_DOWNLOAD_EXTENSIONS.slice(0, 3).join(", ")}, etc.`,
+      },
+
+      onDelta(delta) {
+        checkEnclosureUrl(delta, "E018", "delta enclosure url");
+      },
+
+      onEnd() {
+        const { channel } = context.index;
+        if (!channel) return;
+
+        // Check channel-level link
+        checkTextUrl(childElement(channel, "link"), "E015", "channel <link>");
+
+        // W035: Feed mixes HTTP and HTTPS URLs
+        if (httpUrls.length > 0 && httpsUrls.length > 0) {
+          // Report on the HTTP URLs as they're the less secure ones
+          for (const { url, element } of httpUrls) {
+            context.report(element, {
+              id: "W035",
+              message:
+                "Feed mixes HTTP and HTTPS URLs; consider using HTTPS consistently",
+              fix: "Use HTTPS for all URLs for consistent security",
+              data: { url },
+              at: urlAttribute(element),
             });
           }
         }
-      }
-    }
-  }
-
-  // Check channel-level link
-  const channelLink = childElement(channel, "link");
-  if (channelLink) {
-    const url = textContent(channelLink).trim();
-    if (url) {
-      validateUrl(url, "E015", "channel <link>", channelLink, diagnostics);
-      trackProtocol(url, channelLink);
-    }
-  }
-
-  // W035: Feed mixes HTTP and HTTPS URLs
-  if (httpUrls.length > 0 && httpsUrls.length > 0) {
-    // Report on the HTTP URLs as they're the less secure ones
-    for (const { element } of httpUrls) {
-      diagnostics.push({
-        id: "W035",
-        severity: "warning",
-        message:
-          "Feed mixes HTTP and HTTPS URLs; consider using HTTPS consistently",
-        line: element.line,
-        column: element.column,
-        path: elementPath(element),
-        fix: "Use HTTPS for all URLs for consistent security",
-      });
-    }
-  }
-}
+      },
+    };
+  },
+});
 
 function validateUrl(
   url: string,
   errorId: string,
-  context: string,
+  description: string,
   element: XmlElement,
-  diagnostics: Diagnostic[]
+  context: RuleContext
 ): void {
   if (!isValidUrl(url)) {
-    diagnostics.push({
+    context.report(element, {
       id: errorId,
-      severity: "error",
-      message: `Invalid URL in ${context}: "${url}"`,
-      line: element.line,
-      column: element.column,
-      path: elementPath(element),
+      message: `Invalid URL in ${description}: "${url}"`,
       fix: "Use a valid absolute URL with https://, http://, or feed:// scheme",
+      data: { url },
+      at: urlAttribute(element),
     });
     return;
   }
@@ -236,14 +182,17 @@ function validateUrl(
   // Characters that should be percent-encoded in URLs
   const unencodedPattern = /[{}|\\^`[\]<> ]/;
   if (unencodedPattern.test(url)) {
-    diagnostics.push({
+    context.report(element, {
       id: "W016",
-      severity: "warning",
-      message: `URL in ${context} contains unencoded special characters: "${url}"`,
-      line: element.line,
-      column: element.column,
-      path: elementPath(element),
+      message: `URL in ${description} contains unencoded special characters: "${url}"`,
       fix: "Percent-encode special characters in the URL",
+      data: { url },
+      at: urlAttribute(element),
     });
   }
 }
+
+/** Where a URL is: an enclosure's url attribute, or a link element's text */
+function urlAttribute(element: XmlElement) {
+  return element.attributes.url ?? "text";
+}
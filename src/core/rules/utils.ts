@@ -1,4 +1,10 @@
-import type { XmlElement } from "../types.js";
+import type {
+  SourceRange,
+  TextEdit,
+  XmlAttribute,
+  XmlElement,
+  XmlText,
+} from "../types.js";
 import { isSparkleNamespace } from "../constants.js";
 
 /**
@@ -55,10 +61,7 @@ export function sparkleChildElement(
  */
 export function textContent(element: XmlElement): string {
   return element.children
-    .filter(
-      (c): c is { type: "text"; text: string; line: number; column: number } =>
-        c.type === "text"
-    )
+    .filter((c): c is XmlText => c.type === "text")
     .map((c) => c.text)
     .join("");
 }
@@ -79,15 +82,203 @@ export function sparkleAttr(
   element: XmlElement,
   localName: string
 ): string | undefined {
+  return sparkleAttribute(element, localName)?.value;
+}
+
+/**
+ * Like sparkleAttr, but returns the attribute itself.
+ */
+export function sparkleAttribute(
+  element: XmlElement,
+  localName: string
+): XmlAttribute | undefined {
   // Check for sparkle:localName (namespaced) - accept known variants
   for (const a of Object.values(element.attributes)) {
     if (isSparkleNamespace(a.namespace) && a.name === localName) {
-      return a.value;
+      return a;
     }
   }
   // Check for sparkle:localName (prefix-based, in case namespace resolution differs)
-  const prefixed = element.attributes[`sparkle:${localName}`];
-  if (prefixed) return prefixed.value;
+  return element.attributes[`sparkle:${localName}`];
+}
+
+/**
+ * Edit that removes an attribute together with the whitespace before it.
+ * Returns undefined if the attribute's source position is unknown.
+ */
+export function removeAttributeEdit(
+  element: XmlElement,
+  attribute: XmlAttribute
+): TextEdit | undefined {
+  if (!attribute.range) return undefined;
+  const attrStart = attribute.range.start.offset;
+  // Start where the preceding token (element name or attribute) ends
+  let start = element.openTag.start.offset + 1 + element.qname.length;
+  for (const other of Object.values(element.attributes)) {
+    const end = other.range?.end.offset ?? -1;
+    if (end <= attrStart && end > start) {
+      start = end;
+    }
+  }
+  return { start, end: attribute.range.end.offset, text: "" };
+}
+
+/**
+ * Edit that replaces an attribute's value, escaping it for XML.
+ * Returns undefined if the attribute's source position is unknown.
+ */
+export function replaceAttributeValueEdit(
+  attribute: XmlAttribute,
+  value: string
+): TextEdit | undefined {
+  if (!attribute.valueRange) return undefined;
+  return {
+    start: attribute.valueRange.start.offset,
+    end: attribute.valueRange.end.offset,
+    text: escapeAttributeValue(value),
+  };
+}
+
+/**
+ * Edit that adds an attribute after the element's last attribute.
+ * Returns undefined if an attribute's source position is unknown.
+ */
+export function insertAttributeEdit(
+  element: XmlElement,
+  qname: string,
+  value: string
+): TextEdit | undefined {
+  let offset = element.openTag.start.offset + 1 + element.qname.length;
+  for (const other of Object.values(element.attributes)) {
+    if (!other.range) return undefined;
+    offset = Math.max(offset, other.range.end.offset);
+  }
+  return {
+    start: offset,
+    end: offset,
+    text: ` ${qname}="${escapeAttributeValue(value)}"`,
+  };
+}
+
+function escapeAttributeValue(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Where a diagnostic points: a start line/column and the exact span */
+export interface Location {
+  line: number;
+  column: number;
+  range: SourceRange;
+}
+
+/**
+ * Location of an element's open tag, or of a text node.
+ */
+export function location(node: XmlElement | XmlText): Location {
+  const range = node.type === "element" ? node.openTag : node.range;
+  return { line: range.start.line, column: range.start.column, range };
+}
+
+/**
+ * Location of an attribute (`name="value"`), falling back to its element's
+ * open tag if the attribute could not be located in the source.
+ */
+export function attributeLocation(
+  element: XmlElement,
+  attribute: XmlAttribute | undefined
+): Location {
+  const range = attribute?.range;
+  return range
+    ? { line: range.start.line, column: range.start.column, range }
+    : location(element);
+}
+
+/**
+ * Location of an element's text content, without surrounding whitespace,
+ * falling back to the open tag for empty elements.
+ */
+export function textLocation(element: XmlElement): Location {
+  const texts = element.children.filter((c): c is XmlText => c.type === "text");
+  if (texts.length === 0) return location(element);
+  const range = {
+    start: texts[0].range.start,
+    end: texts[texts.length - 1].range.end,
+  };
+  return { line: range.start.line, column: range.start.column, range };
+}
+
+/**
+ * Extract version from a download URL using Sparkle's underscore-splitting fallback.
+ *
+ * Sparkle's logic (from SUAppcastItem.m):
+ * 1. Split URL by underscore characters
+ * 2. If there are at least 2 components, take the last one
+ * 3. Remove the file extension
+ *
+ * Examples:
+ * - "https://example.com/MyApp_1.5.zip" → "1.5"
+ * - "https://example.com/App_Name_2.0.1.dmg" → "2.0.1"
+ * - "https://example.com/NoUnderscore.zip" → null (can't deduce)
+ *
+ * @see https://github.com/sparkle-project/Sparkle/blob/2.x/Sparkle/SUAppcastItem.m
+ */
+export function extractVersionFromUrl(url: string): string | null {
+  // Split by underscore
+  const components = url.split("_");
+
+  // Need at least 2 components (name + version)
+  if (components.length < 2) {
+    return null;
+  }
+
+  // Take the last component
+  const lastComponent = components[components.length - 1];
+
+  // Remove file extension (everything after the last dot)
+  const lastDotIndex = lastComponent.lastIndexOf(".");
+  if (lastDotIndex === -1) {
+    return lastComponent; // No extension
+  }
+
+  const version = lastComponent.substring(0, lastDotIndex);
+
+  // Validate it looks like a version (not empty, contains at least one digit)
+  if (!version || !/\d/.test(version)) {
+    return null;
+  }
+
+  return version;
+}
+
+/** Where an item's effective version came from */
+export type VersionSource = "element" | "enclosure" | "filename";
+
+/**
+ * Resolve an item's effective version the way Sparkle does: the
+ * <sparkle:version> element, then the enclosure's sparkle:version attribute,
+ * then the download filename. Returns undefined if none gives a version.
+ */
+export function resolveVersion(
+  item: XmlElement
+): { version: string; source: VersionSource } | undefined {
+  const versionEl = sparkleChildElement(item, "version");
+  const elementVersion = versionEl ? textContent(versionEl).trim() : "";
+  if (elementVersion) return { version: elementVersion, source: "element" };
+
+  const enclosure = childElement(item, "enclosure");
+  const enclosureVersion = enclosure && sparkleAttr(enclosure, "version");
+  if (enclosureVersion) {
+    return { version: enclosureVersion, source: "enclosure" };
+  }
+
+  const url = enclosure && attr(enclosure, "url");
+  const filenameVersion = url ? extractVersionFromUrl(url) : null;
+  if (filenameVersion) return { version: filenameVersion, source: "filename" };
+
   return undefined;
 }
 
@@ -98,30 +289,57 @@ export function elementPath(element: XmlElement): string {
   const parts: string[] = [];
   let current: XmlElement | undefined = element;
   while (current) {
-    let label = isSparkleNamespace(current.namespace)
-      ? `sparkle:${current.name}`
-      : current.name;
-
-    // Add index if there are sibling elements with the same name
-    if (current.parent) {
-      const siblings = current.parent.children.filter(
-        (c): c is XmlElement =>
-          c.type === "element" &&
-          c.name === current!.name &&
-          c.namespace === current!.namespace
-      );
-      if (siblings.length > 1) {
-        const idx = siblings.indexOf(current) + 1;
-        label += `[${idx}]`;
-      }
-    }
-
-    parts.unshift(label);
+    parts.unshift(elementLabel(current));
     current = current.parent;
   }
   return parts.join(" > ");
 }
 
+/** Index suffixes of each parent's child elements, computed once per parent */
+const indexSuffixCache = new WeakMap<XmlElement, Map<XmlElement, string>>();
+
+/**
+ * An element's name in a path, with its index if there are sibling elements
+ * with the same name, e.g. "item[2]".
+ */
+function elementLabel(element: XmlElement): string {
+  const name = isSparkleNamespace(element.namespace)
+    ? `sparkle:${element.name}`
+    : element.name;
+  const parent = element.parent;
+  if (!parent) return name;
+
+  let suffixes = indexSuffixCache.get(parent);
+  if (!suffixes) {
+    suffixes = indexSuffixes(parent);
+    indexSuffixCache.set(parent, suffixes);
+  }
+  return name + suffixes.get(element);
+}
+
+/**
+ * "[n]" for each child element that shares its name and namespace with a
+ * sibling, "" for the others.
+ */
+function indexSuffixes(parent: XmlElement): Map<XmlElement, string> {
+  const groups = new Map<string, XmlElement[]>();
+  for (const child of parent.children) {
+    if (child.type !== "element") continue;
+    const key = `${child.name}\u0000${child.namespace ?? ""}`;
+    const group = groups.get(key);
+    if (group) group.push(child);
+    else groups.set(key, [child]);
+  }
+
+  const suffixes = new Map<XmlElement, string>();
+  for (const group of groups.values()) {
+    group.forEach((child, i) => {
+      suffixes.set(child, group.length > 1 ? `[${i + 1}]` : "");
+    });
+  }
+  return suffixes;
+}
+
 /**
  * Get all <item> elements from a channel element.
  */
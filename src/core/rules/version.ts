@@ -1,14 +1,14 @@
-import type { Diagnostic, XmlDocument, XmlElement } from "../types.js";
+import type { XmlElement } from "../types.js";
 import {
-  childElements,
-  sparkleChildElement,
   textContent,
   sparkleAttr,
+  sparkleAttribute,
+  removeAttributeEdit,
   attr,
-  elementPath,
-  childElement,
-  parseRfc2822Date,
+  attributeLocation,
 } from "./utils.js";
+import { defineRule } from "./define.js";
+import { compareVersions } from "../versions.js";
 
 /**
  * Check if a version string is numeric (can include dots for semver-like versions).
@@ -19,67 +19,6 @@ function isNumericVersion(version: string): boolean {
   return /^\d+(\.\d+)*$/.test(version);
 }
 
-/**
- * Extract version from a download URL using Sparkle's underscore-splitting fallback.
- *
- * Sparkle's logic (from SUAppcastItem.m):
- * 1. Split URL by underscore characters
- * 2. If there are at least 2 components, take the last one
- * 3. Remove the file extension
- *
- * Examples:
- * - "https://example.com/MyApp_1.5.zip" → "1.5"
- * - "https://example.com/App_Name_2.0.1.dmg" → "2.0.1"
- * - "https://example.com/NoUnderscore.zip" → null (can't deduce)
- *
- * @see https://github.com/sparkle-project/Sparkle/blob/2.x/Sparkle/SUAppcastItem.m
- */
-function extractVersionFromUrl(url: string): string | null {
-  // Split by underscore
-  const components = url.split("_");
-
-  // Need at least 2 components (name + version)
-  if (components.length < 2) {
-    return null;
-  }
-
-  // Take the last component
-  const lastComponent = components[components.length - 1];
-
-  // Remove file extension (everything after the last dot)
-  const lastDotIndex = lastComponent.lastIndexOf(".");
-  if (lastDotIndex === -1) {
-    return lastComponent; // No extension
-  }
-
-  const version = lastComponent.substring(0, lastDotIndex);
-
-  // Validate it looks like a version (not empty, contains at least one digit)
-  if (!version || !/\d/.test(version)) {
-    return null;
-  }
-
-  return version;
-}
-
-/**
- * Compare two version strings numerically.
- * Returns negative if v1 < v2, positive if v1 > v2, 0 if equal.
- * Handles versions like "1.0", "1.0.1", "100", "2023.1"
- */
-function compareVersions(v1: string, v2: string): number {
-  const parts1 = v1.split(".").map((p) => parseInt(p, 10) || 0);
-  const parts2 = v2.split(".").map((p) => parseInt(p, 10) || 0);
-
-  const maxLen = Math.max(parts1.length, parts2.length);
-  for (let i = 0; i < maxLen; i++) {
-    const p1 = parts1[i] || 0;
-    const p2 = parts2[i] || 0;
-    if (p1 !== p2) return p1 - p2;
-  }
-  return 0;
-}
-
 /**
  * E008: Item missing sparkle:version and cannot be deduced from filename
  * E029: Version string is empty or whitespace-only
@@ -92,311 +31,241 @@ function compareVersions(v1: string, v2: string): number {
  * W041: Version missing but can be deduced from filename (undocumented Sparkle fallback)
  * W042: Version only in enclosure attribute, not as sparkle:version element
  */
-export function versionRules(
-  doc: XmlDocument,
-  diagnostics: Diagnostic[]
-): void {
-  const { root } = doc;
-  if (!root || root.name !== "rss") return;
-
-  const channel = childElement(root, "channel");
-  if (!channel) return;
-
-  const items = childElements(channel, "item");
-  const versionMap = new Map<string, XmlElement[]>();
-  // Track items with valid dates and versions for W028
-  const itemsWithDateAndVersion: {
-    item: XmlElement;
-    version: string;
-    date: Date;
-  }[] = [];
-  // Track items with versions for W018 (version sort check)
-  const itemsWithVersions: {
-    item: XmlElement;
-    version: string;
-    channel: string | undefined;
-  }[] = [];
-
-  for (const item of items) {
-    // Gather version from sparkle:version element
-    const versionEl = sparkleChildElement(item, "version");
-    const versionElText = versionEl ? textContent(versionEl).trim() : undefined;
-
-    // Gather version from enclosure sparkle:version attribute
-    const enclosure = childElement(item, "enclosure");
-    const enclosureVersion = enclosure
-      ? sparkleAttr(enclosure, "version")
-      : undefined;
-
-    // E029: Check for empty/whitespace-only versions
-    if (versionEl) {
-      const rawText = textContent(versionEl);
-      if (!rawText || rawText.trim() === "") {
-        diagnostics.push({
-          id: "E029",
-          severity: "error",
-          message: "<sparkle:version> element is empty or whitespace-only",
-          line: versionEl.line,
-          column: versionEl.column,
-          path: elementPath(versionEl),
-          fix: "Set the version to a valid build number (e.g., 100 or 1.0.0)",
-        });
-      }
-    }
-    if (
-      enclosure &&
-      enclosureVersion !== undefined &&
-      enclosureVersion.trim() === ""
-    ) {
-      diagnostics.push({
-        id: "E029",
-        severity: "error",
-        message: "sparkle:version attribute on enclosure is empty",
-        line: enclosure.line,
-        column: enclosure.column,
-        path: elementPath(enclosure),
-        fix: "Set the version to a valid build number (e.g., 100 or 1.0.0)",
-      });
-    }
-
-    const explicitVersion = versionElText || enclosureVersion;
-
-    // Check for filename fallback version
-    const enclosureUrl = enclosure ? attr(enclosure, "url") : undefined;
-    const filenameVersion = enclosureUrl
-      ? extractVersionFromUrl(enclosureUrl)
-      : null;
-
-    // E008/W041: No explicit version - check filename fallback
-    if (!explicitVersion) {
-      if (filenameVersion) {
-        // W041: Version can be deduced from filename (undocumented, unsupported Sparkle behavior)
-        diagnostics.push({
-          id: "W041",
-          severity: "warning",
-          message: `Item has no sparkle:version; Sparkle may deduce "${filenameVersion}" from filename, but this is undocumented and not officially supported`,
-          line: item.line,
-          column: item.column,
-          path: elementPath(item),
-          fix: `Add <sparkle:version>${filenameVersion}</sparkle:version> explicitly; do not rely on undocumented filename parsing behavior`,
-        });
-        // Continue processing with the deduced version for other checks
-      } else {
-        // E008: No version and can't deduce from filename
-        diagnostics.push({
-          id: "E008",
-          severity: "error",
-          message:
-            "Item is missing sparkle:version (neither element nor enclosure attribute, and cannot be deduced from filename)",
-          line: item.line,
-          column: item.column,
-          path: elementPath(item),
-          fix: "Add a <sparkle:version> element or sparkle:version attribute on <enclosure>",
-        });
-        continue;
-      }
-    }
-
-    // Effective version for subsequent checks (explicit takes precedence)
-    const version = explicitVersion || filenameVersion!;
-
-    // W042: Version only in enclosure attribute, not as sparkle:version element
-    // While valid, the element form is preferred for clarity and consistency
-    if (!versionElText && enclosureVersion) {
-      diagnostics.push({
-        id: "W042",
-        severity: "warning",
-        message: `Version "${enclosureVersion}" is only specified as enclosure attribute, not as <sparkle:version> element`,
-        line: enclosure!.line,
-        column: enclosure!.column,
-        path: elementPath(enclosure!),
-        fix: `Add <sparkle:version>${enclosureVersion}</sparkle:version> element for clarity`,
-      });
-    }
-
-    // W027: Non-numeric version string
-    if (!isNumericVersion(version)) {
-      const versionLocation = versionEl || enclosure;
-      diagnostics.push({
-        id: "W027",
-        severity: "warning",
-        message: `Version "${version}" contains non-numeric characters; Sparkle's version comparison may fail`,
-        line: versionLocation!.line,
-        column: versionLocation!.column,
-        path: elementPath(versionLocation!),
-        fix: "Use a purely numeric version (e.g., 100 or 1.0.0) for reliable comparisons",
-      });
-    }
-
-    // Collect date for W028 check
-    const pubDateEl = childElement(item, "pubDate");
-    if (pubDateEl && isNumericVersion(version)) {
-      const dateStr = textContent(pubDateEl).trim();
-      const parsedDate = parseRfc2822Date(dateStr);
-      if (parsedDate) {
-        itemsWithDateAndVersion.push({ item, version, date: parsedDate });
-      }
-    }
-
-    // Note: W015 removed - Sparkle actually checks enclosure attribute FIRST,
-    // then falls back to element. Both are valid; enclosure attr is primary location.
-
-    // W007: Redundant version
-    if (
-      versionElText &&
-      enclosureVersion &&
-      versionElText === enclosureVersion
-    ) {
-      diagnostics.push({
-        id: "W007",
-        severity: "warning",
-        message: `Version "${version}" is declared both as a <sparkle:version> element and enclosure attribute`,
-        line: enclosure!.line,
-        column: enclosure!.column,
-        path: elementPath(enclosure!),
-        fix: "Remove the sparkle:version attribute from <enclosure>; the element is sufficient",
-      });
-    }
-
-    // W008: Redundant shortVersionString
-    const svEl = sparkleChildElement(item, "shortVersionString");
-    const svElText = svEl ? textContent(svEl).trim() : undefined;
-    const enclosureSv = enclosure
-      ? sparkleAttr(enclosure, "shortVersionString")
-      : undefined;
-    if (svElText && enclosureSv && svElText === enclosureSv) {
-      diagnostics.push({
-        id: "W008",
-        severity: "warning",
-        message: `shortVersionString "${svElText}" is declared both as element and enclosure attribute`,
-        line: enclosure!.line,
-        column: enclosure!.column,
-        path: elementPath(enclosure!),
-        fix: "Remove the sparkle:shortVersionString attribute from <enclosure>",
-      });
-    }
-
-    // Track versions for W020
-    const os = enclosure ? sparkleAttr(enclosure, "os") : undefined;
-    const channelEl = sparkleChildElement(item, "channel");
-    const channelName = channelEl ? textContent(channelEl).trim() : undefined;
-    const key = `${version}|${os || ""}|${channelName || ""}`;
-    if (!versionMap.has(key)) {
-      versionMap.set(key, []);
-    }
-    versionMap.get(key)!.push(item);
-
-    // Track for W018 (version sort check)
-    if (isNumericVersion(version)) {
-      itemsWithVersions.push({ item, version, channel: channelName });
-    }
-  }
-
-  // W020: Duplicate version without differing os/channel
-  for (const [key, dupes] of versionMap) {
-    if (dupes.length > 1) {
-      const version = key.split("|")[0];
-      for (let i = 1; i < dupes.length; i++) {
-        diagnostics.push({
-          id: "W020",
-          severity: "warning",
-          message: `Duplicate version "${version}" found without differing os or channel`,
-          line: dupes[i].line,
-          column: dupes[i].column,
-          path: elementPath(dupes[i]),
-          fix: "Ensure each version is unique per os/channel combination, or remove the duplicate item",
-        });
-      }
-    }
-  }
-
-  // W028: Version decreases while pubDate increases
-  // Now accounts for update branches - only check within same channel
-  if (itemsWithDateAndVersion.length >= 2) {
-    // Group by channel to account for update branches
-    const byChannel = new Map<string, typeof itemsWithDateAndVersion>();
-    for (const entry of itemsWithDateAndVersion) {
-      const channelEl = sparkleChildElement(entry.item, "channel");
-      const channel = channelEl ? textContent(channelEl).trim() : "";
-      if (!byChannel.has(channel)) {
-        byChannel.set(channel, []);
-      }
-      byChannel.get(channel)!.push(entry);
-    }
-
-    // Check within each channel
-    for (const [, channelItems] of byChannel) {
-      if (channelItems.length < 2) continue;
-
-      const sortedByDate = [...channelItems].sort(
-        (a, b) => a.date.getTime() - b.date.getTime()
-      );
+export const versionRules = defineRule({
+  meta: {
+    name: "version",
+    ids: [
+      "E008",
+      "E029",
+      "W007",
+      "W008",
+      "W018",
+      "W020",
+      "W027",
+      "W028",
+      "W041",
+      "W042",
+    ],
+  },
+  create(context) {
+    const versionMap = new Map<string, XmlElement[]>();
+
+    return {
+      onItem(item) {
+        // Gather version from sparkle:version element
+        const versionEl = item.sparkleChild("version");
+        const versionElText = versionEl
+          ? textContent(versionEl).trim()
+          : undefined;
+
+        // Gather version from enclosure sparkle:version attribute
+        const { enclosure } = item;
+        const enclosureVersion = enclosure
+          ? sparkleAttr(enclosure, "version")
+          : undefined;
+
+        // E029: Check for empty/whitespace-only versions
+        if (versionEl) {
+          const rawText = textContent(versionEl);
+          if (!rawText || rawText.trim() === "") {
+            context.report(versionEl, {
+              id: "E029",
+              message: "<sparkle:version> element is empty or whitespace-only",
+              fix: "Set the version to a valid build number (e.g., 100 or 1.0.0)",
+              at: "text",
+            });
+          }
+        }
+        if (
+          enclosure &&
+          enclosureVersion !== undefined &&
+          enclosureVersion.trim() === ""
+        ) {
+          context.report(enclosure, {
+            id: "E029",
+            message: "sparkle:version attribute on enclosure is empty",
+            fix: "Set the version to a valid build number (e.g., 100 or 1.0.0)",
+            at: sparkleAttribute(enclosure, "version"),
+          });
+        }
 
-      for (let i = 1; i < sortedByDate.length; i++) {
-        const prev = sortedByDate[i - 1];
-        const curr = sortedByDate[i];
+        // E008/W041: No explicit version - check filename fallback
+        const resolved = item.version;
+        if (!resolved) {
+          // E008: No version and can't deduce from filename
+          context.report(item.element, {
+            id: "E008",
+            message:
+              "Item is missing sparkle:version (neither element nor enclosure attribute, and cannot be deduced from filename)",
+            fix: "Add a <sparkle:version> element or sparkle:version attribute on <enclosure>",
+          });
+          return;
+        }
+        if (resolved.source === "filename") {
+          // W041: Version can be deduced from filename (undocumented, unsupported Sparkle behavior)
+          context.report(item.element, {
+            id: "W041",
+            message: `Item has no sparkle:version; Sparkle may deduce "${resolved.version}" from filename, but this is undocumented and not officially supported`,
+            fix: `Add <sparkle:version>${resolved.version}</sparkle:version> explicitly; do not rely on undocumented filename parsing behavior`,
+            data: { version: resolved.version, url: attr(enclosure!, "url") },
+          });
+          // Continue processing with the deduced version for other checks
+        }
 
-        // If current date is later but version is lower, that's suspicious
-        if (compareVersions(curr.version, prev.version) < 0) {
-          diagnostics.push({
-            id: "W028",
-            severity: "warning",
-            message: `Version "${curr.version}" is older than "${prev.version}" but has a newer pubDate`,
-            line: curr.item.line,
-            column: curr.item.column,
-            path: elementPath(curr.item),
-            fix: "Verify that the version and pubDate are correct; newer dates should have newer versions (within the same channel)",
+        // Effective version for subsequent checks (explicit takes precedence)
+        const version = resolved.version;
+
+        // W042: Version only in enclosure attribute, not as sparkle:version element
+        // While valid, the element form is preferred for clarity and consistency
+        if (!versionElText && enclosureVersion) {
+          context.report(enclosure!, {
+            id: "W042",
+            message: `Version "${enclosureVersion}" is only specified as enclosure attribute, not as <sparkle:version> element`,
+            fix: `Add <sparkle:version>${enclosureVersion}</sparkle:version> element for clarity`,
+            data: { version: enclosureVersion },
+            at: sparkleAttribute(enclosure!, "version"),
           });
         }
-      }
-    }
-  }
 
-  // W018: Check version sort order (should be highest version first)
-  // Only check items on the same channel
-  if (itemsWithVersions.length >= 2) {
-    // Group by channel
-    const byChannel = new Map<
-      string,
-      { item: XmlElement; version: string }[]
-    >();
-    for (const entry of itemsWithVersions) {
-      const ch = entry.channel || "";
-      if (!byChannel.has(ch)) {
-        byChannel.set(ch, []);
-      }
-      byChannel.get(ch)!.push(entry);
-    }
+        // W027: Non-numeric version string
+        if (!isNumericVersion(version)) {
+          // The path names the element if there is one, even when the
+          // version itself came from the enclosure
+          context.report(versionEl ?? enclosure, {
+            id: "W027",
+            message: `Version "${version}" contains non-numeric characters; Sparkle's version comparison may fail`,
+            fix: "Use a purely numeric version (e.g., 100 or 1.0.0) for reliable comparisons",
+            data: { version },
+            at: versionElText
+              ? "text"
+              : attributeLocation(
+                  enclosure!,
+                  enclosureVersion
+                    ? sparkleAttribute(enclosure!, "version")
+                    : enclosure!.attributes.url
+                ),
+          });
+        }
 
-    // Check sort order within each channel
-    for (const [, channelItems] of byChannel) {
-      if (channelItems.length < 2) continue;
+        // Note: W015 removed - Sparkle actually checks enclosure attribute FIRST,
+        // then falls back to element. Both are valid; enclosure attr is primary location.
 
-      let sorted = true;
-      for (let i = 1; i < channelItems.length; i++) {
+        // W007: Redundant version
         if (
-          compareVersions(
-            channelItems[i].version,
-            channelItems[i - 1].version
-          ) > 0
+          versionElText &&
+          enclosureVersion &&
+          versionElText === enclosureVersion
         ) {
-          sorted = false;
-          break;
+          const edit = removeAttributeEdit(
+            enclosure!,
+            sparkleAttribute(enclosure!, "version")!
+          );
+          context.report(enclosure!, {
+            id: "W007",
+            message: `Version "${version}" is declared both as a <sparkle:version> element and enclosure attribute`,
+            fix: "Remove the sparkle:version attribute from <enclosure>; the element is sufficient",
+            data: { version },
+            ...(edit && { edits: [edit] }),
+            at: sparkleAttribute(enclosure!, "version"),
+          });
         }
-      }
 
-      if (!sorted) {
-        diagnostics.push({
-          id: "W018",
-          severity: "warning",
-          message:
-            "Items are not sorted by version in descending order (highest version first)",
-          line: channelItems[0].item.line,
-          column: channelItems[0].item.column,
-          path: elementPath(channelItems[0].item),
-          fix: "Sort <item> elements so the highest version appears first (Sparkle sorts by version, not date)",
-        });
-      }
-    }
-  }
-}
+        // W008: Redundant shortVersionString
+        const svEl = item.sparkleChild("shortVersionString");
+        const svElText = svEl ? textContent(svEl).trim() : undefined;
+        const enclosureSv = enclosure
+          ? sparkleAttr(enclosure, "shortVersionString")
+          : undefined;
+        if (svElText && enclosureSv && svElText === enclosureSv) {
+          const edit = removeAttributeEdit(
+            enclosure!,
+            sparkleAttribute(enclosure!, "shortVersionString")!
+          );
+          context.report(enclosure!, {
+            id: "W008",
+            message: `shortVersionString "${svElText}" is declared both as element and enclosure attribute`,
+            fix: "Remove the sparkle:shortVersionString attribute from <enclosure>",
+            data: { value: svElText },
+            ...(edit && { edits: [edit] }),
+            at: sparkleAttribute(enclosure!, "shortVersionString"),
+          });
+        }
+
+        // Track versions for W020
+        const os = enclosure ? sparkleAttr(enclosure, "os") : undefined;
+        const key = `${version}|${os || ""}|${item.channel}`;
+        if (!versionMap.has(key)) {
+          versionMap.set(key, []);
+        }
+        versionMap.get(key)!.push(item.element);
+      },
+
+      onEnd() {
+        // W020: Duplicate version without differing os/channel
+        for (const [key, dupes] of versionMap) {
+          if (dupes.length > 1) {
+            const version = key.split("|")[0];
+            for (let i = 1; i < dupes.length; i++) {
+              context.report(dupes[i], {
+                id: "W020",
+                message: `Duplicate version "${version}" found without differing os or channel`,
+                fix: "Ensure each version is unique per os/channel combination, or remove the duplicate item",
+                data: { version },
+              });
+            }
+          }
+        }
+
+        // W028 and W018 compare items within each channel, since update
+        // branches on different channels have their own version sequences
+        for (const channelItems of context.index.channels.values()) {
+          const versioned = channelItems.filter((item) => item.version);
+
+          // W028: Version decreases while pubDate increases
+          const sortedByDate = versioned
+            .filter((item) => item.date)
+            .sort((a, b) => a.date!.getTime() - b.date!.getTime());
+          for (let i = 1; i < sortedByDate.length; i++) {
+            const prev = sortedByDate[i - 1];
+            const curr = sortedByDate[i];
+            const version = curr.version!.version;
+            const compareTo = prev.version!.version;
+
+            // If current date is later but version is lower, that's suspicious
+            if (compareVersions(version, compareTo) < 0) {
+              context.report(curr.element, {
+                id: "W028",
+                message: `Version "${version}" is older than "${compareTo}" but has a newer pubDate`,
+                fix: "Verify that the version and pubDate are correct; newer dates should have newer versions (within the same channel)",
+                data: { version, compareTo },
+              });
+            }
+          }
+
+          // W018: Check version sort order (should be highest version first)
+          // First item that is newer than the one before it
+          const unsorted = versioned.findIndex(
+            (item, i) =>
+              i > 0 &&
+              compareVersions(
+                item.version!.version,
+                versioned[i - 1].version!.version
+              ) > 0
+          );
+          if (unsorted !== -1) {
+            context.report(versioned[0].element, {
+              id: "W018",
+              message:
+                "Items are not sorted by version in descending order (highest version first)",
+              fix: "Sort <item> elements so the highest version appears first (Sparkle sorts by version, not date)",
+              data: {
+                version: versioned[unsorted].version!.version,
+                compareTo: versioned[unsorted - 1].version!.version,
+              },
+            });
+          }
+        }
+      },
+    };
+  },
+});
@@ -1,8 +1,17 @@
-import type { Diagnostic, XmlDocument } from "../types.js";
+import type { XmlElement, XmlText } from "../types.js";
+import { isSparkleNamespace } from "../constants.js";
+import { createLocator } from "../parser.js";
+import type { RuleContext } from "./context.js";
+import { defineRule } from "./define.js";
+import { location } from "./utils.js";
 
 /**
- * W038: CDATA section used in version/signature elements
+ * W038: CDATA section used in version/signature values
  * W039: XML declaration missing encoding attribute
+ * W050: Byte order mark (U+FEFF) after the start of the document
+ *
+ * E033/E034 (declared encoding mismatch, invalid UTF-8) are reported when
+ * validating bytes, see encoding.ts.
  *
  * These rules require access to the raw XML string.
  */
@@ -10,105 +19,154 @@ import type { Diagnostic, XmlDocument } from "../types.js";
 /**
  * Check for XML formatting issues that require raw XML string access.
  */
-export function xmlFormatRules(
-  doc: XmlDocument,
-  diagnostics: Diagnostic[],
-  rawXml: string
-): void {
-  // W039: Check for missing encoding in XML declaration
-  checkXmlDeclaration(rawXml, diagnostics);
+export const xmlFormatRules = defineRule({
+  meta: { name: "xml-format", ids: ["W038", "W039", "W050"] },
+  create(context) {
+    return {
+      onDocument(doc) {
+        // W039: Check for missing encoding in XML declaration
+        checkXmlDeclaration(context);
 
-  // W038: Check for CDATA in version/signature elements
-  if (doc.root) {
-    checkCdataInSensitiveElements(rawXml, diagnostics);
-  }
-}
+        // W050: Check for byte order marks inside the document
+        checkStrayByteOrderMarks(context);
+
+        // W038: Check for CDATA in version/signature values
+        if (doc.root) {
+          checkCdataInSensitiveElements(doc.root, context);
+        }
+      },
+    };
+  },
+});
 
 /**
  * W039: Check if XML declaration has encoding attribute.
  */
-function checkXmlDeclaration(rawXml: string, diagnostics: Diagnostic[]): void {
-  // Look for XML declaration at the start
-  const xmlDeclMatch = rawXml.match(/^<\?xml\s+([^?]*)\?>/i);
+function checkXmlDeclaration(context: RuleContext): void {
+  const rawXml = context.xml;
+  // Look for XML declaration at the start, after a byte order mark if the
+  // string still has one
+  const bomLength = rawXml.startsWith("\uFEFF") ? 1 : 0;
+  const text = rawXml.slice(bomLength);
+  const xmlDeclMatch = text.match(/^<\?xml\s+([^?]*)\?>/i);
   if (xmlDeclMatch) {
     const declaration = xmlDeclMatch[1];
     // Check if encoding is specified
     if (!declaration.includes("encoding=")) {
-      diagnostics.push({
+      // encoding must follow version and precede standalone
+      const version = text.match(/^<\?xml\s+version\s*=\s*(["'])[^"']*\1/i);
+      const locate = createLocator(rawXml);
+      const start = locate(bomLength);
+      context.report(undefined, {
         id: "W039",
-        severity: "warning",
         message:
           'XML declaration is missing encoding attribute; recommend adding encoding="UTF-8"',
-        line: 1,
-        column: 1,
         fix: '<?xml version="1.0" encoding="UTF-8"?>',
+        ...(version && {
+          edits: [
+            {
+              start: bomLength + version[0].length,
+              end: bomLength + version[0].length,
+              text: ' encoding="UTF-8"',
+            },
+          ],
+        }),
+        at: {
+          line: start.line,
+          column: start.column,
+          range: { start, end: locate(bomLength + xmlDeclMatch[0].length) },
+        },
       });
     }
   }
 }
 
 /**
- * W038: Check for CDATA sections in version or signature elements.
+ * W050: A U+FEFF anywhere but the very start, typically left over from
+ * concatenating files that each had a byte order mark.
  */
-function checkCdataInSensitiveElements(
-  rawXml: string,
-  diagnostics: Diagnostic[]
-): void {
-  // Pattern to match CDATA in sparkle:version elements
-  const versionCdataPattern = /<sparkle:version[^>]*>\s*<!\[CDATA\[/gi;
-  const sigCdataPattern =
-    /sparkle:(ed|dsa)Signature\s*=\s*["']\s*<!\[CDATA\[/gi;
-
-  // Check for CDATA in sparkle:version elements
-  let match;
-  while ((match = versionCdataPattern.exec(rawXml)) !== null) {
-    const line = getLineNumber(rawXml, match.index);
-    diagnostics.push({
-      id: "W038",
-      severity: "warning",
+function checkStrayByteOrderMarks(context: RuleContext): void {
+  const rawXml = context.xml;
+  let index = rawXml.indexOf("\uFEFF", 1);
+  if (index === -1) return;
+  const locate = createLocator(rawXml);
+  for (; index !== -1; index = rawXml.indexOf("\uFEFF", index + 1)) {
+    const start = locate(index);
+    context.report(undefined, {
+      id: "W050",
       message:
-        "CDATA section used in <sparkle:version>; this may cause parsing issues",
-      line,
-      column: 1,
-      fix: "Use plain text content instead of CDATA for version elements",
+        "Byte order mark (U+FEFF) inside the document; only the first character may be a byte order mark",
+      fix: "Remove the stray byte order mark",
+      edits: [{ start: index, end: index + 1, text: "" }],
+      at: {
+        line: start.line,
+        column: start.column,
+        range: { start, end: locate(index + 1) },
+      },
     });
   }
+}
 
-  // Also check for enclosure with CDATA in version attribute (unusual but possible)
-  const enclosureVersionCdataPattern =
-    /sparkle:version\s*=\s*["']\s*<!\[CDATA\[/gi;
-  while ((match = enclosureVersionCdataPattern.exec(rawXml)) !== null) {
-    const line = getLineNumber(rawXml, match.index);
-    diagnostics.push({
-      id: "W038",
-      severity: "warning",
-      message:
-        "CDATA section used in sparkle:version attribute; this may cause parsing issues",
-      line,
-      column: 1,
-      fix: "Use plain text value instead of CDATA for version attributes",
-    });
+/** An attribute value written as a CDATA section, with or without its `<` */
+const CDATA_VALUE_RE = /^\s*<?!\[CDATA\[/;
+
+/**
+ * W038: Check for CDATA sections in version or signature values.
+ */
+function checkCdataInSensitiveElements(
+  element: XmlElement,
+  context: RuleContext
+): void {
+  // Check for CDATA in sparkle:version elements
+  if (element.name === "version" && isSparkleNamespace(element.namespace)) {
+    const cdata = element.children.find(
+      (c): c is XmlText => c.type === "text" && c.cdata === true
+    );
+    if (cdata) {
+      context.report(element, {
+        id: "W038",
+        message:
+          "CDATA section used in <sparkle:version>; this may cause parsing issues",
+        fix: "Use plain text content instead of CDATA for version elements",
+        at: location(cdata),
+      });
+    }
   }
 
-  // Check for CDATA in signature attributes (very unusual but theoretically possible in malformed XML)
-  while ((match = sigCdataPattern.exec(rawXml)) !== null) {
-    const line = getLineNumber(rawXml, match.index);
-    diagnostics.push({
-      id: "W038",
-      severity: "warning",
-      message:
-        "CDATA section used in signature attribute; this may cause parsing issues",
-      line,
-      column: 1,
-      fix: "Use plain base64 value instead of CDATA for signature attributes",
-    });
+  // CDATA can't appear in attribute values: the parser reports the `<` as
+  // malformed XML (E001), drops it and keeps the rest of the value
+  for (const attribute of Object.values(element.attributes)) {
+    if (
+      !isSparkleNamespace(attribute.namespace) ||
+      !CDATA_VALUE_RE.test(attribute.value)
+    ) {
+      continue;
+    }
+    if (attribute.name === "version") {
+      context.report(element, {
+        id: "W038",
+        message:
+          "CDATA section used in sparkle:version attribute; this may cause parsing issues",
+        fix: "Use plain text value instead of CDATA for version attributes",
+        at: attribute,
+      });
+    } else if (
+      attribute.name === "edSignature" ||
+      attribute.name === "dsaSignature"
+    ) {
+      context.report(element, {
+        id: "W038",
+        message:
+          "CDATA section used in signature attribute; this may cause parsing issues",
+        fix: "Use plain base64 value instead of CDATA for signature attributes",
+        at: attribute,
+      });
+    }
   }
-}
 
-/**
- * Get the line number for a character position in a string.
- */
-function getLineNumber(str: string, position: number): number {
-  const lines = str.substring(0, position).split("\n");
-  return lines.length;
+  for (const child of element.children) {
+    if (child.type === "element") {
+      checkCdataInSensitiveElements(child, context);
+    }
+  }
 }
@@ -0,0 +1,337 @@
+import { createHash, createPublicKey, verify } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import { basename, join, relative, resolve, isAbsolute } from "node:path";
+import type {
+  AsyncValidationRule,
+  Diagnostic,
+  XmlDocument,
+  XmlElement,
+} from "./types.js";
+import { indexAppcast } from "./rules/context.js";
+import {
+  attributeLocation,
+  elementPath,
+  replaceAttributeValueEdit,
+  sparkleAttribute,
+} from "./rules/utils.js";
+
+/**
+ * Options for verifying signatures against local release archives. At
+ * least one of the keys is needed.
+ */
+export interface SignatureVerificationOptions {
+  /** The app's base64 Ed25519 public key, as in its SUPublicEDKey */
+  publicKey?: string;
+  /** PEM of the app's DSA public key (SUPublicDSAKeyFile), for Sparkle 1 */
+  dsaPublicKey?: string;
+  /** Directory of release archives, matched by the URL's file name */
+  artifactsDir?: string;
+  /**
+   * URL prefixes and the local directories they are served from, e.g.
+   * { "https://cdn.example.com/releases/": "build/releases" }. The rest of
+   * the URL is the file's path in the directory. Tried before artifactsDir.
+   */
+  artifactMap?: Record<string, string>;
+}
+
+/** DER header of an Ed25519 SubjectPublicKeyInfo; the raw key follows */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/**
+ * Decode a base64 Ed25519 public key in Sparkle's format: the 32 raw key
+ * bytes. Throws if it isn't one.
+ */
+export function rawEd25519PublicKey(base64: string): Buffer {
+  const raw = Buffer.from(base64.trim(), "base64");
+  if (raw.length !== 32 || raw.toString("base64") !== base64.trim()) {
+    throw new Error(
+      `Invalid Ed25519 public key: expected 32 bytes of base64, got "${base64}"`
+    );
+  }
+  return raw;
+}
+
+/**
+ * Import a base64 Ed25519 public key in Sparkle's format. Throws if it
+ * isn't one.
+ */
+export function ed25519PublicKey(base64: string): KeyObject {
+  return createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, rawEd25519PublicKey(base64)]),
+    format: "der",
+    type: "spki",
+  });
+}
+
+/**
+ * Import a PEM DSA public key. Throws if it isn't one.
+ */
+export function dsaPublicKey(pem: string): KeyObject {
+  let key: KeyObject;
+  try {
+    key = createPublicKey(pem);
+  } catch (err) {
+    throw new Error("Invalid DSA public key: expected a PEM public key", {
+      cause: err,
+    });
+  }
+  if (key.asymmetricKeyType !== "dsa") {
+    throw new Error(
+      `Invalid DSA public key: got a ${key.asymmetricKeyType} key`
+    );
+  }
+  return key;
+}
+
+/**
+ * Whether a base64 `sparkle:dsaSignature` is the key's signature of `data`
+ * the way Sparkle 1 signs archives: DSA with SHA-1 over the SHA-1 digest of
+ * the archive (`openssl dgst -sha1 -binary | openssl dgst -sha1 -sign`).
+ */
+export function verifyDsa(
+  data: Uint8Array,
+  signature: string,
+  key: KeyObject
+): boolean {
+  const digest = createHash("sha1").update(data).digest();
+  const bytes = Buffer.from(signature.replace(/\s/g, ""), "base64");
+  try {
+    return verify("sha1", digest, key, bytes);
+  } catch {
+    // Not a DER-encoded DSA signature
+    return false;
+  }
+}
+
+/**
+ * Whether a base64 `sparkle:edSignature` is the key's signature of `data`.
+ * Malformed signatures (E031) don't verify.
+ */
+export function verifyEd25519(
+  data: Uint8Array,
+  signature: string,
+  key: KeyObject
+): boolean {
+  const bytes = Buffer.from(signature.replace(/\s/g, ""), "base64");
+  return bytes.length === 64 && verify(null, data, key, bytes);
+}
+
+/**
+ * Local path of the archive an enclosure URL serves, from the first
+ * matching artifactMap prefix or else the URL's file name in artifactsDir.
+ * Undefined if neither applies or the path would leave its directory.
+ */
+export function artifactPath(
+  url: string,
+  options: Pick<SignatureVerificationOptions, "artifactsDir" | "artifactMap">
+): string | undefined {
+  for (const [prefix, dir] of Object.entries(options.artifactMap ?? {})) {
+    if (url.startsWith(prefix)) {
+      return pathWithin(dir, url.slice(prefix.length).split(/[?#]/)[0]);
+    }
+  }
+  if (options.artifactsDir === undefined) return undefined;
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+  return pathWithin(options.artifactsDir, basename(pathname));
+}
+
+/** A URL path decoded and resolved in `dir`, unless it escapes `dir` */
+function pathWithin(dir: string, urlPath: string): string | undefined {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    return undefined;
+  }
+  const path = resolve(dir, decoded);
+  const rel = relative(resolve(dir), path);
+  if (rel === "" || rel.startsWith("..") || isAbsolute(rel)) return undefined;
+  return join(dir, rel);
+}
+
+/** The keys to verify with */
+interface VerificationKeys {
+  ed?: KeyObject;
+  dsa?: KeyObject;
+}
+
+/**
+ * Build an async rule that checks each enclosure and delta against its
+ * local archive: the declared length against the file size (E042),
+ * sparkle:edSignature against the Ed25519 key (E041, I013) and
+ * sparkle:dsaSignature against the DSA key (E043, I015). Enclosures with
+ * both signatures of which only one verifies are also reported as W053,
+ * and archives that can't be found as W052. Throws if a key is invalid or
+ * there is none.
+ */
+export function verifySignatures(
+  options: SignatureVerificationOptions
+): AsyncValidationRule {
+  if (options.publicKey === undefined && options.dsaPublicKey === undefined) {
+    throw new Error("Verifying signatures needs an EdDSA or DSA public key");
+  }
+  const keys: VerificationKeys = {
+    ed:
+      options.publicKey !== undefined
+        ? ed25519PublicKey(options.publicKey)
+        : undefined,
+    dsa:
+      options.dsaPublicKey !== undefined
+        ? dsaPublicKey(options.dsaPublicKey)
+        : undefined,
+  };
+  return async (doc, diagnostics) => {
+    for (const enclosure of appcastEnclosures(doc)) {
+      diagnostics.push(...(await verifyEnclosure(enclosure, keys, options)));
+    }
+  };
+}
+
+/** Every item's enclosure and delta enclosures, in document order */
+export function appcastEnclosures(doc: XmlDocument): XmlElement[] {
+  return indexAppcast(doc).items.flatMap((item) => [
+    ...(item.enclosure ? [item.enclosure] : []),
+    ...item.deltaEnclosures,
+  ]);
+}
+
+async function verifyEnclosure(
+  element: XmlElement,
+  keys: VerificationKeys,
+  options: SignatureVerificationOptions
+): Promise<Diagnostic[]> {
+  const url = element.attributes.url?.value;
+  if (!url) return [];
+  const path = elementPath(element);
+  const urlLocation = attributeLocation(element, element.attributes.url);
+
+  const file = artifactPath(url, options);
+  let size: number | undefined;
+  if (file !== undefined) {
+    try {
+      const stats = await stat(file);
+      if (stats.isFile()) size = stats.size;
+    } catch {
+      // Reported below
+    }
+  }
+  if (file === undefined || size === undefined) {
+    return [
+      {
+        id: "W052",
+        severity: "warning",
+        message:
+          file === undefined
+            ? `No local archive is mapped to ${url}`
+            : `Local archive ${file} for ${url} not found`,
+        ...urlLocation,
+        path,
+        fix: "Put the archive in the artifacts directory or map its URL prefix to the directory it is in",
+        data: { url, ...(file !== undefined && { value: file }) },
+      },
+    ];
+  }
+
+  const diagnostics: Diagnostic[] = [];
+
+  // E042: Declared length doesn't match the archive
+  const lengthAttr = element.attributes.length;
+  const declared = Number(lengthAttr?.value);
+  if (lengthAttr && Number.isInteger(declared) && declared !== size) {
+    const edit = replaceAttributeValueEdit(lengthAttr, String(size));
+    diagnostics.push({
+      id: "E042",
+      severity: "error",
+      message: `length is ${declared} bytes, but the local archive ${file} is ${size} bytes`,
+      ...attributeLocation(element, lengthAttr),
+      path,
+      fix: `Update the length attribute to ${size}`,
+      data: { url, declaredLength: declared, actualLength: size },
+      ...(edit && { edits: [edit] }),
+    });
+  }
+
+  // Verify each signature there is a key for; a missing signature is
+  // I010's and W006's concern
+  const edSignature = keys.ed && sparkleAttribute(element, "edSignature");
+  const dsaSignature = keys.dsa && sparkleAttribute(element, "dsaSignature");
+  if (!edSignature && !dsaSignature) return diagnostics;
+  const data = await readFile(file);
+
+  // E041/I013: EdDSA signature
+  let edValid: boolean | undefined;
+  if (keys.ed && edSignature) {
+    edValid = verifyEd25519(data, edSignature.value, keys.ed);
+    const where = attributeLocation(element, edSignature);
+    if (edValid) {
+      diagnostics.push({
+        id: "I013",
+        severity: "info",
+        message: `EdDSA signature verified against ${file}`,
+        ...where,
+        path,
+        data: { url },
+      });
+    } else {
+      diagnostics.push({
+        id: "E041",
+        severity: "error",
+        message: `EdDSA signature does not match the local archive ${file}`,
+        ...where,
+        path,
+        fix: "Sign the archive again with sign_update and the private key matching the public key, and update sparkle:edSignature",
+        data: { url },
+      });
+    }
+  }
+
+  // E043/I015: DSA signature
+  let dsaValid: boolean | undefined;
+  if (keys.dsa && dsaSignature) {
+    dsaValid = verifyDsa(data, dsaSignature.value, keys.dsa);
+    const where = attributeLocation(element, dsaSignature);
+    if (dsaValid) {
+      diagnostics.push({
+        id: "I015",
+        severity: "info",
+        message: `DSA signature verified against ${file}`,
+        ...where,
+        path,
+        data: { url },
+      });
+    } else {
+      diagnostics.push({
+        id: "E043",
+        severity: "error",
+        message: `DSA signature does not match the local archive ${file}`,
+        ...where,
+        path,
+        fix: "Sign the archive again with Sparkle 1's sign_update and the DSA private key matching the public key, and update sparkle:dsaSignature",
+        data: { url },
+      });
+    }
+  }
+
+  // W053: Dual-signed, but only one signature verifies
+  if (edValid !== undefined && dsaValid !== undefined && edValid !== dsaValid) {
+    diagnostics.push({
+      id: "W053",
+      severity: "warning",
+      message: edValid
+        ? "Only the EdDSA signature verifies; Sparkle 1 apps with a DSA key will refuse the update"
+        : "Only the DSA signature verifies; Sparkle 2 checks the EdDSA signature and will refuse the update",
+      ...urlLocation,
+      path,
+      fix: "Sign the same archive with both keys before publishing",
+      data: { url },
+    });
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,188 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+} from "node:crypto";
+import { basename } from "node:path";
+import type { TextEdit, XmlAttribute, XmlElement } from "./types.js";
+import { parseXml } from "./parser.js";
+import { applyEdits } from "./fixes.js";
+import { appcastEnclosures } from "./signatures.js";
+import {
+  insertAttributeEdit,
+  replaceAttributeValueEdit,
+  sparkleAttribute,
+} from "./rules/utils.js";
+
+/** DER header of an Ed25519 PKCS #8 private key; the 32-byte seed follows */
+const ED25519_PKCS8_PREFIX = Buffer.from(
+  "302e020100300506032b657004220420",
+  "hex"
+);
+
+/** An Ed25519 private key loaded from a Sparkle key file */
+export interface Ed25519SigningKey {
+  /** The base64 public key, the app's SUPublicEDKey */
+  publicKey: string;
+  /** Sign data, returning the 64-byte signature */
+  sign(data: Uint8Array): Buffer;
+}
+
+/**
+ * Load a private key in the format of Sparkle's key files (`generate_keys
+ * -x`, `sign_update --ed-key-file`): the base64 32-byte seed. Throws if it
+ * isn't one, including for the 96-byte keys older Sparkle releases kept,
+ * which node:crypto can't sign with.
+ */
+export function ed25519PrivateKey(base64: string): Ed25519SigningKey {
+  const text = base64.trim();
+  const raw = Buffer.from(text, "base64");
+  if (raw.toString("base64") !== text) {
+    throw new Error("Invalid Ed25519 private key: not base64");
+  }
+  if (raw.length === 96) {
+    throw new Error(
+      "Unsupported Ed25519 private key: this is a 96-byte key from an older Sparkle release, which has no seed to sign with. Sign with Sparkle's own sign_update, or generate a new key (sparkle-validator keys generate) and rotate to it"
+    );
+  }
+  if (raw.length !== 32) {
+    throw new Error(
+      `Invalid Ed25519 private key: expected a 32-byte seed, got ${raw.length} bytes`
+    );
+  }
+
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, raw]),
+    format: "der",
+    type: "pkcs8",
+  });
+  const publicKey = createPublicKey(privateKey)
+    .export({ format: "der", type: "spki" })
+    .subarray(-32);
+  return {
+    publicKey: publicKey.toString("base64"),
+    sign: (data) => sign(null, data, privateKey),
+  };
+}
+
+/**
+ * Generate a new private key in the format `generate_keys -x` exports: the
+ * base64 32-byte seed. ed25519PrivateKey() loads it.
+ */
+export function generateEd25519PrivateKey(): string {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  return privateKey
+    .export({ format: "der", type: "pkcs8" })
+    .subarray(ED25519_PKCS8_PREFIX.length)
+    .toString("base64");
+}
+
+/** An archive's signature and size, as sign_update reports them */
+export interface ArchiveSignature {
+  /** Base64 Ed25519 signature, for sparkle:edSignature */
+  edSignature: string;
+  /** Size in bytes, for length */
+  length: number;
+}
+
+/** Sign a release archive's contents */
+export function signArchive(
+  data: Uint8Array,
+  key: Ed25519SigningKey
+): ArchiveSignature {
+  return {
+    edSignature: key.sign(data).toString("base64"),
+    length: data.length,
+  };
+}
+
+/**
+ * The enclosure attributes for a signature, exactly as Sparkle's
+ * sign_update prints them.
+ */
+export function formatArchiveSignature(signature: ArchiveSignature): string {
+  return `sparkle:edSignature="${signature.edSignature}" length="${signature.length}"`;
+}
+
+/** Result of updateEnclosureSignatures() */
+export interface SignatureUpdate {
+  /** The appcast with the new attributes */
+  output: string;
+  /** The enclosures that were updated, in the original appcast */
+  enclosures: XmlElement[];
+}
+
+/**
+ * Set sparkle:edSignature and length on every enclosure and delta whose
+ * URL's file name is `fileName`, adding the attributes where they are
+ * missing. Throws if the appcast isn't well-formed XML.
+ */
+export function updateEnclosureSignatures(
+  xml: string,
+  fileName: string,
+  signature: ArchiveSignature
+): SignatureUpdate {
+  const { document, diagnostics } = parseXml(xml);
+  const error = diagnostics.find((d) => d.severity === "error");
+  if (error) {
+    throw new Error(`The appcast isn't well-formed XML: ${error.message}`);
+  }
+
+  const enclosures = appcastEnclosures(document).filter(
+    (enclosure) => urlFileName(enclosure.attributes.url?.value) === fileName
+  );
+  const edits: TextEdit[] = [];
+  for (const enclosure of enclosures) {
+    const signatureEdit = setAttributeEdit(
+      enclosure,
+      sparkleAttribute(enclosure, "edSignature"),
+      "sparkle:edSignature",
+      signature.edSignature
+    );
+    const lengthEdit = setAttributeEdit(
+      enclosure,
+      enclosure.attributes.length,
+      "length",
+      String(signature.length)
+    );
+    if (!signatureEdit || !lengthEdit) {
+      throw new Error(
+        `Could not locate the attributes of the enclosure on line ${enclosure.line}`
+      );
+    }
+    // Adding both attributes inserts them at the same place
+    if (signatureEdit.start === lengthEdit.start) {
+      edits.push({
+        ...signatureEdit,
+        text: signatureEdit.text + lengthEdit.text,
+      });
+    } else {
+      edits.push(signatureEdit, lengthEdit);
+    }
+  }
+
+  return { output: applyEdits(xml, edits), enclosures };
+}
+
+/** Edit that sets an attribute, replacing its value if it exists */
+function setAttributeEdit(
+  element: XmlElement,
+  attribute: XmlAttribute | undefined,
+  qname: string,
+  value: string
+): TextEdit | undefined {
+  return attribute
+    ? replaceAttributeValueEdit(attribute, value)
+    : insertAttributeEdit(element, qname, value);
+}
+
+/** The decoded last path segment of a URL */
+function urlFileName(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return basename(decodeURIComponent(new URL(url).pathname));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,158 @@
+import { getRuleMeta } from "./catalog.js";
+import type { RuleLookup } from "./catalog.js";
+import {
+  attributeLocation,
+  childElement,
+  elementPath,
+  getItems,
+  location,
+  sparkleAttribute,
+  sparkleChildElement,
+} from "./rules/utils.js";
+import type { Location } from "./rules/utils.js";
+import type { Diagnostic, SparkleVersionRange, XmlDocument } from "./types.js";
+
+/**
+ * Sparkle elements and enclosure attributes that older releases ignore,
+ * with the release that introduced them. Used to report E032 when the
+ * target Sparkle version is older.
+ */
+const ITEM_ELEMENTS: { name: string; since: string }[] = [
+  { name: "channel", since: "2.0" },
+  { name: "criticalUpdate", since: "2.0" },
+  { name: "fullReleaseNotesLink", since: "2.0" },
+  { name: "informationalUpdate", since: "2.0" },
+  { name: "installationType", since: "2.0" },
+  { name: "phasedRolloutInterval", since: "2.0" },
+  { name: "ignoreSkippedUpgradesBelowVersion", since: "2.1" },
+  { name: "hardwareRequirements", since: "2.9" },
+  { name: "minimumUpdateVersion", since: "2.9" },
+];
+
+const ENCLOSURE_ATTRIBUTES: { name: string; since: string }[] = [
+  { name: "edSignature", since: "1.21" },
+  { name: "installationType", since: "2.0" },
+];
+
+const RELEASE_RE = /^\d+(\.\d+)*$/;
+
+/**
+ * Compare two Sparkle release numbers ("2", "2.0", "2.9.1"); missing
+ * components count as 0, so "2" and "2.0" are the same release.
+ */
+function compareReleases(a: string, b: string): number {
+  const partsA = a.split(".").map(Number);
+  const partsB = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Whether a catalog range covers the given Sparkle release.
+ */
+function rangeIncludes(range: SparkleVersionRange, release: string): boolean {
+  if (range.min && compareReleases(release, range.min) < 0) return false;
+  if (range.max && compareReleases(release, range.max) >= 0) return false;
+  return true;
+}
+
+/**
+ * Adjust diagnostics to the Sparkle release an app ships with:
+ * - drop diagnostics from rules whose catalog range excludes the release
+ * - report rules as errors from the release their construct stops working
+ *   (`fatal` in the catalog range)
+ * - add E032 for Sparkle elements and attributes newer than the release
+ *
+ * Throws if `sparkleVersion` is not a release number such as "2.6" so a
+ * typo doesn't silently gate nothing.
+ */
+export function applySparkleVersion(
+  doc: XmlDocument,
+  diagnostics: Diagnostic[],
+  sparkleVersion: string,
+  lookup: RuleLookup = getRuleMeta
+): Diagnostic[] {
+  if (!RELEASE_RE.test(sparkleVersion)) {
+    throw new Error(
+      `Invalid sparkleVersion "${sparkleVersion}"; expected a Sparkle release such as 2.6 or 1.27`
+    );
+  }
+
+  const result: Diagnostic[] = [];
+  for (const diag of diagnostics) {
+    const meta = lookup(diag.id);
+    if (!meta) {
+      result.push(diag);
+      continue;
+    }
+    if (!rangeIncludes(meta.sparkle, sparkleVersion)) continue;
+    const { fatal } = meta.sparkle;
+    result.push(
+      fatal &&
+        diag.severity !== "error" &&
+        compareReleases(sparkleVersion, fatal) >= 0
+        ? { ...diag, severity: "error" }
+        : diag
+    );
+  }
+
+  result.push(...checkNewerFeatures(doc, sparkleVersion));
+  return result;
+}
+
+/**
+ * E032: Sparkle elements and attributes the target release does not know.
+ */
+function checkNewerFeatures(
+  doc: XmlDocument,
+  sparkleVersion: string
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const channel = doc.root && childElement(doc.root, "channel");
+  if (!channel) return diagnostics;
+
+  const report = (
+    name: string,
+    since: string,
+    where: Location,
+    path: string
+  ) => {
+    diagnostics.push({
+      id: "E032",
+      severity: "error",
+      message: `${name} requires Sparkle ${since} or later, but the target is Sparkle ${sparkleVersion}`,
+      ...where,
+      path,
+      fix: `Remove ${name}, or raise the target if the app ships with Sparkle ${since} or later`,
+      data: { value: name, sparkleVersion: since },
+    });
+  };
+
+  for (const item of getItems(channel)) {
+    for (const { name, since } of ITEM_ELEMENTS) {
+      const el = sparkleChildElement(item, name);
+      if (el && compareReleases(sparkleVersion, since) < 0) {
+        report(`<sparkle:${name}>`, since, location(el), elementPath(el));
+      }
+    }
+
+    const enclosure = childElement(item, "enclosure");
+    if (!enclosure) continue;
+    for (const { name, since } of ENCLOSURE_ATTRIBUTES) {
+      const attribute = sparkleAttribute(enclosure, name);
+      if (attribute && compareReleases(sparkleVersion, since) < 0) {
+        report(
+          `sparkle:${name}`,
+          since,
+          attributeLocation(enclosure, attribute),
+          elementPath(enclosure)
+        );
+      }
+    }
+  }
+
+  return diagnostics;
+}
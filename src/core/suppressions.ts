@@ -0,0 +1,148 @@
+import { getRuleMeta } from "./catalog.js";
+import type { RuleLookup } from "./catalog.js";
+import { childElements, elementPath, getItems } from "./rules/utils.js";
+import type {
+  Diagnostic,
+  XmlComment,
+  XmlDocument,
+  XmlElement,
+} from "./types.js";
+
+/**
+ * Suppression comments:
+ *
+ *   <!-- sparkle-validator-disable W018 W028 -->
+ *     drops the listed rules for the whole file
+ *
+ *   <!-- sparkle-validator-disable-next-item W006 -->
+ *     drops the listed rules for the next <item> in the document
+ *
+ * With no IDs, every rule is dropped. IDs may be separated by spaces or commas.
+ * Unknown IDs are reported as W047.
+ */
+const DIRECTIVE_RE =
+  /^sparkle-validator-(disable-next-item|disable)(?:\s+([\s\S]*))?$/;
+
+/** A parsed suppression: rule IDs (undefined = all rules) and its scope */
+interface Suppression {
+  /** Rule IDs to drop; undefined drops every rule */
+  ids?: Set<string>;
+  /** Element path of the suppressed item; undefined for file-level */
+  itemPath?: string;
+}
+
+export interface SuppressionResult {
+  /** Diagnostics that were not suppressed */
+  diagnostics: Diagnostic[];
+  /** Number of diagnostics dropped */
+  suppressedCount: number;
+  /** Diagnostics about the suppression comments themselves (W047) */
+  problems: Diagnostic[];
+}
+
+/**
+ * Drop diagnostics matched by suppression comments in the document.
+ * Diagnostics about suppression comments themselves are returned apart, as
+ * `problems`, so rule settings can still apply to them.
+ */
+export function applySuppressions(
+  doc: XmlDocument,
+  diagnostics: Diagnostic[],
+  lookup: RuleLookup = getRuleMeta
+): SuppressionResult {
+  const problems: Diagnostic[] = [];
+  const suppressions = collectSuppressions(doc, problems, lookup);
+
+  if (suppressions.length === 0) {
+    return { diagnostics, suppressedCount: 0, problems };
+  }
+
+  const kept: Diagnostic[] = [];
+  let suppressedCount = 0;
+  for (const diag of diagnostics) {
+    if (suppressions.some((s) => suppresses(s, diag))) {
+      suppressedCount++;
+    } else {
+      kept.push(diag);
+    }
+  }
+
+  return { diagnostics: kept, suppressedCount, problems };
+}
+
+function suppresses(suppression: Suppression, diag: Diagnostic): boolean {
+  if (suppression.ids && !suppression.ids.has(diag.id)) return false;
+  if (suppression.itemPath === undefined) return true;
+  return (
+    diag.path === suppression.itemPath ||
+    (diag.path?.startsWith(`${suppression.itemPath} > `) ?? false)
+  );
+}
+
+function collectSuppressions(
+  doc: XmlDocument,
+  problems: Diagnostic[],
+  lookup: RuleLookup
+): Suppression[] {
+  const suppressions: Suppression[] = [];
+  let items: XmlElement[] | undefined;
+
+  for (const comment of doc.comments) {
+    const match = DIRECTIVE_RE.exec(comment.text.trim());
+    if (!match) continue;
+
+    const ids = parseIds(match[2], comment, problems, lookup);
+
+    if (match[1] === "disable") {
+      suppressions.push({ ids });
+      continue;
+    }
+
+    items ??= allItems(doc);
+    const next = items.find((item) => isAfter(item, comment));
+    if (next) {
+      suppressions.push({ ids, itemPath: elementPath(next) });
+    }
+  }
+
+  return suppressions;
+}
+
+function parseIds(
+  list: string | undefined,
+  comment: XmlComment,
+  problems: Diagnostic[],
+  lookup: RuleLookup
+): Set<string> | undefined {
+  const ids = (list ?? "").split(/[\s,]+/).filter((id) => id.length > 0);
+  if (ids.length === 0) return undefined;
+
+  for (const id of ids) {
+    if (!lookup(id)) {
+      problems.push({
+        id: "W047",
+        severity: "warning",
+        message: `Suppression comment names unknown rule ID "${id}"`,
+        line: comment.line,
+        column: comment.column,
+        range: comment.range,
+        fix: "Check the rule ID against the list of validation rules",
+        data: { value: id },
+      });
+    }
+  }
+  return new Set(ids);
+}
+
+/** Every <item> in every channel, in document order */
+function allItems(doc: XmlDocument): XmlElement[] {
+  if (!doc.root) return [];
+  return childElements(doc.root, "channel").flatMap((channel) =>
+    getItems(channel)
+  );
+}
+
+/** Whether an element starts after the end of a comment */
+function isAfter(element: XmlElement, comment: XmlComment): boolean {
+  return element.range.start.offset >= comment.range.end.offset;
+}
@@ -1,3 +1,6 @@
+import type { ParseLimits } from "./parser.js";
+import type { Plugin } from "./plugins.js";
+
 /** Severity of a diagnostic message */
 export type Severity = "error" | "warning" | "info";
 
@@ -13,10 +16,235 @@ export interface Diagnostic {
   line?: number;
   /** Column number (1-based), if available */
   column?: number;
+  /** Exact span of the offending source text, if available */
+  range?: SourceRange;
   /** Element path, e.g. "rss > channel > item[2] > enclosure" */
   path?: string;
   /** Optional suggestion for how to fix the issue */
   fix?: string;
+  /** Machine-applicable edits that fix the issue, applied together */
+  edits?: TextEdit[];
+  /** Other occurrences folded into this diagnostic by consolidation */
+  relatedLocations?: RelatedLocation[];
+  /** The values behind the message, for programmatic use */
+  data?: DiagnosticData;
+}
+
+/**
+ * Structured values carried by a diagnostic. Each rule sets the fields that
+ * apply to it; see RULES.md.
+ */
+export interface DiagnosticData {
+  /** The offending value as written in the appcast */
+  value?: string;
+  /** The offending values, when there are several */
+  values?: string[];
+  /** The value the rule expected instead */
+  expected?: string;
+  /** Values the rule accepts, when there are several */
+  allowed?: string[];
+  /** The value `value` or `version` was compared against */
+  compareTo?: string;
+  /** Item version (sparkle:version or deduced) */
+  version?: string;
+  /** URL the diagnostic is about */
+  url?: string;
+  /** Where `url` redirects to */
+  redirectUrl?: string;
+  /** Length declared in the enclosure's length attribute, in bytes */
+  declaredLength?: number;
+  /** Length reported by the server, in bytes */
+  actualLength?: number;
+  /** HTTP status code */
+  status?: number;
+  /** Why a check failed or was skipped */
+  reason?: string;
+  /** Number of occurrences the message counts */
+  count?: number;
+  /** Offset in the input bytes, for diagnostics about the raw encoding */
+  byteOffset?: number;
+  /** Sparkle release that introduced the construct */
+  sparkleVersion?: string;
+  /** The parser limit that was reached */
+  limit?: number;
+  /** Hex SHA-256 of a downloaded file */
+  sha256?: string;
+}
+
+/** Where another occurrence of a consolidated diagnostic was found */
+export interface RelatedLocation {
+  /** Line number (1-based), if available */
+  line?: number;
+  /** Column number (1-based), if available */
+  column?: number;
+  /** Exact span of the occurrence, if available */
+  range?: SourceRange;
+  /** Element path, e.g. "rss > channel > item[2] > enclosure" */
+  path?: string;
+}
+
+/** A point in the source XML */
+export interface SourcePosition {
+  /** Line (1-based) */
+  line: number;
+  /** Column (1-based) */
+  column: number;
+  /** 0-based string index */
+  offset: number;
+}
+
+/** A span of the source XML; `end` is exclusive */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * A replacement of `xml.slice(start, end)` with `text` in the original XML.
+ * Offsets are 0-based string indices; `end` is exclusive.
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Area of the appcast a rule inspects */
+export type RuleCategory =
+  | "xml"
+  | "structure"
+  | "version"
+  | "enclosure"
+  | "deltas"
+  | "signatures"
+  | "dates"
+  | "urls"
+  | "system-requirements"
+  | "release-notes"
+  | "channels"
+  | "rollout"
+  | "best-practices"
+  | "info"
+  | "remote"
+  | "plugin";
+
+/**
+ * Range of Sparkle releases a rule applies to.
+ * `min` is inclusive, `max` is exclusive; an omitted bound is open.
+ */
+export interface SparkleVersionRange {
+  min?: string;
+  max?: string;
+  /**
+   * Release from which Sparkle rejects the construct the rule flags; when
+   * validating for it or later (`sparkleVersion`), the rule is an error
+   */
+  fatal?: string;
+}
+
+/** Catalog entry describing a single rule ID */
+export interface RuleMeta {
+  /** Rule identifier, e.g. "E001", "W003", "I002" */
+  id: string;
+  /** Severity the rule reports by default */
+  severity: Severity;
+  /** Area of the appcast the rule inspects */
+  category: RuleCategory;
+  /** Short one-line summary */
+  title: string;
+  /** Longer explanation of what the rule checks and why it matters */
+  description: string;
+  /** Sparkle releases the rule applies to */
+  sparkle: SparkleVersionRange;
+  /** Fields of `Diagnostic.data` the rule sets */
+  data?: Array<keyof DiagnosticData>;
+  /** Link to the rule's documentation; plugin rules may have none */
+  docsUrl?: string;
+}
+
+/** Per-rule setting: "off" disables the rule, a severity overrides its default */
+export type RuleSetting = "off" | Severity;
+
+/**
+ * Identifies an <item> by what it publishes rather than by its position, so
+ * baseline entries survive new items being added above it.
+ */
+export interface BaselineItem {
+  /** sparkle:version (element or enclosure attribute) */
+  version?: string;
+  /** sparkle:channel */
+  channel?: string;
+  /** sparkle:os on the enclosure */
+  os?: string;
+  /** <title>, only used when the item has no version */
+  title?: string;
+}
+
+/** A diagnostic recorded in a baseline */
+export interface BaselineEntry {
+  /** Rule ID */
+  id: string;
+  /** The item the diagnostic is in, if any */
+  item?: BaselineItem;
+  /**
+   * Element path below the item (e.g. "enclosure", "" for the item itself),
+   * or the full path for diagnostics outside any item
+   */
+  path: string;
+  /** Message when the baseline was written; informational, not matched */
+  message: string;
+}
+
+/** Contents of a baseline file */
+export interface Baseline {
+  version: number;
+  entries: BaselineEntry[];
+}
+
+/** How a validation run compared against a baseline */
+export interface BaselineSummary {
+  /** Number of diagnostics matched by the baseline */
+  matchedCount: number;
+  /** Baseline entries that no longer occur */
+  fixed: BaselineEntry[];
+}
+
+/** Options for validate() */
+export interface ValidateOptions {
+  /**
+   * Per-rule settings keyed by rule ID, e.g. `{ I011: "off", W018: "error" }`.
+   * Applied before `valid` and the counts are computed.
+   */
+  rules?: Record<string, RuleSetting>;
+  /**
+   * Collapse repeated diagnostics with the same ID into the first one,
+   * listing the others in `relatedLocations`. Defaults to true; when false,
+   * every occurrence is reported and counted separately.
+   */
+  consolidate?: boolean;
+  /**
+   * Previously recorded diagnostics (see createBaseline()). Matching
+   * diagnostics are left out of the result and its counts.
+   */
+  baseline?: Baseline;
+  /**
+   * Sparkle release the app ships with, e.g. "2.6" or "1.27". Rules that
+   * don't apply to it are skipped, deprecated constructs are reported
+   * according to it, and Sparkle elements it doesn't support are errors
+   * (E032). By default every rule runs.
+   */
+  sparkleVersion?: string;
+  /**
+   * Plugins whose rules run after the built-in rules. Their IDs can be
+   * used in `rules`, suppression comments and baselines like built-in IDs.
+   */
+  plugins?: Plugin[];
+  /**
+   * Override some of the parser's resource limits (DEFAULT_PARSE_LIMITS).
+   * A document that reaches one is reported (E035-E039) and not validated
+   * further.
+   */
+  parseLimits?: Partial<ParseLimits>;
 }
 
 /** Result of validating an appcast XML string */
@@ -31,6 +259,10 @@ export interface ValidationResult {
   warningCount: number;
   /** Count of informational messages */
   infoCount: number;
+  /** Count of diagnostics dropped by suppression comments */
+  suppressedCount: number;
+  /** Comparison against `options.baseline`, if one was given */
+  baseline?: BaselineSummary;
 }
 
 /** Represents a parsed XML element node */
@@ -46,12 +278,16 @@ export interface XmlElement {
   prefix: string;
   /** Attributes as key-value pairs, keyed by qualified name */
   attributes: Record<string, XmlAttribute>;
-  /** Child nodes (elements and text) */
+  /** Child nodes: elements, text, comments and processing instructions */
   children: XmlNode[];
-  /** Start line (1-based) */
+  /** Line of the `<` that opens the element (1-based) */
   line: number;
-  /** Start column (1-based) */
+  /** Column of the `<` that opens the element (1-based) */
   column: number;
+  /** From the `<` of the open tag to the end of the close tag */
+  range: SourceRange;
+  /** The open tag, `<name ...>` */
+  openTag: SourceRange;
   /** Parent element (undefined for root) */
   parent?: XmlElement;
 }
@@ -68,6 +304,10 @@ export interface XmlAttribute {
   prefix: string;
   /** Attribute value */
   value: string;
+  /** From the attribute name to the closing quote, if it could be located */
+  range?: SourceRange;
+  /** The raw value between the quotes, if it could be located */
+  valueRange?: SourceRange;
 }
 
 /** A text node */
@@ -75,14 +315,97 @@ export interface XmlText {
   type: "text";
   /** Text content */
   text: string;
+  /** Whether the text came from a CDATA section */
+  cdata?: boolean;
+  /** Line (1-based) */
+  line: number;
+  /** Column (1-based) */
+  column: number;
+  /**
+   * Source span of the raw text without surrounding whitespace, or of the
+   * whole CDATA section including its delimiters
+   */
+  range: SourceRange;
+}
+
+/** A comment anywhere in the document */
+export interface XmlComment {
+  type: "comment";
+  /** Comment text, without the `<!--` and `-->` delimiters */
+  text: string;
+  /** Line (1-based) */
+  line: number;
+  /** Column (1-based) */
+  column: number;
+  /** From `<!--` through `-->` */
+  range: SourceRange;
+}
+
+/** A processing instruction, e.g. `<?xml-stylesheet href="a.xsl"?>` */
+export interface XmlProcessingInstruction {
+  type: "processingInstruction";
+  /** Target, e.g. "xml-stylesheet" */
+  target: string;
+  /** Everything after the target, without the `?>` */
+  body: string;
+  /** Line (1-based) */
+  line: number;
+  /** Column (1-based) */
+  column: number;
+  /** From `<?` through `?>` */
+  range: SourceRange;
+}
+
+/** The `<!DOCTYPE ...>` declaration */
+export interface XmlDoctype {
+  type: "doctype";
+  /**
+   * Everything between `<!DOCTYPE` and the final `>`, including the root
+   * name and any internal subset (`[...]`)
+   */
+  text: string;
+  /** Root element name the DOCTYPE declares */
+  name: string;
+  /** PUBLIC identifier of the external DTD subset */
+  publicId?: string;
+  /** SYSTEM identifier (URI) of the external DTD subset */
+  systemId?: string;
+  /** `<!ENTITY>` declarations in the internal subset, in order */
+  entities: XmlEntityDeclaration[];
   /** Line (1-based) */
   line: number;
   /** Column (1-based) */
   column: number;
+  /** From `<!DOCTYPE` through the final `>` */
+  range: SourceRange;
+}
+
+/** An `<!ENTITY ...>` declaration in the DOCTYPE's internal subset */
+export interface XmlEntityDeclaration {
+  name: string;
+  /** Parameter entity (`<!ENTITY % name ...>`), used within the DTD itself */
+  parameter: boolean;
+  /** Replacement text of an internal entity */
+  value?: string;
+  /** PUBLIC identifier of an external entity */
+  publicId?: string;
+  /** SYSTEM identifier (URI) of an external entity */
+  systemId?: string;
+  /** Line (1-based) */
+  line: number;
+  /** Column (1-based) */
+  column: number;
+  /** From `<!ENTITY` through the closing `>` */
+  range: SourceRange;
 }
 
 /** Union type for any XML node */
-export type XmlNode = XmlElement | XmlText;
+export type XmlNode =
+  | XmlElement
+  | XmlText
+  | XmlComment
+  | XmlProcessingInstruction
+  | XmlDoctype;
 
 /** Parsed XML document */
 export interface XmlDocument {
@@ -90,10 +413,19 @@ export interface XmlDocument {
   root?: XmlElement;
   /** All namespace declarations found (prefix -> URI) */
   namespaces: Record<string, string>;
+  /** All comments, in document order */
+  comments: XmlComment[];
+  /**
+   * Nodes outside any element, in document order: the DOCTYPE, comments
+   * and processing instructions around the root, and the root itself
+   */
+  children: XmlNode[];
+  /** The DOCTYPE declaration, if any */
+  doctype?: XmlDoctype;
 }
 
-/** A validation rule function */
-export type ValidationRule = (
+/** A validation rule that needs to wait, e.g. for network requests */
+export type AsyncValidationRule = (
   doc: XmlDocument,
   diagnostics: Diagnostic[]
-) => void;
+) => Promise<void>;
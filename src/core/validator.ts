@@ -1,12 +1,72 @@
 import { parseXml } from "./parser.js";
+import { decodeXml } from "./encoding.js";
 import { allRules } from "./rules/index.js";
+import { indexAppcast } from "./rules/context.js";
+import { runRule } from "./rules/define.js";
 import { xmlFormatRules } from "./rules/xml-format.js";
-import type { Diagnostic, ValidationResult } from "./types.js";
+import { doctypeRules } from "./rules/doctype.js";
+import type { RuleLookup } from "./catalog.js";
+import { pluginRuleLookup } from "./plugins.js";
+import { applySuppressions } from "./suppressions.js";
+import { applyBaseline } from "./baseline.js";
+import { applySparkleVersion } from "./sparkle-version.js";
+import { validateRemote } from "./remote.js";
+import type { RemoteValidationOptions } from "./remote.js";
+import type {
+  AsyncValidationRule,
+  Diagnostic,
+  RuleSetting,
+  ValidateOptions,
+  ValidationResult,
+  XmlDocument,
+} from "./types.js";
+
+const RULE_SETTINGS: readonly RuleSetting[] = [
+  "off",
+  "error",
+  "warning",
+  "info",
+];
+
+/**
+ * Apply per-rule settings: drop diagnostics for rules turned "off" and
+ * rewrite the severity of overridden rules.
+ * Throws on unknown rule IDs or settings so typos don't silently do nothing.
+ */
+function applyRuleSettings(
+  diagnostics: Diagnostic[],
+  rules: Record<string, RuleSetting>,
+  lookup: RuleLookup
+): Diagnostic[] {
+  for (const [id, setting] of Object.entries(rules)) {
+    if (!lookup(id)) {
+      throw new Error(`Unknown rule ID "${id}" in rules option`);
+    }
+    if (!RULE_SETTINGS.includes(setting)) {
+      throw new Error(
+        `Invalid setting "${setting}" for rule ${id}; expected one of ${RULE_SETTINGS.join(", ")}`
+      );
+    }
+  }
+
+  const result: Diagnostic[] = [];
+  for (const diag of diagnostics) {
+    const setting = rules[diag.id];
+    if (setting === "off") continue;
+    result.push(
+      setting && setting !== diag.severity
+        ? { ...diag, severity: setting }
+        : diag
+    );
+  }
+  return result;
+}
 
 /**
  * Consolidate multiple diagnostics of the same type into single entries.
  * This prevents a "blitz" of repeated warnings/errors for the same issue.
- * The first occurrence is kept, with its message updated to show count.
+ * The first occurrence is kept, with its message updated to show count and
+ * the other occurrences listed in relatedLocations.
  */
 function consolidateDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
   // Group diagnostics by ID
@@ -27,6 +87,15 @@ function consolidateDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
       const first = { ...group[0] };
       const count = group.length;
       first.message = `${first.message} (and ${count - 1} more similar issue${count > 2 ? "s" : ""})`;
+      first.relatedLocations = group.slice(1).map((d) => ({
+        ...(d.line !== undefined && { line: d.line }),
+        ...(d.column !== undefined && { column: d.column }),
+        ...(d.range && { range: d.range }),
+        ...(d.path && { path: d.path }),
+      }));
+      // Keep every occurrence's edits so applyFixes() fixes all of them
+      const edits = group.flatMap((d) => d.edits ?? []);
+      if (edits.length > 0) first.edits = edits;
       consolidated.push(first);
     }
   }
@@ -34,33 +103,68 @@ function consolidateDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
   return consolidated;
 }
 
+/** Options for validateAsync() */
+export interface ValidateAsyncOptions extends ValidateOptions {
+  /**
+   * Check that enclosure URLs exist and their sizes match (see
+   * validateRemote()). Pass options to tune timeouts and concurrency.
+   */
+  remote?: boolean | RemoteValidationOptions;
+  /** Extra asynchronous rules, run after the built-in rules */
+  asyncRules?: AsyncValidationRule[];
+}
+
 /**
- * Validate an appcast XML string.
- *
- * @param xml - The raw XML string to validate
- * @returns A ValidationResult with all diagnostics
+ * Decode the input if it is bytes, parse the XML and run the synchronous
+ * rules, the plugins' rules after the built-in ones.
  */
-export function validate(xml: string): ValidationResult {
+function runRules(
+  input: string | Uint8Array,
+  options: ValidateOptions,
+  lookup: RuleLookup
+): {
+  document: XmlDocument;
+  diagnostics: Diagnostic[];
+} {
   const diagnostics: Diagnostic[] = [];
 
+  // Step 0: Decode bytes, checking the encoding (E033/E034)
+  let xml: string;
+  if (typeof input === "string") {
+    xml = input;
+  } else {
+    const decoded = decodeXml(input);
+    xml = decoded.xml;
+    diagnostics.push(...decoded.diagnostics);
+  }
+
   // Step 1: Parse the XML
-  const { document, diagnostics: parseDiags } = parseXml(xml);
+  const {
+    document,
+    diagnostics: parseDiags,
+    truncated,
+  } = parseXml(xml, { limits: options.parseLimits });
   diagnostics.push(...parseDiags);
 
-  // If parsing produced fatal errors (no root element), still run
-  // structural rules to give a useful error like E002
+  // Rules can't run without a root element, nor make sense of a document
+  // a parser limit cut short (E035-E039)
   const hasFatalParseError =
-    parseDiags.some((d) => d.severity === "error") && !document.root;
+    (parseDiags.some((d) => d.severity === "error") && !document.root) ||
+    truncated;
 
   if (!hasFatalParseError) {
-    // Step 2: Run all validation rules
-    for (const rule of allRules) {
-      rule(document, diagnostics);
+    // Step 2: Run all validation rules against one shared index of the
+    // channel and items
+    const source = { doc: document, xml, index: indexAppcast(document) };
+    const plugins = options.plugins ?? [];
+    const rules = [...allRules, ...plugins.flatMap((plugin) => plugin.rules)];
+    for (const rule of rules) {
+      runRule(rule, source, diagnostics, lookup);
 
       // If structural errors were found (E002-E007), skip deeper rules
       // since they require a valid RSS/channel/item structure
       if (
-        rule === allRules[0] &&
+        rule === rules[0] &&
         diagnostics.some(
           (d) =>
             d.severity === "error" &&
@@ -74,12 +178,65 @@ export function validate(xml: string): ValidationResult {
       }
     }
 
-    // Step 3: Run XML format rules (require raw XML string)
-    xmlFormatRules(document, diagnostics, xml);
+    // Step 3: Run XML format rules (require raw XML string), and the
+    // DOCTYPE rules, which matter however broken the structure is
+    runRule(xmlFormatRules, source, diagnostics);
+    runRule(doctypeRules, source, diagnostics);
   }
 
-  // Step 4: Consolidate duplicate diagnostics
-  const consolidatedDiagnostics = consolidateDiagnostics(diagnostics);
+  return { document, diagnostics };
+}
+
+/**
+ * Turn the raw diagnostics from every stage into a ValidationResult:
+ * apply the Sparkle version, settings, suppressions and the baseline, then
+ * consolidate, sort and count.
+ */
+function buildResult(
+  document: XmlDocument,
+  rawDiagnostics: Diagnostic[],
+  options: ValidateOptions,
+  lookup: RuleLookup
+): ValidationResult {
+  let diagnostics = rawDiagnostics;
+
+  // Step 4: Gate rules by the target Sparkle release; per-rule settings
+  // below can still override the severities this picks
+  if (options.sparkleVersion !== undefined) {
+    diagnostics = applySparkleVersion(
+      document,
+      diagnostics,
+      options.sparkleVersion,
+      lookup
+    );
+  }
+
+  // Step 5: Apply per-rule settings before anything is counted
+  if (options.rules) {
+    diagnostics = applyRuleSettings(diagnostics, options.rules, lookup);
+  }
+
+  // Step 6: Drop diagnostics silenced by suppression comments, and report
+  // problems with the comments (W047) subject to the same rule settings
+  const suppressed = applySuppressions(document, diagnostics, lookup);
+  diagnostics = [
+    ...suppressed.diagnostics,
+    ...(options.rules
+      ? applyRuleSettings(suppressed.problems, options.rules, lookup)
+      : suppressed.problems),
+  ];
+
+  // Step 7: Drop diagnostics recorded in the baseline
+  const baselined = options.baseline
+    ? applyBaseline(document, diagnostics, options.baseline)
+    : undefined;
+  if (baselined) diagnostics = baselined.diagnostics;
+
+  // Step 8: Consolidate duplicate diagnostics
+  const consolidatedDiagnostics =
+    options.consolidate === false
+      ? diagnostics
+      : consolidateDiagnostics(diagnostics);
 
   // Sort diagnostics: errors first, then warnings, then info
   const severityOrder = { error: 0, warning: 1, info: 2 };
@@ -106,5 +263,57 @@ export function validate(xml: string): ValidationResult {
     errorCount,
     warningCount,
     infoCount,
+    suppressedCount: suppressed.suppressedCount,
+    ...(baselined && {
+      baseline: {
+        matchedCount: baselined.matchedCount,
+        fixed: baselined.fixed,
+      },
+    }),
   };
 }
+
+/**
+ * Validate an appcast.
+ *
+ * @param xml - The XML as a string, or as bytes to also check its encoding
+ * @param options - Per-rule settings, consolidation and baseline
+ * @returns A ValidationResult with all diagnostics
+ */
+export function validate(
+  xml: string | Uint8Array,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const lookup = pluginRuleLookup(options.plugins ?? []);
+  const { document, diagnostics } = runRules(xml, options, lookup);
+  return buildResult(document, diagnostics, options, lookup);
+}
+
+/**
+ * Validate an appcast, including asynchronous stages such as remote URL
+ * checks. The XML is parsed once, and diagnostics from every stage go
+ * through the same settings, suppressions, baseline and consolidation as
+ * validate().
+ *
+ * @param xml - The XML as a string, or as bytes to also check its encoding
+ * @param options - validate() options plus the asynchronous stages to run
+ * @returns A ValidationResult with all diagnostics
+ */
+export async function validateAsync(
+  xml: string | Uint8Array,
+  options: ValidateAsyncOptions = {}
+): Promise<ValidationResult> {
+  const lookup = pluginRuleLookup(options.plugins ?? []);
+  const { document, diagnostics } = runRules(xml, options, lookup);
+
+  if (options.remote) {
+    const remoteOptions = options.remote === true ? {} : options.remote;
+    diagnostics.push(...(await validateRemote(document, remoteOptions)));
+  }
+
+  for (const rule of options.asyncRules ?? []) {
+    await rule(document, diagnostics);
+  }
+
+  return buildResult(document, diagnostics, options, lookup);
+}
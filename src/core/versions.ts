@@ -0,0 +1,105 @@
+/** Kinds of version string segment, as in SUStandardVersionComparator */
+type SegmentType = "number" | "string" | "separator";
+
+/**
+ * Compare two version strings the way Sparkle's SUStandardVersionComparator
+ * does. Returns a negative number if `a` is older than `b`, a positive
+ * number if it is newer, and 0 if they are equal.
+ *
+ * Versions are split into runs of digits, runs of other characters, and
+ * single separators (`.`, whitespace, punctuation), then compared segment by
+ * segment. Numbers compare numerically and strings lexically. Where the
+ * types differ, a number or separator beats a string, so "1.0b2" < "1.0"
+ * and "1.0" < "1.0.1". If one version runs out first, the longer one is
+ * newer unless its next segment is a string, so "1.0" > "1.0rc1".
+ *
+ * @see https://github.com/sparkle-project/Sparkle/blob/2.x/Sparkle/SUStandardVersionComparator.m
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = splitVersion(a);
+  const partsB = splitVersion(b);
+
+  const n = Math.min(partsA.length, partsB.length);
+  for (let i = 0; i < n; i++) {
+    const typeA = segmentType(partsA[i]);
+    const typeB = segmentType(partsB[i]);
+
+    if (typeA === typeB) {
+      if (typeA === "number") {
+        const valueA = numberValue(partsA[i]);
+        const valueB = numberValue(partsB[i]);
+        if (valueA !== valueB) return valueA > valueB ? 1 : -1;
+      } else if (typeA === "string") {
+        if (partsA[i] !== partsB[i]) return partsA[i] > partsB[i] ? 1 : -1;
+      }
+    } else if (typeA !== "string" && typeB === "string") {
+      return 1;
+    } else if (typeA === "string" && typeB !== "string") {
+      return -1;
+    } else {
+      // A number against a separator: the separator loses
+      return typeA === "number" ? 1 : -1;
+    }
+  }
+
+  if (partsA.length === partsB.length) return 0;
+
+  // Equal so far; the longer version wins unless it continues with a string
+  const longerIsA = partsA.length > partsB.length;
+  const next = longerIsA ? partsA[n] : partsB[n];
+  const longerWins = segmentType(next) !== "string";
+  return longerIsA === longerWins ? 1 : -1;
+}
+
+/**
+ * A key that two versions share exactly when compareVersions() finds them
+ * equal, e.g. "1.0-1" and "1.0.1", for looking versions up in a map.
+ */
+export function versionKey(version: string): string {
+  return splitVersion(version)
+    .map((part) => {
+      const type = segmentType(part);
+      if (type === "number") return numberValue(part).toString();
+      return type === "string" ? `"${part}` : ".";
+    })
+    .join("\u0000");
+}
+
+function segmentType(segment: string): SegmentType {
+  const c = segment[0];
+  if (c === ".") return "separator";
+  if (/\p{Nd}/u.test(c)) return "number";
+  if (/\s|\p{P}/u.test(c)) return "separator";
+  return "string";
+}
+
+/** Split a version into digit runs, other runs, and single separators */
+function splitVersion(version: string): string[] {
+  const parts: string[] = [];
+  if (version.length === 0) return parts;
+
+  let current = version[0];
+  let oldType = segmentType(current);
+  for (const c of version.slice(1)) {
+    const newType = segmentType(c);
+    if (newType !== oldType || oldType === "separator") {
+      parts.push(current);
+      current = c;
+    } else {
+      current += c;
+    }
+    oldType = newType;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Largest value of a numeric segment: Sparkle's longLongValue saturates */
+const LLONG_MAX = 9223372036854775807n;
+
+/** Numeric value of a digit run, clamped to LLONG_MAX like Sparkle's */
+function numberValue(segment: string): bigint {
+  if (!/^[0-9]+$/.test(segment)) return 0n;
+  const value = BigInt(segment);
+  return value > LLONG_MAX ? LLONG_MAX : value;
+}
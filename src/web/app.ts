@@ -61,12 +61,13 @@ btnUpload.addEventListener("click", () => {
   const file = fileInput.files?.[0];
   if (!file) return;
 
+  // Validate the raw bytes so encoding problems are reported too
   const reader = new FileReader();
   reader.onload = () => {
-    const xml = reader.result as string;
-    showResults(validate(xml));
+    const bytes = new Uint8Array(reader.result as ArrayBuffer);
+    showResults(validate(bytes));
   };
-  reader.readAsText(file);
+  reader.readAsArrayBuffer(file);
 });
 
 // --- Validate: URL ---
@@ -153,6 +154,9 @@ function showResults(result: ValidationResult): void {
     `${result.warningCount} warning${result.warningCount !== 1 ? "s" : ""}`
   );
   parts.push(`${result.infoCount} info`);
+  if (result.suppressedCount > 0) {
+    parts.push(`${result.suppressedCount} suppressed`);
+  }
   const summary = el("p", "summary", parts.join(", "));
   resultsEl.appendChild(summary);
 
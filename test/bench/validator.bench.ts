@@ -0,0 +1,77 @@
+import { bench, describe } from "vitest";
+import { validate } from "../../src/core/validator.js";
+import { parseXml } from "../../src/core/parser.js";
+import { allRules } from "../../src/core/rules/index.js";
+import { indexAppcast } from "../../src/core/rules/context.js";
+import { runRule } from "../../src/core/rules/define.js";
+
+const SIGNATURE = "A".repeat(86) + "==";
+
+/**
+ * A feed with one item per build, newest first, each with a delta from the
+ * previous build. Every fourth item is on the beta channel.
+ */
+function syntheticFeed(itemCount: number): string {
+  const items: string[] = [];
+  for (let build = itemCount; build > 0; build--) {
+    const date = new Date(Date.UTC(2020, 0, 1) + build * 86_400_000);
+    items.push(`    <item>
+      <title>Version 1.${build}</title>
+      <pubDate>${date.toUTCString().replace("GMT", "+0000")}</pubDate>
+      <sparkle:version>${build}</sparkle:version>
+      <sparkle:shortVersionString>1.${build}</sparkle:shortVersionString>
+      <sparkle:minimumSystemVersion>10.13</sparkle:minimumSystemVersion>
+      ${build % 4 === 0 ? "<sparkle:channel>beta</sparkle:channel>" : ""}
+      <description><![CDATA[<p>Notes for ${build}</p>]]></description>
+      <sparkle:deltas>
+        <enclosure url="https://example.com/App${build}-${build - 1}.delta"
+                   sparkle:deltaFrom="${build - 1}" length="1024"
+                   type="application/octet-stream" sparkle:edSignature="${SIGNATURE}" />
+      </sparkle:deltas>
+      <enclosure url="https://example.com/App_${build}.zip" length="12345678"
+                 type="application/octet-stream" sparkle:edSignature="${SIGNATURE}" />
+    </item>`);
+  }
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel>
+    <title>App</title>
+    <link>https://example.com</link>
+${items.join("\n")}
+  </channel>
+</rss>`;
+}
+
+const ITEM_COUNTS = [100, 600, 2000];
+
+describe("validate", () => {
+  for (const itemCount of ITEM_COUNTS) {
+    const xml = syntheticFeed(itemCount);
+    bench(`${itemCount} items`, () => {
+      validate(xml);
+    });
+  }
+});
+
+for (const itemCount of ITEM_COUNTS) {
+  describe(`rules, ${itemCount} items`, () => {
+    const xml = syntheticFeed(itemCount);
+    const { document } = parseXml(xml);
+
+    bench("shared index", () => {
+      const source = { doc: document, xml, index: indexAppcast(document) };
+      for (const rule of allRules) runRule(rule, source, []);
+    });
+
+    // What every rule walking the document itself costs
+    bench("index per rule", () => {
+      for (const rule of allRules) {
+        runRule(
+          rule,
+          { doc: document, xml, index: indexAppcast(document) },
+          []
+        );
+      }
+    });
+  });
+}
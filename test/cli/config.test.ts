@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  findConfigFile,
+  loadConfig,
+  mergeConfig,
+} from "../../src/cli/config.js";
+import { loadPlugin } from "../../src/cli/plugins.js";
+
+describe("config files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sparkle-validator-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: unknown): string {
+    const path = join(dir, name);
+    writeFileSync(path, JSON.stringify(content));
+    return path;
+  }
+
+  it("finds the nearest config file walking upwards", () => {
+    const path = write(".sparklevalidatorrc", { strict: true });
+    const nested = join(dir, "a", "b");
+    mkdirSync(nested, { recursive: true });
+    expect(findConfigFile(nested)).toBe(path);
+  });
+
+  it("prefers a config file in a closer directory", () => {
+    write(".sparklevalidatorrc", { strict: true });
+    mkdirSync(join(dir, "app"));
+    const closer = write("app/sparkle-validator.config.json", {});
+    expect(findConfigFile(join(dir, "app"))).toBe(closer);
+  });
+
+  it("extends built-in presets", async () => {
+    const path = write(".sparklevalidatorrc", { extends: "strict" });
+    expect(await loadConfig(path)).toEqual({
+      rules: {},
+      strict: true,
+      info: false,
+    });
+  });
+
+  it("lets the config file override its presets", async () => {
+    const path = write(".sparklevalidatorrc", {
+      extends: ["strict", "legacy-sparkle1"],
+      info: true,
+      rules: { W042: "warning", I011: "off" },
+    });
+    const config = await loadConfig(path);
+    expect(config.strict).toBe(true);
+    expect(config.info).toBe(true);
+    expect(config.sparkleVersion).toBe("1.27");
+    expect(config.rules).toEqual({
+      W042: "warning",
+      W043: "off",
+      I011: "off",
+    });
+  });
+
+  it("extends other config files relative to the extending file", async () => {
+    mkdirSync(join(dir, "shared"));
+    write("shared/base.json", { format: "json", timeout: 30000 });
+    const path = write(".sparklevalidatorrc", {
+      extends: "./shared/base.json",
+      timeout: 5000,
+    });
+    expect(await loadConfig(path)).toEqual({ format: "json", timeout: 5000 });
+  });
+
+  it("rejects circular extends", async () => {
+    write("a.json", { extends: "./b.json" });
+    write("b.json", { extends: "./a.json" });
+    await expect(loadConfig(join(dir, "a.json"))).rejects.toThrow(
+      /Circular extends/
+    );
+  });
+
+  it("rejects unknown presets and options", async () => {
+    const preset = write("preset.json", { extends: "nope" });
+    await expect(loadConfig(preset)).rejects.toThrow(/Unknown preset "nope"/);
+    const option = write("option.json", { checkUrl: true });
+    await expect(loadConfig(option)).rejects.toThrow(
+      /Unknown option "checkUrl"/
+    );
+  });
+
+  it("rejects invalid JSON and value types", async () => {
+    writeFileSync(join(dir, "broken.json"), "{ strict: true }");
+    await expect(loadConfig(join(dir, "broken.json"))).rejects.toThrow(
+      /Invalid JSON/
+    );
+    const format = write("format.json", { format: "xml" });
+    await expect(loadConfig(format)).rejects.toThrow(/"format"/);
+    const timeout = write("timeout.json", { timeout: "fast" });
+    await expect(loadConfig(timeout)).rejects.toThrow(/"timeout"/);
+    const target = write("target.json", { sparkleVersion: 2 });
+    await expect(loadConfig(target)).rejects.toThrow(/"sparkleVersion"/);
+  });
+
+  it("merges rules per ID with later values winning", () => {
+    expect(
+      mergeConfig(
+        { strict: true, rules: { W018: "error", I011: "off" } },
+        { strict: false, rules: { W018: "warning" } }
+      )
+    ).toEqual({ strict: false, rules: { W018: "warning", I011: "off" } });
+  });
+});
+
+describe("config plugins", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sparkle-validator-plugins-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Write a plugin module named `name` with a "relaxed" preset */
+  function writePlugin(path: string, name: string): void {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(
+      join(dir, path),
+      `export default {
+  name: ${JSON.stringify(name)},
+  rules: [],
+  catalog: [
+    { id: "${name}/W001", severity: "warning", title: "T", description: "D" },
+  ],
+  presets: {
+    relaxed: { extends: "strict", rules: { "${name}/W001": "off" } },
+  },
+};
+`
+    );
+  }
+
+  function write(name: string, content: unknown): string {
+    const path = join(dir, name);
+    writeFileSync(path, JSON.stringify(content));
+    return path;
+  }
+
+  it("loads plugins relative to the config file and extends their presets", async () => {
+    writePlugin("rules/acme.mjs", "acme");
+    const config = await loadConfig(
+      write(".sparklevalidatorrc", {
+        plugins: ["./rules/acme.mjs"],
+        extends: "acme/relaxed",
+        strict: false,
+      })
+    );
+    expect(config.plugins?.map((p) => p.name)).toEqual(["acme"]);
+    expect(config.rules).toEqual({ "acme/W001": "off" });
+    expect(config.strict).toBe(false);
+    expect(config.info).toBe(false);
+  });
+
+  it("resolves npm packages from the config file's directory", async () => {
+    writePlugin("node_modules/sparkle-acme/index.mjs", "acme");
+    writeFileSync(
+      join(dir, "node_modules/sparkle-acme/package.json"),
+      JSON.stringify({ name: "sparkle-acme", main: "index.mjs" })
+    );
+    const config = await loadConfig(
+      write(".sparklevalidatorrc", { plugins: ["sparkle-acme"] })
+    );
+    expect(config.plugins?.map((p) => p.name)).toEqual(["acme"]);
+  });
+
+  it("resolves packages that only export for import", async () => {
+    writePlugin("node_modules/@acme/sparkle/dist/index.mjs", "acme");
+    writePlugin("node_modules/@acme/sparkle/dist/extra/cdn.mjs", "cdn");
+    writeFileSync(
+      join(dir, "node_modules/@acme/sparkle/package.json"),
+      JSON.stringify({
+        name: "@acme/sparkle",
+        type: "module",
+        exports: {
+          ".": { require: "./missing.cjs", import: "./dist/index.mjs" },
+          "./extra/*": { import: "./dist/extra/*.mjs" },
+        },
+      })
+    );
+    const config = await loadConfig(
+      write(".sparklevalidatorrc", {
+        plugins: ["@acme/sparkle", "@acme/sparkle/extra/cdn"],
+      })
+    );
+    expect(config.plugins?.map((p) => p.name)).toEqual(["acme", "cdn"]);
+    await expect(
+      loadPlugin("@acme/sparkle/dist/index.mjs", dir)
+    ).rejects.toThrow(
+      /Plugin "@acme\/sparkle\/dist\/index.mjs" is not exported for import/
+    );
+  });
+
+  it("extends presets of plugins loaded beforehand", async () => {
+    writePlugin("acme.mjs", "acme");
+    const plugin = await loadPlugin("./acme.mjs", dir);
+    const config = await loadConfig(
+      write(".sparklevalidatorrc", { extends: "acme/relaxed" }),
+      [plugin]
+    );
+    expect(config.plugins).toEqual([plugin]);
+    expect(config.rules).toEqual({ "acme/W001": "off" });
+  });
+
+  it("rejects missing plugins and presets", async () => {
+    writePlugin("acme.mjs", "acme");
+    writeFileSync(join(dir, "empty.mjs"), "export const rules = [];\n");
+    await expect(
+      loadConfig(write("a.json", { plugins: ["sparkle-nope"] }))
+    ).rejects.toThrow(/Plugin "sparkle-nope" not found/);
+    await expect(
+      loadConfig(write("b.json", { plugins: ["./empty.mjs"] }))
+    ).rejects.toThrow(/must export a plugin/);
+    await expect(
+      loadConfig(write("c.json", { extends: "acme/relaxed" }))
+    ).rejects.toThrow(/Unknown plugin "acme" in preset "acme\/relaxed"/);
+    await expect(
+      loadConfig(
+        write("d.json", { plugins: ["./acme.mjs"], extends: "acme/strict" })
+      )
+    ).rejects.toThrow(
+      /Plugin "acme" has no preset "strict"; expected one of relaxed/
+    );
+    await expect(
+      loadConfig(write("e.json", { plugins: "./acme.mjs" }))
+    ).rejects.toThrow(/"plugins" in .* must be an array of strings/);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { fixAppcast } from "../../src/cli/fix.js";
+import { appcastEnclosures } from "../../src/core/signatures.js";
+import { replaceAttributeValueEdit } from "../../src/core/rules/utils.js";
+import type { AsyncValidationRule } from "../../src/core/types.js";
+import { SPARKLE_NS, feed, item } from "../fixtures/appcast.js";
+
+// W007 only shows up once W046 has made the namespace canonical, so this
+// takes two passes
+const XML = feed(item(100, { attributes: ` sparkle:version="100"` }), {
+  namespace: "https://www.andymatuschak.org/xml-namespaces/sparkle",
+});
+
+/** Async rule that reports a wrong length, like E042, and counts its runs */
+function lengthCheck(): { rule: AsyncValidationRule; runs: () => number } {
+  let runs = 0;
+  const rule: AsyncValidationRule = async (doc, diagnostics) => {
+    runs++;
+    for (const enclosure of appcastEnclosures(doc)) {
+      const length = enclosure.attributes.length;
+      const edit = length && replaceAttributeValueEdit(length, "54321");
+      if (length?.value !== "54321" && edit) {
+        diagnostics.push({
+          id: "E042",
+          severity: "error",
+          message: "length is wrong",
+          edits: [edit],
+        });
+      }
+    }
+  };
+  return { rule, runs: () => runs };
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("fixAppcast", () => {
+  it("runs the async rules once, on the fixed text", async () => {
+    const { rule, runs } = lengthCheck();
+    const { output, applied, result } = await fixAppcast(
+      encode(XML),
+      XML,
+      { asyncRules: [rule] },
+      encode
+    );
+
+    expect(runs()).toBe(1);
+    expect(applied.map((d) => d.id)).toEqual(["W046", "W007", "E042"]);
+    expect(output).toContain(`xmlns:sparkle="${SPARKLE_NS}"`);
+    expect(output).not.toContain(`sparkle:version="100"`);
+    expect(output).toContain(`length="54321"`);
+
+    const ids = result.diagnostics.map((d) => d.id);
+    expect(ids).not.toContain("W007");
+    expect(ids).not.toContain("E042");
+    expect(result.valid).toBe(true);
+  });
+
+  it("runs the async rules once when there is nothing to fix", async () => {
+    const { rule, runs } = lengthCheck();
+    const fixed = feed(item(100)).replace('length="12345"', 'length="54321"');
+    const { output, applied } = await fixAppcast(
+      encode(fixed),
+      fixed,
+      { asyncRules: [rule] },
+      encode
+    );
+
+    expect(runs()).toBe(1);
+    expect(applied).toEqual([]);
+    expect(output).toBe(fixed);
+  });
+});
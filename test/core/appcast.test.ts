@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseAppcast } from "../../src/core/appcast.js";
+import { parseXml } from "../../src/core/parser.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = resolve(__dirname, "../fixtures/valid");
+
+function readFixture(name: string): string {
+  return readFileSync(resolve(fixturesDir, name), "utf-8");
+}
+
+const wrap = (items: string) =>
+  `<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel>
+    ${items}
+  </channel>
+</rss>`;
+
+describe("parseAppcast", () => {
+  it("models the channel and its items", () => {
+    const appcast = parseAppcast(readFixture("full-featured.xml"))!;
+    expect(appcast.title).toBe("SuperApp Updates");
+    expect(appcast.language).toBe("en");
+    expect(appcast.items.map((i) => i.version)).toEqual([
+      "3100",
+      "3001",
+      "3000",
+    ]);
+
+    const [latest, critical] = appcast.items;
+    expect(latest).toMatchObject({
+      shortVersionString: "3.1.0",
+      versionSource: "element",
+      minimumSystemVersion: "12.0",
+      phasedRolloutInterval: 86400,
+      criticalUpdate: false,
+      deltas: [],
+    });
+    expect(latest.date?.toISOString()).toBe("2024-01-15T18:00:00.000Z");
+    expect(latest.enclosure).toMatchObject({
+      url: "https://superapp.example.com/releases/SuperApp-3.1.0.dmg",
+      length: 52428800,
+      type: "application/octet-stream",
+    });
+    expect(critical.criticalUpdate).toBe(true);
+  });
+
+  it("falls back to the enclosure attribute and then the filename", () => {
+    const appcast = parseAppcast(
+      wrap(`
+    <item><enclosure url="https://example.com/App_9.zip" sparkle:version="200"/></item>
+    <item><sparkle:version> </sparkle:version><enclosure url="https://example.com/App_1.5.zip"/></item>
+    <item><enclosure url="https://example.com/App.zip"/></item>`)
+    )!;
+    expect(appcast.items.map((i) => [i.version, i.versionSource])).toEqual([
+      ["200", "enclosure"],
+      ["1.5", "filename"],
+      [undefined, undefined],
+    ]);
+  });
+
+  it("models delta enclosures and requirements", () => {
+    const appcast = parseAppcast(
+      wrap(`
+    <item>
+      <sparkle:version>300</sparkle:version>
+      <sparkle:hardwareRequirements>arm64, x86_64</sparkle:hardwareRequirements>
+      <sparkle:informationalUpdate>
+        <sparkle:belowVersion>200</sparkle:belowVersion>
+      </sparkle:informationalUpdate>
+      <enclosure url="https://example.com/a.zip" length="x" sparkle:os="macos"/>
+      <sparkle:deltas>
+        <enclosure url="https://example.com/a-200.delta" length="10" sparkle:deltaFrom="200"/>
+      </sparkle:deltas>
+    </item>`)
+    )!;
+    const [item] = appcast.items;
+    expect(item.hardwareRequirements).toEqual(["arm64", "x86_64"]);
+    expect(item.informationalUpdate).toBe(true);
+    expect(item.informationalUpdateBelowVersions).toEqual(["200"]);
+    expect(item.os).toBe("macos");
+    expect(item.enclosure?.length).toBeUndefined();
+    expect(item.deltas).toHaveLength(1);
+    expect(item.deltas[0]).toMatchObject({
+      url: "https://example.com/a-200.delta",
+      length: 10,
+      deltaFrom: "200",
+    });
+  });
+
+  it("keeps references to the source elements and ranges", () => {
+    const xml = readFixture("minimal.xml");
+    const { document } = parseXml(xml);
+    const appcast = parseAppcast(document)!;
+    const item = appcast.items[0];
+    expect(item.element.parent).toBe(appcast.element);
+    const { start, end } = item.enclosure!.range;
+    expect(xml.slice(start.offset, end.offset)).toMatch(/^<enclosure /);
+  });
+
+  it("returns undefined without <rss><channel>", () => {
+    expect(parseAppcast(`<feed/>`)).toBeUndefined();
+    expect(parseAppcast(`<rss version="2.0"/>`)).toBeUndefined();
+  });
+});
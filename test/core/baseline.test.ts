@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyBaseline,
+  checkBaseline,
+  createBaseline,
+} from "../../src/core/baseline.js";
+import { parseXml } from "../../src/core/parser.js";
+import { validate } from "../../src/core/validator.js";
+import {
+  DSA_SIGNATURE,
+  ED_SIGNATURE,
+  feed,
+  item,
+} from "../fixtures/appcast.js";
+
+const ED = { signature: ED_SIGNATURE };
+const DSA = { signature: DSA_SIGNATURE };
+
+function baselineOf(xml: string) {
+  const { diagnostics } = validate(xml, { consolidate: false });
+  return createBaseline(parseXml(xml).document, diagnostics);
+}
+
+function check(xml: string, baseline: ReturnType<typeof baselineOf>) {
+  const { diagnostics } = validate(xml, { consolidate: false });
+  return applyBaseline(parseXml(xml).document, diagnostics, baseline);
+}
+
+describe("baseline", () => {
+  const LEGACY = feed(item(200, DSA) + item(100, DSA));
+
+  it("keys item diagnostics on the item's identity, not its position", () => {
+    const baseline = baselineOf(LEGACY);
+    const w006 = baseline.entries.filter((e) => e.id === "W006");
+    expect(w006).toEqual([
+      expect.objectContaining({ item: { version: "200" }, path: "enclosure" }),
+      expect.objectContaining({ item: { version: "100" }, path: "enclosure" }),
+    ]);
+  });
+
+  it("matches everything in an unchanged feed", () => {
+    const baseline = baselineOf(LEGACY);
+    const result = check(LEGACY, baseline);
+    expect(result.diagnostics).toHaveLength(0);
+    expect(result.matchedCount).toBe(baseline.entries.length);
+    expect(result.fixed).toHaveLength(0);
+  });
+
+  it("still matches after a new item is added above", () => {
+    const baseline = baselineOf(LEGACY);
+    const result = check(
+      feed(item(300, ED) + item(200, DSA) + item(100, DSA)),
+      baseline
+    );
+    expect(result.diagnostics.map((d) => d.id)).not.toContain("W006");
+  });
+
+  it("reports new diagnostics", () => {
+    const baseline = baselineOf(LEGACY);
+    const result = check(
+      feed(item(300, DSA) + item(200, DSA) + item(100, DSA)),
+      baseline
+    );
+    const w006 = result.diagnostics.filter((d) => d.id === "W006");
+    expect(w006).toHaveLength(1);
+    expect(w006[0].path).toBe("rss > channel > item[1] > enclosure");
+  });
+
+  it("distinguishes items by channel", () => {
+    const baseline = baselineOf(feed(item(100, DSA)));
+    const result = check(
+      feed(
+        item(100, {
+          ...DSA,
+          content: "<sparkle:channel>beta</sparkle:channel>",
+        })
+      ),
+      baseline
+    );
+    expect(result.diagnostics.map((d) => d.id)).toContain("W006");
+    expect(result.fixed.map((e) => e.id)).toContain("W006");
+  });
+
+  it("lists baseline entries that have been fixed", () => {
+    const baseline = baselineOf(LEGACY);
+    const result = check(feed(item(200, ED) + item(100, DSA)), baseline);
+    expect(result.fixed).toEqual([
+      expect.objectContaining({
+        id: "W006",
+        item: { version: "200" },
+        path: "enclosure",
+      }),
+    ]);
+  });
+
+  it("is applied by validate() before counting", () => {
+    const baseline = baselineOf(LEGACY);
+    const xml = feed(item(300, DSA) + item(200, ED) + item(100, DSA));
+    const result = validate(xml, { baseline });
+    const w006 = result.diagnostics.find((d) => d.id === "W006");
+    expect(w006?.path).toBe("rss > channel > item[1] > enclosure");
+    expect(w006?.relatedLocations).toBeUndefined();
+    expect(result.baseline?.fixed.map((e) => e.item)).toEqual([
+      { version: "200" },
+    ]);
+    expect(validate(xml).baseline).toBeUndefined();
+  });
+
+  it("checks the shape of baseline files", () => {
+    expect(() => checkBaseline([])).toThrow(/entries array/);
+    expect(() => checkBaseline({ version: 2, entries: [] })).toThrow(
+      /Unsupported baseline version 2/
+    );
+    expect(() => checkBaseline({ version: 1, entries: [{ id: 1 }] })).toThrow(
+      /string id and path/
+    );
+    const baseline = baselineOf(LEGACY);
+    expect(checkBaseline(JSON.parse(JSON.stringify(baseline)))).toEqual(
+      baseline
+    );
+  });
+});
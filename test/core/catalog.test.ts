@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "node:fs";
+import { resolve, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { ruleCatalog, getRuleMeta } from "../../src/core/catalog.js";
+import { validate } from "../../src/core/validator.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const rootDir = resolve(__dirname, "../..");
+const srcDir = resolve(rootDir, "src/core");
+const fixturesDir = resolve(rootDir, "test/fixtures");
+
+/** Collect every rule ID string literal emitted from the core sources */
+function emittedIds(): Set<string> {
+  const files = [
+    ...readdirSync(resolve(srcDir, "rules")).map((f) => join("rules", f)),
+    "downloads.ts",
+    "encoding.ts",
+    "parser.ts",
+    "remote.ts",
+    "signatures.ts",
+    "sparkle-version.ts",
+    "suppressions.ts",
+  ];
+  const ids = new Set<string>();
+  for (const file of files) {
+    const source = readFileSync(resolve(srcDir, file), "utf-8");
+    for (const match of source.matchAll(/"([EWI]\d{3})"/g)) {
+      ids.add(match[1]);
+    }
+  }
+  return ids;
+}
+
+describe("rule catalog", () => {
+  it("has unique IDs", () => {
+    const ids = ruleCatalog.map((r) => r.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("prefixes each ID with its default severity", () => {
+    const prefix = { error: "E", warning: "W", info: "I" };
+    for (const rule of ruleCatalog) {
+      expect(rule.id[0], rule.id).toBe(prefix[rule.severity]);
+    }
+  });
+
+  it("gives every entry a title, description and docs URL", () => {
+    for (const rule of ruleCatalog) {
+      expect(rule.title, rule.id).not.toBe("");
+      expect(rule.description, rule.id).not.toBe("");
+      expect(rule.docsUrl).toContain(`#${rule.id.toLowerCase()}`);
+    }
+  });
+
+  it("covers every rule ID referenced by the validator sources", () => {
+    for (const id of emittedIds()) {
+      expect(getRuleMeta(id), id).toBeDefined();
+    }
+  });
+
+  it("documents every rule in RULES.md", () => {
+    const doc = readFileSync(resolve(rootDir, "RULES.md"), "utf-8");
+    for (const rule of ruleCatalog) {
+      expect(doc, rule.id).toContain(`### ${rule.id}\n`);
+    }
+  });
+
+  it("matches emitted severities and data for every fixture diagnostic", () => {
+    for (const category of ["valid", "invalid"]) {
+      const dir = resolve(fixturesDir, category);
+      for (const file of readdirSync(dir).filter((f) => f.endsWith(".xml"))) {
+        const result = validate(readFileSync(resolve(dir, file), "utf-8"));
+        for (const d of result.diagnostics) {
+          const meta = getRuleMeta(d.id);
+          expect(meta, `${file}: ${d.id}`).toBeDefined();
+          expect(d.severity, `${file}: ${d.id}`).toBe(meta!.severity);
+          for (const key of Object.keys(d.data ?? {})) {
+            expect(meta!.data, `${file}: ${d.id}`).toContain(key);
+          }
+        }
+      }
+    }
+  });
+});
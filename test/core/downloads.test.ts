@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHash, generateKeyPairSync, sign } from "node:crypto";
+import { validateAsync } from "../../src/core/validator.js";
+import { verifyDownloads } from "../../src/core/downloads.js";
+import type { DownloadVerificationOptions } from "../../src/core/downloads.js";
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const PUBLIC_KEY = publicKey
+  .export({ format: "der", type: "spki" })
+  .subarray(-32)
+  .toString("base64");
+
+// Several chunks' worth, so the archive streams in pieces
+const APP = Buffer.alloc(256 * 1024, "sparkle");
+const SIGNATURE = sign(null, APP, privateKey).toString("base64");
+
+/** Stand-in for a CDN: serves APP, a stale copy, a cut-off copy and 404s */
+function serve(request: IncomingMessage, response: ServerResponse) {
+  switch (request.url) {
+    case "/App.zip":
+    case "/slow/App.zip":
+      response.writeHead(200, { "Content-Length": APP.length });
+      response.end(APP);
+      return;
+    case "/stale/App.zip": {
+      // Same size, different bytes: HEAD requests can't tell
+      const stale = Buffer.from(APP);
+      stale[0] ^= 1;
+      response.writeHead(200, { "Content-Length": stale.length });
+      response.end(stale);
+      return;
+    }
+    case "/cut/App.zip":
+      response.writeHead(200, { "Content-Length": APP.length });
+      response.write(APP.subarray(0, 1000));
+      response.destroy();
+      return;
+    default:
+      response.writeHead(404);
+      response.end();
+  }
+}
+
+function feed(urls: string[], length = APP.length): string {
+  const items = urls
+    .map(
+      (url, i) => `
+    <item>
+      <title>Version ${i + 1}</title>
+      <sparkle:version>${i + 1}</sparkle:version>
+      <enclosure url="${url}" length="${length}" type="application/octet-stream"
+                 sparkle:edSignature="${SIGNATURE}" />
+    </item>`
+    )
+    .join("");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel>
+    <title>App</title>${items}
+  </channel>
+</rss>`;
+}
+
+describe("download verification", () => {
+  let server: Server;
+  let base: string;
+  let active = 0;
+  let maxActive = 0;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      response.on("close", () => active--);
+      if (request.url?.startsWith("/slow/")) {
+        setTimeout(() => serve(request, response), 20);
+      } else {
+        serve(request, response);
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function verify(
+    xml: string,
+    options: DownloadVerificationOptions = { publicKey: PUBLIC_KEY }
+  ) {
+    const result = await validateAsync(xml, {
+      consolidate: false,
+      asyncRules: [
+        verifyDownloads({ allowPrivateHosts: true, timeout: 5000, ...options }),
+      ],
+    });
+    return result.diagnostics.filter((d) =>
+      ["E027", "E028", "E041", "I013", "I014", "W023"].includes(d.id)
+    );
+  }
+
+  it("verifies the size, SHA-256 and signature of a download", async () => {
+    const diagnostics = await verify(feed([`${base}/App.zip`]));
+    expect(diagnostics.map((d) => d.id)).toEqual(["I014", "I013"]);
+    expect(diagnostics[0].data).toEqual({
+      url: `${base}/App.zip`,
+      actualLength: APP.length,
+      sha256: createHash("sha256").update(APP).digest("hex"),
+    });
+  });
+
+  it("reports a stale archive whose signature doesn't verify (E041)", async () => {
+    const diagnostics = await verify(feed([`${base}/stale/App.zip`]));
+    expect(diagnostics.map((d) => d.id)).toEqual(["E041", "I014"]);
+  });
+
+  it("reports a byte count that differs from length (E028)", async () => {
+    const diagnostics = await verify(feed([`${base}/App.zip`], 1234), {});
+    expect(diagnostics.map((d) => d.id)).toEqual(["E028", "I014"]);
+    expect(diagnostics[0].data).toMatchObject({
+      declaredLength: 1234,
+      actualLength: APP.length,
+    });
+  });
+
+  it("reports downloads that fail or are cut short (E027)", async () => {
+    const diagnostics = await verify(
+      feed([`${base}/missing.zip`, `${base}/cut/App.zip`])
+    );
+    expect(diagnostics.map((d) => d.id)).toEqual(["E027", "E027"]);
+    expect(diagnostics[0].data).toMatchObject({ status: 404 });
+    expect(diagnostics[1].message).toContain("Failed to download URL");
+  });
+
+  it("skips private URLs unless allowed (W023)", async () => {
+    const diagnostics = await verify(feed([`${base}/App.zip`]), {
+      allowPrivateHosts: false,
+    });
+    expect(diagnostics.map((d) => d.id)).toEqual(["W023"]);
+  });
+
+  it("limits concurrent downloads from one host", async () => {
+    maxActive = 0;
+    const urls = Array.from({ length: 4 }, () => `${base}/slow/App.zip`);
+    const diagnostics = await verify(feed(urls), {
+      concurrency: 4,
+      perHost: 2,
+    });
+    expect(diagnostics.filter((d) => d.id === "I014")).toHaveLength(4);
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync, randomBytes, sign, verify } from "node:crypto";
+import { createEd25519Verify } from "../../src/core/ed25519.js";
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const RAW_KEY = publicKey.export({ format: "der", type: "spki" }).subarray(-32);
+
+function verifyInChunks(data: Buffer, signature: Buffer, size: number) {
+  const verifier = createEd25519Verify(RAW_KEY, signature);
+  for (let offset = 0; offset < data.length; offset += size) {
+    verifier.update(data.subarray(offset, offset + size));
+  }
+  return verifier.verify();
+}
+
+describe("createEd25519Verify", () => {
+  it("agrees with crypto.verify on valid and tampered signatures", () => {
+    for (let i = 0; i < 16; i++) {
+      const data = randomBytes(i * 97);
+      const signature = sign(null, data, privateKey);
+      if (i % 2) signature[i * 4] ^= 0x10;
+      expect(verifyInChunks(data, signature, 50)).toBe(
+        verify(null, data, publicKey, signature)
+      );
+    }
+  });
+
+  it("rejects tampered data and malformed signatures", () => {
+    const data = randomBytes(1000);
+    const signature = sign(null, data, privateKey);
+    expect(verifyInChunks(data, signature, 1000)).toBe(true);
+    const tampered = Buffer.from(data);
+    tampered[999] ^= 1;
+    expect(verifyInChunks(tampered, signature, 64)).toBe(false);
+    expect(verifyInChunks(data, signature.subarray(0, 63), 64)).toBe(false);
+    // S must be less than the group order
+    const large = Buffer.from(signature);
+    large.fill(0xff, 32);
+    expect(verifyInChunks(data, large, 64)).toBe(false);
+  });
+});
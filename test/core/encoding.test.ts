@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { decodeXml } from "../../src/core/encoding.js";
+import { validate } from "../../src/core/validator.js";
+
+const feed = (encoding: string, title: string) =>
+  `<?xml version="1.0" encoding="${encoding}"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel><title>${title}</title></channel>
+</rss>`;
+
+/** Encode as ISO-8859-1: one byte per character */
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function utf16le(text: string, bom = true): Uint8Array {
+  const bytes = new Uint8Array((bom ? 2 : 0) + text.length * 2);
+  if (bom) bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[(bom ? 2 : 0) + i * 2] = code & 0xff;
+    bytes[(bom ? 2 : 0) + i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe("decodeXml", () => {
+  it("decodes UTF-8 and strips the byte order mark", () => {
+    const xml = feed("UTF-8", "Café");
+    const decoded = decodeXml(new Uint8Array([0xef, 0xbb, 0xbf, ...utf8(xml)]));
+    expect(decoded).toMatchObject({ xml, encoding: "utf-8", bom: true });
+    expect(decoded.diagnostics).toEqual([]);
+  });
+
+  it("decodes UTF-16 from the byte order mark or the declaration bytes", () => {
+    const xml = feed("UTF-16", "Café");
+    expect(decodeXml(utf16le(xml))).toMatchObject({
+      xml,
+      encoding: "utf-16le",
+      bom: true,
+      diagnostics: [],
+    });
+    expect(decodeXml(utf16le(xml, false))).toMatchObject({
+      xml,
+      bom: false,
+      diagnostics: [],
+    });
+  });
+
+  it("decodes the declared single-byte encoding", () => {
+    const xml = feed("ISO-8859-1", "Café");
+    const decoded = decodeXml(latin1(xml));
+    expect(decoded.xml).toBe(xml);
+    expect(decoded.diagnostics).toEqual([]);
+  });
+
+  it("E033: reports a declaration that contradicts the byte order mark", () => {
+    const xml = feed("UTF-8", "App");
+    const [e033] = decodeXml(utf16le(xml)).diagnostics;
+    expect(e033).toMatchObject({
+      id: "E033",
+      line: 1,
+      column: xml.indexOf("UTF-8") + 1,
+      data: { value: "UTF-8", expected: "UTF-16" },
+    });
+    expect(e033.message).toContain("UTF-16 byte order mark");
+  });
+
+  it("E033: reports UTF-8 bytes declared as ISO-8859-1", () => {
+    const [e033] = decodeXml(utf8(feed("ISO-8859-1", "Café"))).diagnostics;
+    expect(e033).toMatchObject({
+      id: "E033",
+      data: { value: "ISO-8859-1", expected: "UTF-8" },
+    });
+  });
+
+  it("E034: reports invalid UTF-8 with byte offsets", () => {
+    // "Café" saved as ISO-8859-1 but declared as UTF-8
+    const xml = feed("UTF-8", "Café 🚀 é");
+    const bytes = [...utf8(xml)];
+    const first = bytes.indexOf(0xc3);
+    bytes.splice(first, 2, 0xe9);
+    const second = bytes.lastIndexOf(0xc3);
+    bytes.splice(second, 2, 0xe9);
+
+    const decoded = decodeXml(new Uint8Array(bytes));
+    expect(decoded.xml).toBe(feed("UTF-8", "Caf\uFFFD 🚀 \uFFFD"));
+    expect(decoded.diagnostics.map((d) => d.data)).toEqual([
+      { value: "E9", byteOffset: first },
+      { value: "E9", byteOffset: second },
+    ]);
+    const [e034, after] = decoded.diagnostics;
+    expect(e034).toMatchObject({ id: "E034", line: 3 });
+    expect(e034.range!.start.offset).toBe(decoded.xml.indexOf("\uFFFD"));
+    expect(after.range!.start.offset).toBe(decoded.xml.lastIndexOf("\uFFFD"));
+  });
+
+  it("E034: reports a sequence cut off at the end", () => {
+    const bytes = new Uint8Array([...utf8("<a/>"), 0xe2, 0x82]);
+    expect(decodeXml(bytes).diagnostics).toMatchObject([
+      { id: "E034", data: { value: "E2 82", byteOffset: 4 } },
+    ]);
+  });
+});
+
+describe("validate with bytes", () => {
+  it("gives the same result as the decoded string", () => {
+    const xml = feed("UTF-16", "Café");
+    expect(validate(utf16le(xml))).toEqual(validate(xml));
+  });
+
+  it("includes encoding diagnostics", () => {
+    const result = validate(latin1(feed("UTF-8", "Café")));
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.some((d) => d.id === "E034")).toBe(true);
+  });
+
+  it("W050: warns about a byte order mark inside the document", () => {
+    const xml = feed("UTF-8", "App\uFEFF");
+    const w050 = validate(xml).diagnostics.find((d) => d.id === "W050");
+    expect(w050).toMatchObject({ line: 3 });
+    expect(w050?.edits).toEqual([
+      {
+        start: xml.indexOf("\uFEFF"),
+        end: xml.indexOf("\uFEFF") + 1,
+        text: "",
+      },
+    ]);
+    expect(
+      validate("\uFEFF" + feed("UTF-8", "App")).diagnostics.some(
+        (d) => d.id === "W050"
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { applyFixes } from "../../src/core/fixes.js";
+import { validate } from "../../src/core/validator.js";
+import type { Diagnostic } from "../../src/core/types.js";
+import { SPARKLE_NS, feed, item } from "../fixtures/appcast.js";
+
+/** An item with `attributes` on its enclosure */
+function release(version: number, attributes = ""): string {
+  return item(version, {
+    attributes,
+    content: `<sparkle:shortVersionString>${version / 100}.0</sparkle:shortVersionString>`,
+  });
+}
+
+function diag(id: string, edits: Diagnostic["edits"]): Diagnostic {
+  return { id, severity: "warning", message: id, edits };
+}
+
+describe("applyFixes", () => {
+  it("applies edits from the end so offsets stay valid", () => {
+    const { output, applied } = applyFixes("abcdef", [
+      diag("W001", [{ start: 1, end: 2, text: "BB" }]),
+      diag("W002", [{ start: 4, end: 4, text: "-" }]),
+    ]);
+    expect(output).toBe("aBBcd-ef");
+    expect(applied.map((d) => d.id)).toEqual(["W001", "W002"]);
+  });
+
+  it("skips fixes that overlap an earlier fix", () => {
+    const { output, applied, skipped } = applyFixes("abcdef", [
+      diag("W001", [{ start: 1, end: 4, text: "" }]),
+      diag("W002", [
+        { start: 0, end: 0, text: ">" },
+        { start: 3, end: 5, text: "X" },
+      ]),
+      diag("W003", [{ start: 5, end: 6, text: "F" }]),
+    ]);
+    expect(output).toBe("aeF");
+    expect(applied.map((d) => d.id)).toEqual(["W001", "W003"]);
+    expect(skipped.map((d) => d.id)).toEqual(["W002"]);
+  });
+
+  it("treats insertions at the same offset as conflicting", () => {
+    const { output, skipped } = applyFixes("ab", [
+      diag("W001", [{ start: 1, end: 1, text: "1" }]),
+      diag("W002", [{ start: 1, end: 1, text: "2" }]),
+    ]);
+    expect(output).toBe("a1b");
+    expect(skipped.map((d) => d.id)).toEqual(["W002"]);
+  });
+
+  it("ignores diagnostics without edits", () => {
+    const { output, applied, skipped } = applyFixes("abc", [
+      { id: "E001", severity: "error", message: "x" },
+    ]);
+    expect(output).toBe("abc");
+    expect(applied).toHaveLength(0);
+    expect(skipped).toHaveLength(0);
+  });
+});
+
+describe("fixable rules", () => {
+  function fix(xml: string): string {
+    return applyFixes(xml, validate(xml).diagnostics).output;
+  }
+
+  it("W039: adds the encoding after the version", () => {
+    const xml = feed(release(100), {
+      declaration: `<?xml version="1.0" standalone="yes"?>`,
+    });
+    const fixed = fix(xml);
+    expect(fixed).toMatch(
+      /^<\?xml version="1.0" encoding="UTF-8" standalone="yes"\?>/
+    );
+    expect(validate(fixed).diagnostics.map((d) => d.id)).not.toContain("W039");
+  });
+
+  it("W046: rewrites the namespace URI", () => {
+    const xml = feed(release(100), {
+      namespace: "https://www.andymatuschak.org/xml-namespaces/sparkle",
+    });
+    expect(fix(xml)).toContain(`xmlns:sparkle="${SPARKLE_NS}"`);
+  });
+
+  it("W007/W008: removes every redundant enclosure attribute", () => {
+    const xml = feed(
+      release(200, `\n                 sparkle:version="200"`) +
+        release(100, ` sparkle:version="100" sparkle:shortVersionString="1.0"`)
+    );
+    const result = validate(xml);
+    const w007 = result.diagnostics.find((d) => d.id === "W007");
+    expect(w007?.edits).toHaveLength(2);
+
+    const fixed = fix(xml);
+    expect(fixed).not.toContain(`sparkle:version="`);
+    expect(fixed).not.toContain(`sparkle:shortVersionString="`);
+    expect(fixed).toContain(
+      `<enclosure url="https://example.com/app-100.zip"\n`
+    );
+    expect(fixed).toContain(
+      `<enclosure url="https://example.com/app-200.zip"\n                 length=`
+    );
+    const ids = validate(fixed).diagnostics.map((d) => d.id);
+    expect(ids).not.toContain("W007");
+    expect(ids).not.toContain("W008");
+  });
+});
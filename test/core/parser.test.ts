@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { parseXml } from "../../src/core/parser.js";
+import type { SourceRange, XmlElement } from "../../src/core/types.js";
 
 describe("parseXml", () => {
   it("parses well-formed XML into a tree", () => {
@@ -50,6 +51,58 @@ describe("parseXml", () => {
     }
   });
 
+  it("collects comments with their positions", () => {
+    const xml = `<root>
+  <!-- first -->
+  <child/><!--second-->
+</root>`;
+    const { document } = parseXml(xml);
+    expect(document.comments.map((c) => c.text)).toEqual([" first ", "second"]);
+    expect(document.comments[0].line).toBe(2);
+    expect(document.comments[1].line).toBe(3);
+  });
+
+  it("records source ranges for elements and attributes", () => {
+    const xml = `<root>\r\n  <child a="1"\n    b = 'two' /></root>`;
+    const { document } = parseXml(xml);
+    const slice = (r?: SourceRange) =>
+      r && xml.slice(r.start.offset, r.end.offset);
+    const child = document.root!.children[0];
+    expect(child.type).toBe("element");
+    if (child.type === "element") {
+      expect(child.range.start).toEqual({
+        line: 2,
+        column: 3,
+        offset: xml.indexOf("<child"),
+      });
+      expect(slice(child.range)).toBe(`<child a="1"\n    b = 'two' />`);
+      const a = child.attributes["a"];
+      expect(slice(a.range)).toBe(`a="1"`);
+      expect(slice(a.valueRange)).toBe("1");
+      const b = child.attributes["b"];
+      expect(slice(b.range)).toBe(`b = 'two'`);
+      expect(slice(b.valueRange)).toBe("two");
+      expect(b.range!.start).toMatchObject({ line: 3, column: 5 });
+    }
+    expect(slice(document.root!.range)).toBe(xml);
+  });
+
+  it("records source ranges for text, CDATA and comments", () => {
+    const xml = `<root>\n  <v>\n    1 &amp; 2\n  </v><d><![CDATA[x]]></d><!-- c -->\n</root>`;
+    const { document } = parseXml(xml);
+    const slice = (r: SourceRange) => xml.slice(r.start.offset, r.end.offset);
+    const [v, d] = document.root!.children;
+    if (v.type === "element" && d.type === "element") {
+      const text = v.children[0];
+      expect(text.type === "text" && slice(text.range)).toBe("1 &amp; 2");
+      expect(text).toMatchObject({ line: 3, column: 5 });
+      expect(slice(v.openTag)).toBe("<v>");
+      const cdata = d.children[0];
+      expect(cdata.type === "text" && slice(cdata.range)).toBe("<![CDATA[x]]>");
+    }
+    expect(slice(document.comments[0].range)).toBe("<!-- c -->");
+  });
+
   it("captures CDATA sections as text", () => {
     const xml = `<root><desc><![CDATA[<h1>HTML</h1>]]></desc></root>`;
     const { document } = parseXml(xml);
@@ -63,6 +116,126 @@ describe("parseXml", () => {
     }
   });
 
+  it("marks text that came from CDATA sections", () => {
+    const xml = `<root><a><![CDATA[1]]></a><b>2</b></root>`;
+    const { document } = parseXml(xml);
+    const [a, b] = document.root!.children;
+    if (a.type === "element" && b.type === "element") {
+      expect(a.children[0]).toMatchObject({ type: "text", cdata: true });
+      expect(b.children[0]).toMatchObject({ type: "text", text: "2" });
+      expect(b.children[0]).not.toHaveProperty("cdata");
+    }
+  });
+
+  it("keeps comments and processing instructions in the tree", () => {
+    const xml = `<root><!-- note --><?php echo 1 ?><child/></root>`;
+    const { document } = parseXml(xml);
+    const [comment, pi, child] = document.root!.children;
+    expect(comment).toMatchObject({ type: "comment", text: " note " });
+    expect(comment).toBe(document.comments[0]);
+    expect(pi).toMatchObject({
+      type: "processingInstruction",
+      target: "php",
+      body: "echo 1 ",
+    });
+    if (pi.type === "processingInstruction") {
+      expect(xml.slice(pi.range.start.offset, pi.range.end.offset)).toBe(
+        "<?php echo 1 ?>"
+      );
+    }
+    expect(child.type).toBe("element");
+  });
+
+  it("records the DOCTYPE and the nodes around the root", () => {
+    const xml = `<?xml version="1.0"?>
+<!DOCTYPE rss [
+  <!ENTITY name "value">
+]>
+<?xml-stylesheet href="feed.xsl"?>
+<rss/>
+<!-- end -->`;
+    const { document } = parseXml(xml);
+    expect(document.children.map((n) => n.type)).toEqual([
+      "doctype",
+      "processingInstruction",
+      "element",
+      "comment",
+    ]);
+    expect(document.children[2]).toBe(document.root);
+    const doctype = document.doctype!;
+    expect(doctype).toBe(document.children[0]);
+    expect(doctype.text).toContain(`<!ENTITY name "value">`);
+    expect(doctype).toMatchObject({ line: 2, column: 1 });
+    expect(
+      xml.slice(doctype.range.start.offset, doctype.range.end.offset)
+    ).toMatch(/^<!DOCTYPE rss \[[\s\S]*\]>$/);
+  });
+
+  it("keeps whitespace-only text with preserveWhitespace", () => {
+    const xml = `<root>\n  <a/>\n</root>\n`;
+    expect(parseXml(xml).document.root!.children).toHaveLength(1);
+
+    const { document } = parseXml(xml, { preserveWhitespace: true });
+    const children = document.root!.children;
+    expect(children.map((n) => n.type)).toEqual(["text", "element", "text"]);
+    const [indent] = children;
+    expect(indent).toMatchObject({ type: "text", text: "\n  " });
+    if (indent.type === "text") {
+      expect(indent.range.start.offset).toBe("<root>".length);
+      expect(indent.range.end.offset).toBe("<root>\n  ".length);
+    }
+  });
+
+  it("reads the DOCTYPE's external ID and entity declarations", () => {
+    const xml = `<!DOCTYPE rss SYSTEM "rss.dtd" [
+  <!ENTITY % dtd PUBLIC "-//Acme//EN" "https://example.com/acme.dtd">
+  <!ATTLIST rss note CDATA "<!ENTITY fake 'x'>">
+  <!-- <!ENTITY commented "x"> -->
+  <!ENTITY name "App &amp; Co">
+]>
+<rss/>`;
+    const { document, diagnostics } = parseXml(xml);
+    expect(diagnostics).toEqual([]);
+    const doctype = document.doctype!;
+    expect(doctype).toMatchObject({ name: "rss", systemId: "rss.dtd" });
+    expect(doctype.publicId).toBeUndefined();
+    expect(
+      doctype.entities.map(
+        ({ name, parameter, value, publicId, systemId }) => ({
+          name,
+          parameter,
+          value,
+          publicId,
+          systemId,
+        })
+      )
+    ).toEqual([
+      {
+        name: "dtd",
+        parameter: true,
+        publicId: "-//Acme//EN",
+        systemId: "https://example.com/acme.dtd",
+      },
+      { name: "name", parameter: false, value: "App &amp; Co" },
+    ]);
+    expect(doctype.entities[1]).toMatchObject({ line: 5, column: 3 });
+  });
+
+  it("doesn't expand entities declared in the DOCTYPE", () => {
+    // A 1,000-character entity referenced 20,000 times would expand to 20
+    // million characters
+    const xml = `<!DOCTYPE rss [<!ENTITY a "${"x".repeat(1000)}">]>
+<rss><title>${"&a;".repeat(20000)}</title></rss>`;
+    const { document, diagnostics } = parseXml(xml);
+    expect(diagnostics[0]).toMatchObject({ id: "E001" });
+    expect(diagnostics[0].message).toContain("undefined entity");
+    const title = document.root!.children[0] as XmlElement;
+    const text = title.children
+      .map((child) => (child.type === "text" ? child.text : ""))
+      .join("");
+    expect(text.length).toBeLessThan(xml.length);
+  });
+
   it("reports E001 for malformed XML", () => {
     const xml = `<root><unclosed>`;
     const { diagnostics } = parseXml(xml);
@@ -111,4 +284,74 @@ describe("parseXml", () => {
       expect(sig.value).toBe("sig123");
     }
   });
+
+  describe("limits", () => {
+    it("parses only the first maxBytes bytes of a larger document (E035)", () => {
+      const xml = `<root><a>é</a><b/></root>`;
+      const cut = Buffer.byteLength(`<root><a>é</a>`);
+      const { document, diagnostics, truncated } = parseXml(xml, {
+        limits: { maxBytes: cut },
+      });
+      expect(truncated).toBe(true);
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        id: "E035",
+        severity: "error",
+        data: { limit: cut },
+      });
+      expect(diagnostics[0].range?.start.offset).toBe(`<root><a>é</a>`.length);
+      expect(document.root!.children.map((n) => n.type)).toEqual(["element"]);
+    });
+
+    it("stops at elements nested deeper than maxDepth (E036)", () => {
+      const xml = `<a><b><c><d/></c></b></a>`;
+      const { document, diagnostics, truncated } = parseXml(xml, {
+        limits: { maxDepth: 3 },
+      });
+      expect(truncated).toBe(true);
+      expect(diagnostics.map((d) => [d.id, d.column])).toEqual([["E036", 10]]);
+      const b = document.root!.children[0];
+      expect(b.type === "element" && b.children).toHaveLength(1);
+    });
+
+    it("stops at an element with more than maxChildren children (E037)", () => {
+      const xml = `<rss><channel>${"<item/>".repeat(5)}</channel></rss>`;
+      const { document, diagnostics } = parseXml(xml, {
+        limits: { maxChildren: 3 },
+      });
+      expect(diagnostics.map((d) => d.id)).toEqual(["E037"]);
+      expect(diagnostics[0].data).toEqual({ limit: 3 });
+      const channel = document.root!.children[0];
+      expect(channel.type === "element" && channel.children).toHaveLength(3);
+    });
+
+    it("stops when the tree has more than maxNodes nodes (E038)", () => {
+      const xml = `<root><a>x</a><!-- c --><b/></root>`;
+      const { document, diagnostics, truncated } = parseXml(xml, {
+        limits: { maxNodes: 4 },
+      });
+      expect(truncated).toBe(true);
+      expect(diagnostics.map((d) => d.id)).toEqual(["E038"]);
+      expect(document.root!.children.map((n) => n.type)).toEqual([
+        "element",
+        "comment",
+      ]);
+    });
+
+    it("gives up after maxErrors well-formedness errors (E039)", () => {
+      const xml = `<root a="1" a="2" b="1" b="2" c="1" c="2"/>`;
+      const { diagnostics, truncated } = parseXml(xml, {
+        limits: { maxErrors: 2 },
+      });
+      expect(truncated).toBe(true);
+      expect(diagnostics.map((d) => d.id)).toEqual(["E001", "E001", "E039"]);
+    });
+
+    it("does not truncate documents within the default limits", () => {
+      const xml = `<root>${"<child/>".repeat(100)}</root>`;
+      const { diagnostics, truncated } = parseXml(xml);
+      expect(truncated).toBe(false);
+      expect(diagnostics).toEqual([]);
+    });
+  });
 });
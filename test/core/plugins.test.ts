@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { validate, validateAsync } from "../../src/core/validator.js";
+import { definePlugin, pluginCatalog } from "../../src/core/plugins.js";
+import type { Plugin } from "../../src/core/plugins.js";
+import { defineRule } from "../../src/core/rules/define.js";
+import { attr } from "../../src/core/rules/utils.js";
+import { feed, item } from "../fixtures/appcast.js";
+
+const cdnRule = defineRule({
+  meta: { name: "cdn", ids: ["acme/E001"] },
+  create(context) {
+    return {
+      onEnclosure(enclosure) {
+        const url = attr(enclosure, "url") ?? "";
+        if (!url.startsWith("https://cdn.acme.com/")) {
+          context.report(enclosure, {
+            id: "acme/E001",
+            message: `Download ${url} is not on cdn.acme.com`,
+            data: { url },
+            at: enclosure.attributes.url,
+          });
+        }
+      },
+    };
+  },
+});
+
+const acme = definePlugin({
+  name: "acme",
+  rules: [cdnRule],
+  catalog: [
+    {
+      id: "acme/E001",
+      severity: "error",
+      title: "Download not on the Acme CDN",
+      description: "Enclosures must be served from cdn.acme.com.",
+    },
+  ],
+});
+
+/** A feed with one item downloaded from `url` */
+function release(url: string, comment = ""): string {
+  return feed(comment + item(2, { url }));
+}
+
+describe("plugins", () => {
+  it("runs plugin rules with the plugin's catalog severity", () => {
+    const result = validate(release("https://example.com/App.zip"), {
+      plugins: [acme],
+    });
+    expect(result.valid).toBe(false);
+    const diagnostic = result.diagnostics.find((d) => d.id === "acme/E001");
+    expect(diagnostic).toMatchObject({
+      severity: "error",
+      line: 11,
+      path: "rss > channel > item > enclosure",
+      data: { url: "https://example.com/App.zip" },
+    });
+    expect(
+      validate(release("https://cdn.acme.com/App.zip"), { plugins: [acme] })
+        .valid
+    ).toBe(true);
+  });
+
+  it("does not run plugins that are not passed", () => {
+    const result = validate(release("https://example.com/App.zip"));
+    expect(result.valid).toBe(true);
+  });
+
+  it("accepts plugin IDs in rule settings and suppression comments", async () => {
+    const xml = release("https://example.com/App.zip");
+    const relaxed = validate(xml, {
+      plugins: [acme],
+      rules: { "acme/E001": "warning" },
+    });
+    expect(relaxed.valid).toBe(true);
+    expect(relaxed.warningCount).toBe(1);
+
+    const suppressed = await validateAsync(
+      release(
+        "https://example.com/App.zip",
+        "<!-- sparkle-validator-disable acme/E001 -->"
+      ),
+      { plugins: [acme] }
+    );
+    expect(suppressed.suppressedCount).toBe(1);
+    expect(suppressed.diagnostics.map((d) => d.id)).not.toContain("W047");
+
+    expect(() => validate(xml, { rules: { "acme/E001": "off" } })).toThrow(
+      'Unknown rule ID "acme/E001"'
+    );
+  });
+
+  it("defaults a plugin rule's category and Sparkle range", () => {
+    expect(pluginCatalog([acme])).toEqual([
+      {
+        id: "acme/E001",
+        severity: "error",
+        category: "plugin",
+        title: "Download not on the Acme CDN",
+        description: "Enclosures must be served from cdn.acme.com.",
+        sparkle: {},
+      },
+    ]);
+  });
+
+  it("rejects plugins with invalid names, IDs or catalogs", () => {
+    const plugin = (overrides: Partial<Plugin>): Plugin => ({
+      ...acme,
+      ...overrides,
+    });
+    expect(() => pluginCatalog([plugin({ name: "Acme Corp" })])).toThrow(
+      'Invalid plugin name "Acme Corp"'
+    );
+    expect(() => pluginCatalog([acme, acme])).toThrow(
+      'Plugin "acme" is loaded more than once'
+    );
+    expect(() => pluginCatalog([plugin({ name: "other" })])).toThrow(
+      'Plugin "other" has rule ID "acme/E001"; its IDs must start with "other/"'
+    );
+    expect(() => pluginCatalog([plugin({ catalog: [] })])).toThrow(
+      'Rule "cdn" of plugin "acme" reports acme/E001, which is not in the plugin\'s catalog'
+    );
+  });
+});
@@ -22,6 +22,10 @@ describe("remote validation - local fixtures (no network)", () => {
     expect(w023).toBeDefined();
     expect(w023?.message).toContain("Local/private URL");
     expect(w023?.message).toContain("localhost");
+    expect(w023?.data).toEqual({
+      url: expect.stringContaining("localhost"),
+      reason: "Local/private URL",
+    });
 
     // Should NOT have E027 since we skip the check
     const e027 = diagnostics.find((d) => d.id === "E027");
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { parseXml } from "../../../src/core/parser.js";
+import { indexAppcast } from "../../../src/core/rules/context.js";
+import { versionKey } from "../../../src/core/versions.js";
+
+const index = (xml: string) => indexAppcast(parseXml(xml).document);
+
+const feed = (items: string) => `<?xml version="1.0"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel><title>T</title>
+    ${items}
+  </channel>
+</rss>`;
+
+describe("indexAppcast", () => {
+  it("indexes each item's children, enclosure, deltas, version and date", () => {
+    const { channel, items } = index(
+      feed(`<item>
+      <title>V2</title>
+      <pubDate>Thu, 13 Jul 2023 14:30:00 -0700</pubDate>
+      <sparkle:version>200</sparkle:version>
+      <sparkle:releaseNotesLink>https://example.com/en</sparkle:releaseNotesLink>
+      <sparkle:releaseNotesLink xml:lang="de">https://example.com/de</sparkle:releaseNotesLink>
+      <sparkle:deltas>
+        <enclosure url="https://example.com/a.delta" sparkle:deltaFrom="100"/>
+      </sparkle:deltas>
+      <enclosure url="https://example.com/App_200.zip"/>
+    </item>
+    <item><enclosure url="https://example.com/App_150.zip"/></item>`)
+    );
+
+    expect(channel?.name).toBe("channel");
+    expect(items).toHaveLength(2);
+    const [item, fromFilename] = items;
+    expect(item.child("title")?.qname).toBe("title");
+    expect(item.child("version")).toBeUndefined();
+    expect(item.sparkleChild("version")?.qname).toBe("sparkle:version");
+    expect(item.sparkleChildren("releaseNotesLink")).toHaveLength(2);
+    expect(item.enclosure?.attributes.url.value).toBe(
+      "https://example.com/App_200.zip"
+    );
+    expect(item.deltaEnclosures).toHaveLength(1);
+    expect(item.version).toEqual({ version: "200", source: "element" });
+    expect(item.date?.toISOString()).toBe("2023-07-13T21:30:00.000Z");
+    expect(fromFilename.version).toEqual({
+      version: "150",
+      source: "filename",
+    });
+    expect(fromFilename.date).toBeUndefined();
+  });
+
+  it("groups items by channel in the order channels are first used", () => {
+    const { channels } = index(
+      feed(`<item><sparkle:channel>beta</sparkle:channel></item>
+    <item><sparkle:version>1</sparkle:version></item>
+    <item><sparkle:channel> beta </sparkle:channel></item>`)
+    );
+    expect([...channels.keys()]).toEqual(["beta", ""]);
+    expect(channels.get("beta")).toHaveLength(2);
+  });
+
+  it("looks versions up the way Sparkle compares them", () => {
+    const { versions, items } = index(
+      feed(`<item><sparkle:version>1.0.1</sparkle:version></item>
+    <item><enclosure url="https://example.com/a.zip" sparkle:version="2"/></item>
+    <item><enclosure url="https://example.com/App_3.zip"/></item>`)
+    );
+    expect(versions.get(versionKey("1.0-1"))).toEqual([items[0]]);
+    expect(versions.get(versionKey("2"))).toEqual([items[1]]);
+    // Versions deduced from the filename are not declared
+    expect(versions.has(versionKey("3"))).toBe(false);
+  });
+
+  it("has no channel or items unless the root is <rss>", () => {
+    const { channel, items } = index("<feed><channel><item/></channel></feed>");
+    expect(channel).toBeUndefined();
+    expect(items).toEqual([]);
+  });
+});
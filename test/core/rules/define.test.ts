@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { parseXml } from "../../../src/core/parser.js";
+import { indexAppcast } from "../../../src/core/rules/context.js";
+import { defineRule, runRule } from "../../../src/core/rules/define.js";
+import type { RuleDefinition } from "../../../src/core/rules/define.js";
+import type { Diagnostic } from "../../../src/core/types.js";
+
+const xml = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel>
+    <item>
+      <sparkle:version>2</sparkle:version>
+      <sparkle:deltas>
+        <enclosure url="https://example.com/1-2.delta" sparkle:deltaFrom="1"/>
+      </sparkle:deltas>
+      <enclosure url="https://example.com/App_2.zip"/>
+    </item>
+    <item><title>Old</title></item>
+  </channel>
+</rss>`;
+
+function run(rule: RuleDefinition): Diagnostic[] {
+  const { document } = parseXml(xml);
+  const diagnostics: Diagnostic[] = [];
+  runRule(
+    rule,
+    { doc: document, xml, index: indexAppcast(document) },
+    diagnostics
+  );
+  return diagnostics;
+}
+
+describe("defineRule", () => {
+  it("fills in severity, location and path from the node", () => {
+    const [diagnostic] = run(
+      defineRule({
+        meta: { name: "titles", ids: ["W002"] },
+        create(context) {
+          return {
+            onItem(item) {
+              if (!item.child("title")) {
+                context.report(item.element, {
+                  id: "W002",
+                  message: "Item is missing a <title> element",
+                  fix: "Add a title",
+                });
+              }
+            },
+          };
+        },
+      })
+    );
+    expect(diagnostic).toMatchObject({
+      id: "W002",
+      severity: "warning",
+      message: "Item is missing a <title> element",
+      line: 4,
+      column: 5,
+      path: "rss > channel > item[1]",
+      fix: "Add a title",
+    });
+    expect(diagnostic.range?.end).toMatchObject({ line: 4, column: 11 });
+  });
+
+  it("points at an attribute, the text or an explicit location", () => {
+    const diagnostics = run(
+      defineRule({
+        meta: { name: "locations", ids: ["E014"] },
+        create(context) {
+          return {
+            onItem(item) {
+              const version = item.sparkleChild("version");
+              if (version) {
+                context.report(version, {
+                  id: "E014",
+                  message: "text",
+                  at: "text",
+                });
+              }
+            },
+            onEnclosure(enclosure) {
+              context.report(enclosure, {
+                id: "E014",
+                message: "attribute",
+                at: enclosure.attributes.url,
+              });
+              context.report(enclosure, {
+                id: "E014",
+                message: "missing attribute",
+                at: enclosure.attributes.length,
+              });
+            },
+            onEnd() {
+              const start = { line: 1, column: 1, offset: 0 };
+              context.report(undefined, {
+                id: "E014",
+                message: "document",
+                at: { ...start, range: { start, end: start } },
+              });
+            },
+          };
+        },
+      })
+    );
+    expect(
+      diagnostics.map(({ message, line, column }) => [message, line, column])
+    ).toEqual([
+      ["text", 5, 24],
+      ["attribute", 9, 18],
+      ["missing attribute", 9, 7],
+      ["document", 1, 1],
+    ]);
+    expect(diagnostics[3].path).toBeUndefined();
+  });
+
+  it("calls the hooks in document order", () => {
+    const calls: string[] = [];
+    run(
+      defineRule({
+        meta: { name: "order", ids: [] },
+        create() {
+          return {
+            onDocument: (doc) => calls.push(`document ${doc.root?.name}`),
+            onChannel: (channel) => calls.push(`channel ${channel.name}`),
+            onItem: (item) => calls.push(`item ${item.version?.version}`),
+            onEnclosure: () => calls.push("enclosure"),
+            onDelta: (delta) =>
+              calls.push(
+                `delta ${delta.attributes["sparkle:deltaFrom"].value}`
+              ),
+            onEnd: () => calls.push("end"),
+          };
+        },
+      })
+    );
+    expect(calls).toEqual([
+      "document rss",
+      "channel channel",
+      "item 2",
+      "enclosure",
+      "delta 1",
+      "item undefined",
+      "end",
+    ]);
+  });
+
+  it("throws when a rule reports an ID it does not declare", () => {
+    const reporting = (id: string) =>
+      defineRule({
+        meta: { name: "sloppy", ids: ["W002"] },
+        create(context) {
+          return {
+            onDocument(doc) {
+              context.report(doc.root, { id, message: "oops" });
+            },
+          };
+        },
+      });
+    expect(() => run(reporting("W001"))).toThrow(
+      'Rule "sloppy" reported W001, which is not in its meta.ids'
+    );
+    expect(() => run(reporting("W999"))).toThrow(
+      'Rule "sloppy" reported W999, which is not a known rule ID'
+    );
+  });
+});
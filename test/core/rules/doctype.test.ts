@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { validate } from "../../../src/core/validator.js";
+
+function appcast(doctype: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+${doctype}
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel><title>T</title><item><sparkle:version>1</sparkle:version>
+  <enclosure url="https://x.com/a.zip" length="1" type="application/octet-stream" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/></item></channel></rss>`;
+}
+
+describe("doctype rules", () => {
+  it("W051: warns on any DOCTYPE", () => {
+    const result = validate(appcast("<!DOCTYPE rss>"));
+    const w051 = result.diagnostics.find((d) => d.id === "W051");
+    expect(w051).toMatchObject({
+      line: 2,
+      column: 1,
+      message: "Appcast has a DOCTYPE declaration",
+      data: { count: 0 },
+    });
+    expect(result.diagnostics.some((d) => d.id === "E040")).toBe(false);
+  });
+
+  it("E040: reports external entities and their URL", () => {
+    const result = validate(
+      appcast(
+        `<!DOCTYPE rss [<!ENTITY % ext SYSTEM "http://evil.example/x.dtd">]>`
+      )
+    );
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.find((d) => d.id === "E040")).toMatchObject({
+      message: 'Entity "%ext" is loaded from "http://evil.example/x.dtd"',
+      line: 2,
+      column: 16,
+      data: { value: "%ext", url: "http://evil.example/x.dtd" },
+    });
+  });
+
+  it("E040: reports an external DTD subset", () => {
+    const result = validate(
+      appcast(
+        `<!DOCTYPE rss PUBLIC "-//Acme//EN" "https://example.com/rss.dtd">`
+      )
+    );
+    expect(result.diagnostics.find((d) => d.id === "E040")).toMatchObject({
+      message:
+        'DOCTYPE loads an external DTD from "https://example.com/rss.dtd"',
+      data: { url: "https://example.com/rss.dtd" },
+    });
+  });
+
+  it("does not report internal entities as external", () => {
+    const result = validate(appcast(`<!DOCTYPE rss [<!ENTITY a "b">]>`));
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.find((d) => d.id === "W051")?.message).toBe(
+      "Appcast has a DOCTYPE declaration with 1 entity declaration"
+    );
+  });
+
+  it("reports the DOCTYPE of structurally broken feeds", () => {
+    const result = validate(
+      `<!DOCTYPE rss [<!ENTITY e SYSTEM "file:///etc/passwd">]><rss version="2.0"><channel></channel></rss>`
+    );
+    const ids = result.diagnostics.map((d) => d.id);
+    expect(ids).toContain("E007");
+    expect(ids).toContain("E040");
+    expect(ids).toContain("W051");
+  });
+});
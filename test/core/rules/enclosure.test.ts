@@ -33,20 +33,20 @@ describe("enclosure rules", () => {
     expect(result.diagnostics.some((d) => d.id === "E010")).toBe(true);
   });
 
-  it("W011: warns about missing length on enclosure", () => {
+  it("W044: warns about missing length on enclosure", () => {
     const xml = wrap(
       `<enclosure url="https://example.com/a.zip" type="application/octet-stream" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/>`
     );
     const result = validate(xml);
-    expect(result.diagnostics.some((d) => d.id === "W011")).toBe(true);
+    expect(result.diagnostics.some((d) => d.id === "W044")).toBe(true);
   });
 
-  it("W012: warns about missing type on enclosure", () => {
+  it("W045: warns about missing type on enclosure", () => {
     const xml = wrap(
       `<enclosure url="https://example.com/a.zip" length="1" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/>`
     );
     const result = validate(xml);
-    expect(result.diagnostics.some((d) => d.id === "W012")).toBe(true);
+    expect(result.diagnostics.some((d) => d.id === "W045")).toBe(true);
   });
 
   it("E013: reports non-numeric length", () => {
@@ -57,6 +57,18 @@ describe("enclosure rules", () => {
     expect(result.diagnostics.some((d) => d.id === "E013")).toBe(true);
   });
 
+  it("E013: points at the length attribute", () => {
+    const xml = wrap(
+      `<enclosure url="https://example.com/a.zip" length="abc" type="application/octet-stream"/>`
+    );
+    const e013 = validate(xml).diagnostics.find((d) => d.id === "E013")!;
+    const { start, end } = e013.range!;
+    expect(xml.slice(start.offset, end.offset)).toBe(`length="abc"`);
+    expect(e013.line).toBe(start.line);
+    expect(e013.column).toBe(start.column);
+    expect(e013.data).toEqual({ value: "abc" });
+  });
+
   it("I010: reports missing signature as info (signatures are optional)", () => {
     const xml = wrap(
       `<enclosure url="https://example.com/a.zip" length="1" type="application/octet-stream"/>`
@@ -273,4 +285,19 @@ describe("enclosure rules", () => {
     const result = validate(xml);
     expect(result.diagnostics.some((d) => d.id === "W032")).toBe(true);
   });
+
+  it("W048: warns about a delta from a version that is not older", () => {
+    const xml = wrap(`
+      <enclosure url="https://example.com/v1.zip" length="1" type="application/octet-stream" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/>
+      <sparkle:deltas>
+        <enclosure url="https://example.com/delta.zip" length="1" type="application/octet-stream"
+                   sparkle:deltaFrom="100.1" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/>
+        <enclosure url="https://example.com/delta-b.zip" length="1" type="application/octet-stream"
+                   sparkle:deltaFrom="100b2" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/>
+      </sparkle:deltas>`);
+    const result = validate(xml);
+    const w048 = result.diagnostics.filter((d) => d.id === "W048");
+    expect(w048).toHaveLength(1);
+    expect(w048[0].data).toEqual({ version: "100.1", compareTo: "100" });
+  });
 });
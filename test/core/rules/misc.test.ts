@@ -328,6 +328,19 @@ describe("additional best practice rules", () => {
     expect(result.diagnostics.some((d) => d.id === "W034")).toBe(false);
   });
 
+  it("W049: warns when criticalUpdate version is newer than the item", () => {
+    const xml = wrap(`<sparkle:criticalUpdate sparkle:version="101"/>`);
+    const result = validate(xml);
+    const w049 = result.diagnostics.find((d) => d.id === "W049");
+    expect(w049?.data).toEqual({ value: "101", compareTo: "100" });
+  });
+
+  it("no W049 when criticalUpdate version is older than the item", () => {
+    const xml = wrap(`<sparkle:criticalUpdate sparkle:version="99.5"/>`);
+    const result = validate(xml);
+    expect(result.diagnostics.some((d) => d.id === "W049")).toBe(false);
+  });
+
   it("W037: warns about missing xml:lang on multiple releaseNotesLinks", () => {
     const xml = wrap(`
       <sparkle:releaseNotesLink>https://example.com/notes-en.html</sparkle:releaseNotesLink>
@@ -393,6 +406,9 @@ describe("XML format rules", () => {
   </channel>
 </rss>`;
     const result = validate(xml);
-    expect(result.diagnostics.some((d) => d.id === "W038")).toBe(true);
+    const w038 = result.diagnostics.find((d) => d.id === "W038");
+    expect(w038?.path).toBe("rss > channel > item > sparkle:version");
+    const { start, end } = w038!.range!;
+    expect(xml.slice(start.offset, end.offset)).toBe("<![CDATA[100]]>");
   });
 });
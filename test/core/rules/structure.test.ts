@@ -52,13 +52,13 @@ describe("structure rules", () => {
     expect(result.diagnostics.some((d) => d.id === "E007")).toBe(true);
   });
 
-  it("W042: warns about non-canonical sparkle namespace URI", () => {
+  it("W046: warns about non-canonical sparkle namespace URI", () => {
     // Use the old namespace format (missing www.) - a known variant that works with Sparkle
     const xml = `<rss version="2.0" xmlns:sparkle="http://andymatuschak.org/xml-namespaces/sparkle">
       <channel><title>T</title><item><sparkle:version>1</sparkle:version>
       <enclosure url="https://x.com/a" length="1" type="application/octet-stream" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/></item></channel></rss>`;
     const result = validate(xml);
-    expect(result.diagnostics.some((d) => d.id === "W042")).toBe(true);
+    expect(result.diagnostics.some((d) => d.id === "W046")).toBe(true);
     expect(result.valid).toBe(true); // Should still be valid (warning, not error)
   });
 });
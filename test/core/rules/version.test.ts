@@ -158,6 +158,10 @@ describe("version rules", () => {
     `);
     const result = validate(xml);
     expect(result.diagnostics.some((d) => d.id === "W027")).toBe(true);
+    const { start, end } = result.diagnostics.find(
+      (d) => d.id === "W027"
+    )!.range!;
+    expect(xml.slice(start.offset, end.offset)).toBe("1.0-beta");
   });
 
   it("W027: accepts purely numeric versions", () => {
@@ -292,7 +296,8 @@ describe("version rules", () => {
   </channel>
 </rss>`;
     const result = validate(xml);
-    expect(result.diagnostics.some((d) => d.id === "W018")).toBe(true);
+    const w018 = result.diagnostics.find((d) => d.id === "W018");
+    expect(w018?.data).toEqual({ version: "100", compareTo: "99" });
   });
 
   it("no W018 when items properly sorted by version descending", () => {
@@ -318,4 +323,29 @@ describe("version rules", () => {
     const result = validate(xml);
     expect(result.diagnostics.some((d) => d.id === "W018")).toBe(false);
   });
+
+  it("W018: orders prereleases the way Sparkle does", () => {
+    const item = (version: string) => `
+    <item>
+      <title>${version}</title>
+      <pubDate>Thu, 13 Jul 2023 14:30:00 -0700</pubDate>
+      <sparkle:version>${version}</sparkle:version>
+      <description>x</description>
+      <enclosure url="https://example.com/${version}.zip" length="1" type="application/octet-stream" sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="/>
+    </item>`;
+    const feed = (...versions: string[]) => `<?xml version="1.0"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel><title>T</title><link>https://example.com</link>
+    ${versions.map(item).join("")}
+  </channel>
+</rss>`;
+    const w018 = (xml: string) =>
+      validate(xml).diagnostics.find((d) => d.id === "W018");
+
+    expect(w018(feed("1.0", "1.0rc1", "1.0b2"))).toBeUndefined();
+    expect(w018(feed("1.0b2", "1.0"))?.data).toEqual({
+      version: "1.0",
+      compareTo: "1.0b2",
+    });
+  });
 });
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createHash, generateKeyPairSync, sign } from "node:crypto";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { validateAsync } from "../../src/core/validator.js";
+import {
+  artifactPath,
+  dsaPublicKey,
+  ed25519PublicKey,
+  verifySignatures,
+} from "../../src/core/signatures.js";
+import type { SignatureVerificationOptions } from "../../src/core/signatures.js";
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+// Sparkle's SUPublicEDKey: the raw key, the last 32 bytes of the SPKI DER
+const PUBLIC_KEY = publicKey
+  .export({ format: "der", type: "spki" })
+  .subarray(-32)
+  .toString("base64");
+
+// Sparkle 1's legacy key: DSA over the archive's SHA-1 digest
+const dsa = generateKeyPairSync("dsa", {
+  modulusLength: 1024,
+  divisorLength: 160,
+});
+const DSA_PUBLIC_KEY = dsa.publicKey
+  .export({ format: "pem", type: "spki" })
+  .toString();
+
+const APP = Buffer.from("the 2.0 release archive");
+const DELTA = Buffer.from("the 1.0 to 2.0 delta");
+const signature = (data: Buffer) =>
+  sign(null, data, privateKey).toString("base64");
+const dsaSignature = (data: Buffer) =>
+  sign(
+    "sha1",
+    createHash("sha1").update(data).digest(),
+    dsa.privateKey
+  ).toString("base64");
+
+function feed(
+  appSignature: string,
+  appLength = APP.length,
+  appDsaSignature?: string
+): string {
+  const dsaAttribute =
+    appDsaSignature !== undefined
+      ? ` sparkle:dsaSignature="${appDsaSignature}"`
+      : "";
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel>
+    <title>App</title>
+    <item>
+      <title>Version 2</title>
+      <sparkle:version>2</sparkle:version>
+      <enclosure url="https://cdn.example.com/releases/App%202.zip" length="${appLength}"
+                 type="application/octet-stream" sparkle:edSignature="${appSignature}"${dsaAttribute} />
+      <sparkle:deltas>
+        <enclosure url="https://cdn.example.com/deltas/App1-2.delta" length="${DELTA.length}"
+                   type="application/octet-stream" sparkle:deltaFrom="1"
+                   sparkle:edSignature="${signature(DELTA)}" />
+      </sparkle:deltas>
+    </item>
+  </channel>
+</rss>`;
+}
+
+describe("signature verification", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "sparkle-validator-artifacts-"));
+    writeFileSync(join(dir, "App 2.zip"), APP);
+    mkdirSync(join(dir, "deltas"));
+    writeFileSync(join(dir, "deltas", "App1-2.delta"), DELTA);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function verify(
+    xml: string,
+    options: SignatureVerificationOptions = {
+      artifactsDir: dir,
+      artifactMap: { "https://cdn.example.com/deltas/": join(dir, "deltas") },
+    }
+  ) {
+    const result = await validateAsync(xml, {
+      consolidate: false,
+      asyncRules: [verifySignatures({ publicKey: PUBLIC_KEY, ...options })],
+    });
+    return result.diagnostics.filter((d) =>
+      ["E041", "E042", "E043", "W052", "W053", "I013", "I015"].includes(d.id)
+    );
+  }
+
+  it("reports signatures that verify against the archives (I013)", async () => {
+    const diagnostics = await verify(feed(signature(APP)));
+    expect(diagnostics.map((d) => [d.id, d.line])).toEqual([
+      ["I013", 9],
+      ["I013", 13],
+    ]);
+    expect(diagnostics[0].data).toEqual({
+      url: "https://cdn.example.com/releases/App%202.zip",
+    });
+  });
+
+  it("reports signatures that don't verify (E041)", async () => {
+    const diagnostics = await verify(feed(signature(DELTA)));
+    expect(diagnostics.map((d) => d.id)).toEqual(["E041", "I013"]);
+    expect(diagnostics[0]).toMatchObject({
+      severity: "error",
+      path: "rss > channel > item > enclosure",
+    });
+  });
+
+  it("reports a length that differs from the archive (E042)", async () => {
+    const diagnostics = await verify(feed(signature(APP), 99));
+    const e042 = diagnostics.find((d) => d.id === "E042");
+    expect(e042).toMatchObject({
+      line: 8,
+      data: { declaredLength: 99, actualLength: APP.length },
+    });
+    expect(e042?.edits?.[0].text).toBe(String(APP.length));
+  });
+
+  it("reports archives that can't be found (W052)", async () => {
+    const diagnostics = await verify(feed(signature(APP)), {
+      artifactMap: { "https://cdn.example.com/deltas/": dir },
+    });
+    expect(diagnostics.map((d) => [d.id, d.message])).toEqual([
+      [
+        "W052",
+        "No local archive is mapped to https://cdn.example.com/releases/App%202.zip",
+      ],
+      [
+        "W052",
+        `Local archive ${join(dir, "App1-2.delta")} for https://cdn.example.com/deltas/App1-2.delta not found`,
+      ],
+    ]);
+  });
+
+  describe("DSA", () => {
+    // Only the app archive has a DSA signature
+    const options = () => ({
+      artifactsDir: dir,
+      artifactMap: { "https://cdn.example.com/deltas/": join(dir, "deltas") },
+      dsaPublicKey: DSA_PUBLIC_KEY,
+    });
+
+    it("verifies DSA signatures of the archive's SHA-1 digest (I015)", async () => {
+      const diagnostics = await verify(
+        feed(signature(APP), APP.length, dsaSignature(APP)),
+        { ...options(), publicKey: undefined }
+      );
+      expect(diagnostics.map((d) => d.id)).toEqual(["I015"]);
+      expect(diagnostics[0].line).toBe(9);
+    });
+
+    it("reports DSA signatures that don't verify (E043)", async () => {
+      const diagnostics = await verify(
+        feed(signature(APP), APP.length, dsaSignature(DELTA)),
+        { ...options(), publicKey: undefined }
+      );
+      expect(diagnostics[0]).toMatchObject({ id: "E043", severity: "error" });
+    });
+
+    it("treats malformed DSA signatures as not verifying (E043)", async () => {
+      const diagnostics = await verify(
+        feed(signature(APP), APP.length, "bm90IGEgc2lnbmF0dXJl"),
+        { ...options(), publicKey: undefined }
+      );
+      expect(diagnostics[0].id).toBe("E043");
+    });
+
+    it("reports dual-signed archives where only one signature verifies (W053)", async () => {
+      const edOnly = await verify(
+        feed(signature(APP), APP.length, dsaSignature(DELTA)),
+        options()
+      );
+      expect(edOnly.map((d) => [d.id, d.line])).toEqual([
+        ["E043", 9],
+        ["W053", 8],
+        ["I013", 9],
+        ["I013", 13],
+      ]);
+      expect(edOnly[1].message).toContain("Only the EdDSA signature verifies");
+
+      const dsaOnly = await verify(
+        feed(signature(DELTA), APP.length, dsaSignature(APP)),
+        options()
+      );
+      expect(dsaOnly.find((d) => d.id === "W053")?.message).toContain(
+        "Only the DSA signature verifies"
+      );
+
+      const both = await verify(
+        feed(signature(APP), APP.length, dsaSignature(APP)),
+        options()
+      );
+      expect(both.map((d) => d.id)).not.toContain("W053");
+    });
+
+    it("rejects keys that aren't PEM DSA public keys", () => {
+      expect(() => dsaPublicKey("not a key")).toThrow("Invalid DSA public key");
+      const ed = publicKey.export({ format: "pem", type: "spki" }).toString();
+      expect(() => dsaPublicKey(ed)).toThrow("got a ed25519 key");
+      expect(() => verifySignatures({ artifactsDir: "." })).toThrow(
+        "needs an EdDSA or DSA public key"
+      );
+    });
+  });
+
+  it("maps URLs to paths without leaving the directory", () => {
+    const options = {
+      artifactsDir: "/builds",
+      artifactMap: { "https://cdn.example.com/": "/srv/cdn" },
+    };
+    expect(artifactPath("https://cdn.example.com/a/b.zip?x=1", options)).toBe(
+      "/srv/cdn/a/b.zip"
+    );
+    expect(artifactPath("https://other.example.com/a/b.zip", options)).toBe(
+      "/builds/b.zip"
+    );
+    expect(
+      artifactPath("https://cdn.example.com/%2E%2E/etc/passwd", options)
+    ).toBeUndefined();
+    expect(artifactPath("https://other.example.com/", options)).toBeUndefined();
+  });
+
+  it("rejects public keys that aren't 32 bytes of base64", () => {
+    expect(() => ed25519PublicKey("c2hvcnQ=")).toThrow(
+      "Invalid Ed25519 public key"
+    );
+    expect(() => ed25519PublicKey(PUBLIC_KEY)).not.toThrow();
+  });
+});
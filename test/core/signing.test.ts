@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { createHash, generateKeyPairSync, verify } from "node:crypto";
+import {
+  ed25519PrivateKey,
+  formatArchiveSignature,
+  generateEd25519PrivateKey,
+  signArchive,
+  updateEnclosureSignatures,
+} from "../../src/core/signing.js";
+import { ed25519PublicKey } from "../../src/core/signatures.js";
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const PUBLIC_KEY = publicKey
+  .export({ format: "der", type: "spki" })
+  .subarray(-32)
+  .toString("base64");
+// What generate_keys -x writes: the base64 seed
+const SEED = privateKey.export({ format: "der", type: "pkcs8" }).subarray(-32);
+
+const ARCHIVE = Buffer.from("the 2.0 release archive");
+
+describe("ed25519PrivateKey", () => {
+  it("loads a seed and signs with it", () => {
+    const key = ed25519PrivateKey(SEED.toString("base64") + "\n");
+    expect(key.publicKey).toBe(PUBLIC_KEY);
+    const signature = key.sign(ARCHIVE);
+    expect(verify(null, ARCHIVE, publicKey, signature)).toBe(true);
+  });
+
+  it("rejects legacy keys: the expanded private key and the public key", () => {
+    const expanded = createHash("sha512").update(SEED).digest();
+    expanded[0] &= 248;
+    expanded[31] = (expanded[31] & 127) | 64;
+    const legacy = Buffer.concat([expanded, Buffer.from(PUBLIC_KEY, "base64")]);
+    expect(() => ed25519PrivateKey(legacy.toString("base64"))).toThrow(
+      "96-byte key from an older Sparkle release"
+    );
+  });
+
+  it("loads generated keys", () => {
+    const generated = generateEd25519PrivateKey();
+    expect(Buffer.from(generated, "base64")).toHaveLength(32);
+    const key = ed25519PrivateKey(generated);
+    expect(
+      verify(null, ARCHIVE, ed25519PublicKey(key.publicKey), key.sign(ARCHIVE))
+    ).toBe(true);
+    expect(generateEd25519PrivateKey()).not.toBe(generated);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => ed25519PrivateKey("c2hvcnQ=")).toThrow(
+      "expected a 32-byte seed, got 5 bytes"
+    );
+    expect(() => ed25519PrivateKey("not base64!")).toThrow("not base64");
+  });
+});
+
+describe("signArchive", () => {
+  it("prints the signature like sign_update", () => {
+    const signature = signArchive(
+      ARCHIVE,
+      ed25519PrivateKey(SEED.toString("base64"))
+    );
+    expect(signature.length).toBe(ARCHIVE.length);
+    expect(
+      verify(
+        null,
+        ARCHIVE,
+        ed25519PublicKey(PUBLIC_KEY),
+        Buffer.from(signature.edSignature, "base64")
+      )
+    ).toBe(true);
+    expect(formatArchiveSignature(signature)).toBe(
+      `sparkle:edSignature="${signature.edSignature}" length="${ARCHIVE.length}"`
+    );
+  });
+});
+
+describe("updateEnclosureSignatures", () => {
+  const signature = { edSignature: "c2lnbmF0dXJl", length: 42 };
+
+  function feed(enclosure: string, delta: string): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:sparkle="http://www.andymatuschak.org/xml-namespaces/sparkle">
+  <channel>
+    <title>App</title>
+    <item>
+      <title>Version 2</title>
+      ${enclosure}
+      <sparkle:deltas>
+        ${delta}
+      </sparkle:deltas>
+    </item>
+  </channel>
+</rss>`;
+  }
+
+  it("replaces the signature and length of the matching enclosure", () => {
+    const delta =
+      '<enclosure url="https://cdn.example.com/App1-2.delta" length="7" sparkle:deltaFrom="1" sparkle:edSignature="b2xk" />';
+    const { output, enclosures } = updateEnclosureSignatures(
+      feed(
+        '<enclosure url="https://cdn.example.com/App%202.zip" length="1" type="application/octet-stream" sparkle:edSignature="b2xk" />',
+        delta
+      ),
+      "App 2.zip",
+      signature
+    );
+    expect(enclosures).toHaveLength(1);
+    expect(output).toBe(
+      feed(
+        '<enclosure url="https://cdn.example.com/App%202.zip" length="42" type="application/octet-stream" sparkle:edSignature="c2lnbmF0dXJl" />',
+        delta
+      )
+    );
+  });
+
+  it("adds missing attributes, and matches deltas", () => {
+    const enclosure =
+      '<enclosure url="https://cdn.example.com/App.zip" length="1" />';
+    const { output } = updateEnclosureSignatures(
+      feed(
+        enclosure,
+        '<enclosure url="https://cdn.example.com/App1-2.delta?x=1" sparkle:deltaFrom="1"></enclosure>'
+      ),
+      "App1-2.delta",
+      signature
+    );
+    expect(output).toBe(
+      feed(
+        enclosure,
+        '<enclosure url="https://cdn.example.com/App1-2.delta?x=1" sparkle:deltaFrom="1" sparkle:edSignature="c2lnbmF0dXJl" length="42"></enclosure>'
+      )
+    );
+  });
+
+  it("leaves appcasts without a matching enclosure alone", () => {
+    const xml = feed('<enclosure url="https://cdn.example.com/App.zip" />', "");
+    expect(updateEnclosureSignatures(xml, "Other.zip", signature)).toEqual({
+      output: xml,
+      enclosures: [],
+    });
+  });
+
+  it("refuses appcasts that aren't well-formed", () => {
+    expect(() =>
+      updateEnclosureSignatures("<rss><channel></rss>", "App.zip", signature)
+    ).toThrow("The appcast isn't well-formed XML");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { validate } from "../../src/core/validator.js";
+import {
+  DSA_SIGNATURE,
+  ED_SIGNATURE,
+  feed,
+  item,
+} from "../fixtures/appcast.js";
+
+/** A feed with one DSA-signed item and more elements in it */
+function release(content: string, signature = DSA_SIGNATURE): string {
+  return feed(item(200, { content, signature }));
+}
+
+describe("sparkleVersion", () => {
+  it("runs every rule and adds no E032 by default", () => {
+    const result = validate(release(`<sparkle:channel>beta</sparkle:channel>`));
+    const w006 = result.diagnostics.find((d) => d.id === "W006");
+    expect(w006?.severity).toBe("warning");
+    expect(result.diagnostics.some((d) => d.id === "E032")).toBe(false);
+  });
+
+  it("reports DSA-only signatures as errors on Sparkle 2", () => {
+    const result = validate(release(""), { sparkleVersion: "2" });
+    const w006 = result.diagnostics.find((d) => d.id === "W006");
+    expect(w006?.severity).toBe("error");
+    expect(result.valid).toBe(false);
+  });
+
+  it("doesn't report DSA-only signatures on Sparkle 1.x", () => {
+    const w006 = (sparkleVersion: string) =>
+      validate(release(""), { sparkleVersion }).diagnostics.find(
+        (d) => d.id === "W006"
+      );
+    expect(w006("1.27")).toBeUndefined();
+    expect(w006("1.20")).toBeUndefined();
+    expect(w006("2.6")?.severity).toBe("error");
+  });
+
+  it("reports elements newer than the target as E032", () => {
+    const xml = release(`<sparkle:channel>beta</sparkle:channel>
+      <sparkle:hardwareRequirements>arm64</sparkle:hardwareRequirements>`);
+    const result = validate(xml, {
+      sparkleVersion: "2.6",
+      consolidate: false,
+    });
+    const e032 = result.diagnostics.filter((d) => d.id === "E032");
+    expect(e032).toHaveLength(1);
+    expect(e032[0].data).toEqual({
+      value: "<sparkle:hardwareRequirements>",
+      sparkleVersion: "2.9",
+    });
+    expect(e032[0].path).toBe(
+      "rss > channel > item > sparkle:hardwareRequirements"
+    );
+    // I006 only applies from 2.9
+    expect(result.diagnostics.some((d) => d.id === "I006")).toBe(false);
+
+    const legacy = validate(xml, {
+      sparkleVersion: "1.27",
+      consolidate: false,
+    });
+    expect(
+      legacy.diagnostics.filter((d) => d.id === "E032").map((d) => d.data)
+    ).toEqual([
+      { value: "<sparkle:channel>", sparkleVersion: "2.0" },
+      { value: "<sparkle:hardwareRequirements>", sparkleVersion: "2.9" },
+    ]);
+  });
+
+  it("reports enclosure attributes newer than the target", () => {
+    const xml = release("", ED_SIGNATURE);
+    const result = validate(xml, { sparkleVersion: "1.20" });
+    const e032 = result.diagnostics.find((d) => d.id === "E032");
+    expect(e032?.data?.value).toBe("sparkle:edSignature");
+    const { start, end } = e032!.range!;
+    expect(xml.slice(start.offset, end.offset)).toMatch(
+      /^sparkle:edSignature="/
+    );
+    expect(validate(xml, { sparkleVersion: "1.21" }).valid).toBe(true);
+  });
+
+  it("lets rule settings override the target's severities", () => {
+    const result = validate(release(""), {
+      sparkleVersion: "2.6",
+      rules: { W006: "warning" },
+    });
+    expect(result.diagnostics.find((d) => d.id === "W006")?.severity).toBe(
+      "warning"
+    );
+  });
+
+  it("rejects targets that are not release numbers", () => {
+    expect(() => validate(release(""), { sparkleVersion: "v2" })).toThrow(
+      /Invalid sparkleVersion "v2"/
+    );
+  });
+});
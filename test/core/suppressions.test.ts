@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { validate } from "../../src/core/validator.js";
+import { DSA_SIGNATURE, feed, item } from "../fixtures/appcast.js";
+
+/** A DSA-only item, which W006 reports */
+const legacyItem = (version: number) =>
+  item(version, { signature: DSA_SIGNATURE });
+
+function ids(xml: string): string[] {
+  return validate(xml).diagnostics.map((d) => d.id);
+}
+
+describe("suppression comments", () => {
+  it("reports DSA-only items without suppressions", () => {
+    const result = validate(feed(legacyItem(200) + legacyItem(100)));
+    const w006 = result.diagnostics.find((d) => d.id === "W006");
+    expect(w006?.message).toContain("(and 1 more similar issue)");
+    expect(result.suppressedCount).toBe(0);
+  });
+
+  it("disable-next-item suppresses rules for the following item only", () => {
+    const xml = feed(
+      legacyItem(200) +
+        "<!-- sparkle-validator-disable-next-item W006 -->" +
+        legacyItem(100)
+    );
+    const result = validate(xml);
+    const w006 = result.diagnostics.filter((d) => d.id === "W006");
+    expect(w006).toHaveLength(1);
+    expect(w006[0].path).toBe("rss > channel > item[1] > enclosure");
+    expect(w006[0].message).not.toContain("more similar");
+    expect(result.suppressedCount).toBe(1);
+  });
+
+  it("disable suppresses rules for the whole file", () => {
+    const xml = feed(
+      "<!-- sparkle-validator-disable W006, W018 -->" +
+        legacyItem(100) +
+        legacyItem(200)
+    );
+    const result = validate(xml);
+    expect(result.diagnostics.map((d) => d.id)).not.toContain("W006");
+    expect(result.diagnostics.map((d) => d.id)).not.toContain("W018");
+    expect(result.suppressedCount).toBe(3);
+  });
+
+  it("suppresses every rule when no IDs are given", () => {
+    const xml = feed(
+      legacyItem(200) +
+        "<!-- sparkle-validator-disable-next-item -->" +
+        legacyItem(100)
+    );
+    const result = validate(xml);
+    expect(
+      result.diagnostics.filter((d) => d.path?.includes("item[2]"))
+    ).toHaveLength(0);
+    expect(result.diagnostics.map((d) => d.id)).toContain("W006");
+  });
+
+  it("leaves other rules on the suppressed item alone", () => {
+    const xml = feed(
+      "<!-- sparkle-validator-disable-next-item W018 -->" + legacyItem(100)
+    );
+    expect(ids(xml)).toContain("W006");
+  });
+
+  it("does not count suppressions for rules that are turned off", () => {
+    const xml = feed(
+      "<!-- sparkle-validator-disable W006 -->" + legacyItem(100)
+    );
+    const result = validate(xml, { rules: { W006: "off" } });
+    expect(result.suppressedCount).toBe(0);
+  });
+
+  it("ignores ordinary comments", () => {
+    const xml = feed("<!-- W006 is expected here -->" + legacyItem(100));
+    expect(ids(xml)).toContain("W006");
+  });
+
+  it("warns about unknown rule IDs", () => {
+    const xml = feed(
+      "<!-- sparkle-validator-disable-next-item W600 -->" + legacyItem(100)
+    );
+    const result = validate(xml);
+    const w047 = result.diagnostics.find((d) => d.id === "W047");
+    expect(w047?.message).toContain('"W600"');
+    expect(w047?.line).toBe(6);
+  });
+
+  it("applies rule settings to unknown rule ID warnings", () => {
+    const xml = feed(
+      "<!-- sparkle-validator-disable-next-item W600 -->" + legacyItem(100)
+    );
+    expect(
+      validate(xml, { rules: { W047: "off" } }).diagnostics.map((d) => d.id)
+    ).not.toContain("W047");
+    const raised = validate(xml, { rules: { W047: "error" } });
+    expect(raised.diagnostics.find((d) => d.id === "W047")?.severity).toBe(
+      "error"
+    );
+    expect(raised.valid).toBe(false);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { validate } from "../../src/core/validator.js";
+import { readFileSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { validate, validateAsync } from "../../src/core/validator.js";
+import type { Diagnostic } from "../../src/core/types.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = resolve(__dirname, "../fixtures");
 
 describe("validate", () => {
   const MINIMAL_VALID = `<?xml version="1.0" encoding="utf-8"?>
@@ -62,4 +69,167 @@ describe("validate", () => {
     const result = validate(MINIMAL_VALID);
     expect(result.diagnostics.some((d) => d.id === "I001")).toBe(true);
   });
+
+  it("reports a parse limit and skips the rules", () => {
+    const result = validate(MINIMAL_VALID, { parseLimits: { maxDepth: 2 } });
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map((d) => d.id)).toEqual(["E036"]);
+  });
+
+  describe("rules option", () => {
+    const NO_LINK = MINIMAL_VALID.replace(
+      "<link>https://example.com</link>",
+      ""
+    );
+
+    it("drops diagnostics for rules turned off", () => {
+      const result = validate(NO_LINK, { rules: { I011: "off" } });
+      expect(result.diagnostics.some((d) => d.id === "I011")).toBe(false);
+      expect(validate(NO_LINK).infoCount - result.infoCount).toBe(1);
+    });
+
+    it("overrides severity before computing validity and counts", () => {
+      const result = validate(NO_LINK, { rules: { I011: "error" } });
+      const i011 = result.diagnostics.find((d) => d.id === "I011");
+      expect(i011?.severity).toBe("error");
+      expect(result.valid).toBe(false);
+      expect(result.errorCount).toBe(1);
+      expect(result.diagnostics[0].id).toBe("I011");
+    });
+
+    it("can downgrade errors so the feed is considered valid", () => {
+      const xml = MINIMAL_VALID.replace('length="12345"', 'length="abc"');
+      expect(validate(xml).valid).toBe(false);
+      const result = validate(xml, { rules: { E013: "warning" } });
+      expect(result.valid).toBe(true);
+      expect(result.diagnostics.find((d) => d.id === "E013")?.severity).toBe(
+        "warning"
+      );
+    });
+
+    it("rejects unknown rule IDs", () => {
+      expect(() => validate(MINIMAL_VALID, { rules: { X999: "off" } })).toThrow(
+        /Unknown rule ID "X999"/
+      );
+    });
+
+    it("rejects invalid settings", () => {
+      expect(() =>
+        validate(MINIMAL_VALID, {
+          rules: { W018: "fatal" as unknown as "error" },
+        })
+      ).toThrow(/Invalid setting "fatal"/);
+    });
+  });
+
+  describe("consolidation", () => {
+    const ITEM = MINIMAL_VALID.slice(
+      MINIMAL_VALID.indexOf("<item>"),
+      MINIMAL_VALID.indexOf("</item>") + "</item>".length
+    ).replace('length="12345"', 'length="abc"');
+    const THREE_BAD_LENGTHS = MINIMAL_VALID.replace(
+      /<item>[\s\S]*<\/item>/,
+      [300, 200, 100].map((v) => ITEM.replace(/100/g, String(v))).join("\n    ")
+    );
+
+    it("collapses repeats into the first occurrence", () => {
+      const result = validate(THREE_BAD_LENGTHS);
+      const e013 = result.diagnostics.filter((d) => d.id === "E013");
+      expect(e013).toHaveLength(1);
+      expect(e013[0].message).toContain("(and 2 more similar issues)");
+      expect(e013[0].path).toBe("rss > channel > item[1] > enclosure");
+      expect(result.errorCount).toBe(1);
+    });
+
+    it("lists the other occurrences in relatedLocations", () => {
+      const result = validate(THREE_BAD_LENGTHS);
+      const e013 = result.diagnostics.find((d) => d.id === "E013")!;
+      expect(e013.relatedLocations).toHaveLength(2);
+      expect(e013.relatedLocations!.map((loc) => loc.path)).toEqual([
+        "rss > channel > item[2] > enclosure",
+        "rss > channel > item[3] > enclosure",
+      ]);
+      for (const loc of e013.relatedLocations!) {
+        expect(loc.line).toBeGreaterThan(e013.line!);
+        expect(loc.column).toBeGreaterThan(0);
+      }
+    });
+
+    it("does not add relatedLocations to single occurrences", () => {
+      const result = validate(MINIMAL_VALID);
+      expect(result.diagnostics.every((d) => !d.relatedLocations)).toBe(true);
+    });
+
+    it("reports every occurrence when consolidate is false", () => {
+      const result = validate(THREE_BAD_LENGTHS, { consolidate: false });
+      const e013 = result.diagnostics.filter((d) => d.id === "E013");
+      expect(e013).toHaveLength(3);
+      expect(e013.every((d) => !d.message.includes("more similar"))).toBe(true);
+      expect(e013.every((d) => !d.relatedLocations)).toBe(true);
+      expect(result.errorCount).toBe(3);
+      expect(e013.map((d) => d.line)).toEqual(
+        [...e013.map((d) => d.line!)].sort((a, b) => a - b)
+      );
+    });
+  });
+
+  describe("validateAsync", () => {
+    const PRIVATE_URLS = readFileSync(
+      resolve(fixturesDir, "remote/private-ip-url.xml"),
+      "utf-8"
+    );
+
+    it("matches validate() when no async stages are requested", async () => {
+      expect(await validateAsync(MINIMAL_VALID)).toEqual(
+        validate(MINIMAL_VALID)
+      );
+    });
+
+    it("consolidates, sorts and counts remote diagnostics", async () => {
+      const result = await validateAsync(PRIVATE_URLS, {
+        remote: { timeout: 1000 },
+      });
+      const w023 = result.diagnostics.filter((d) => d.id === "W023");
+      expect(w023).toHaveLength(1);
+      expect(w023[0].message).toContain("(and 1 more similar issue)");
+      expect(w023[0].relatedLocations).toHaveLength(1);
+      expect(result.warningCount).toBe(
+        result.diagnostics.filter((d) => d.severity === "warning").length
+      );
+    });
+
+    it("applies rule settings to remote diagnostics", async () => {
+      const result = await validateAsync(PRIVATE_URLS, {
+        remote: true,
+        rules: { W023: "error" },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics[0].id).toBe("W023");
+    });
+
+    it("runs custom async rules through the same pipeline", async () => {
+      const rule = async (_doc: unknown, diagnostics: Diagnostic[]) => {
+        await Promise.resolve();
+        diagnostics.push(
+          { id: "E027", severity: "error", message: "down", line: 9 },
+          { id: "E027", severity: "error", message: "down", line: 3 }
+        );
+      };
+      const result = await validateAsync(MINIMAL_VALID, {
+        asyncRules: [rule],
+      });
+      expect(result.errorCount).toBe(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        id: "E027",
+        message: "down (and 1 more similar issue)",
+        relatedLocations: [{ line: 3 }],
+      });
+
+      const off = await validateAsync(MINIMAL_VALID, {
+        asyncRules: [rule],
+        rules: { E027: "off" },
+      });
+      expect(off.valid).toBe(true);
+    });
+  });
 });
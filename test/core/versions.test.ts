@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { compareVersions, versionKey } from "../../src/core/versions.js";
+
+/** Assert a < b, and the reverse */
+function expectOlder(a: string, b: string): void {
+  expect(compareVersions(a, b), `${a} < ${b}`).toBeLessThan(0);
+  expect(compareVersions(b, a), `${b} > ${a}`).toBeGreaterThan(0);
+}
+
+describe("compareVersions", () => {
+  it("compares numbers numerically", () => {
+    expectOlder("1.0", "1.1");
+    expectOlder("0.1", "1.0");
+    expectOlder("1.9", "1.10");
+    expectOlder("99", "100");
+    expectOlder("9223372036854775806", "9223372036854775807");
+    expect(compareVersions("1.0", "1.0")).toBe(0);
+  });
+
+  it("saturates numbers at LLONG_MAX like Sparkle", () => {
+    expect(
+      compareVersions("12345678901234567889", "12345678901234567890")
+    ).toBe(0);
+    expect(compareVersions("9223372036854775807", "9223372036854775808")).toBe(
+      0
+    );
+    expect(versionKey("12345678901234567889")).toBe(
+      versionKey("12345678901234567890")
+    );
+  });
+
+  it("treats a longer numeric version as newer", () => {
+    expectOlder("1.0", "1.0.1");
+    expectOlder("1.0", "1.0.0");
+  });
+
+  it("orders prereleases before the release", () => {
+    expectOlder("1.0a1", "1.0a2");
+    expectOlder("1.0a2", "1.0a10");
+    expectOlder("1.0a2", "1.0b1");
+    expectOlder("1.0b2", "1.0rc1");
+    expectOlder("1.0b2", "1.0");
+    expectOlder("1.0rc1", "1.0");
+    expectOlder("1.0b5", "1.0.1");
+  });
+
+  it("treats punctuation and whitespace as separators", () => {
+    expect(compareVersions("1.0-1", "1.0.1")).toBe(0);
+    expect(compareVersions("1.0 (1234)", "1.0 (1234)")).toBe(0);
+    expectOlder("1.0 (1234)", "1.0 (1235)");
+    expectOlder("1.0", "1.0-beta");
+  });
+
+  it("ranks a number above a separator or a string", () => {
+    expectOlder("1.a", "1.1");
+    expectOlder("1..1", "1.1.1");
+  });
+});
+
+describe("versionKey", () => {
+  it("is shared by versions that compare equal", () => {
+    expect(versionKey("1.0-1")).toBe(versionKey("1.0.1"));
+    expect(versionKey("1.01")).toBe(versionKey("1.1"));
+    expect(versionKey("1.0 (1234)")).toBe(versionKey("1.0-(1234)"));
+  });
+
+  it("differs for versions that do not", () => {
+    expect(versionKey("1.0")).not.toBe(versionKey("1.0.0"));
+    expect(versionKey("1.0b1")).not.toBe(versionKey("1.0"));
+    expect(versionKey("1.a")).not.toBe(versionKey("1.1"));
+  });
+});
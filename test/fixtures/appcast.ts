@@ -0,0 +1,64 @@
+/**
+ * Builders for small appcasts written inline in tests. A feed puts its
+ * body on line 6, after the channel's title and link.
+ */
+
+export const SPARKLE_NS = "http://www.andymatuschak.org/xml-namespaces/sparkle";
+
+/** A well-formed EdDSA signature attribute; it verifies nothing */
+export const ED_SIGNATURE = `sparkle:edSignature="eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eA=="`;
+
+/** A well-formed Sparkle 1 DSA signature attribute; it verifies nothing */
+export const DSA_SIGNATURE = `sparkle:dsaSignature="MCwCFGfLa4gYABT9yXkxMDEyMzQ1Njc4OQIUZ8trOHmQVPwZeTEwMTIzNDU2Nzg5"`;
+
+export interface ItemOptions {
+  /** Enclosure URL; https://example.com/app-<version>.zip by default */
+  url?: string;
+  /** Signature attributes of the enclosure; ED_SIGNATURE by default */
+  signature?: string;
+  /** More enclosure attributes, placed right after the URL */
+  attributes?: string;
+  /** More elements, placed before the enclosure */
+  content?: string;
+}
+
+/** An item for `version` with a title, date, notes and an enclosure */
+export function item(version: number, options: ItemOptions = {}): string {
+  const {
+    url = `https://example.com/app-${version}.zip`,
+    signature = ED_SIGNATURE,
+    attributes = "",
+    content = "",
+  } = options;
+  return `<item>
+      <title>Version ${version}</title>
+      <pubDate>Thu, 13 Jul 2023 14:30:00 -0700</pubDate>
+      <sparkle:version>${version}</sparkle:version>
+      <description><![CDATA[<p>Notes</p>]]></description>${content && `\n      ${content}`}
+      <enclosure url="${url}"${attributes}
+                 length="12345" type="application/octet-stream" ${signature} />
+    </item>`;
+}
+
+export interface FeedOptions {
+  /** The XML declaration */
+  declaration?: string;
+  /** The sparkle namespace URI; SPARKLE_NS by default */
+  namespace?: string;
+}
+
+/** A feed whose channel holds `body`: items, comments, anything */
+export function feed(body: string, options: FeedOptions = {}): string {
+  const {
+    declaration = `<?xml version="1.0" encoding="utf-8"?>`,
+    namespace = SPARKLE_NS,
+  } = options;
+  return `${declaration}
+<rss version="2.0" xmlns:sparkle="${namespace}">
+  <channel>
+    <title>App</title>
+    <link>https://example.com</link>
+    ${body}
+  </channel>
+</rss>`;
+}
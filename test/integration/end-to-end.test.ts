@@ -102,13 +102,13 @@ describe("invalid fixtures", () => {
     expect(result.diagnostics.some((d) => d.id === "E007")).toBe(true);
   });
 
-  it("missing-enclosure-attrs.xml produces E010, W011, W012, E013", () => {
+  it("missing-enclosure-attrs.xml produces E010, W044, W045, E013", () => {
     const result = validate(
       readFixture("invalid", "missing-enclosure-attrs.xml")
     );
     expect(result.diagnostics.some((d) => d.id === "E010")).toBe(true);
-    expect(result.diagnostics.some((d) => d.id === "W011")).toBe(true);
-    expect(result.diagnostics.some((d) => d.id === "W012")).toBe(true);
+    expect(result.diagnostics.some((d) => d.id === "W044")).toBe(true);
+    expect(result.diagnostics.some((d) => d.id === "W045")).toBe(true);
     expect(result.diagnostics.some((d) => d.id === "E013")).toBe(true);
   });
 
@@ -206,6 +206,27 @@ describe("invalid fixtures", () => {
     expect(result.diagnostics.some((d) => d.id === "E030")).toBe(true);
   });
 
+  it("external-entity.xml produces E040 for each external entity", () => {
+    const result = validate(readFixture("invalid", "external-entity.xml"), {
+      consolidate: false,
+    });
+    expect(result.valid).toBe(false);
+    expect(
+      result.diagnostics.filter((d) => d.id === "E040").map((d) => d.line)
+    ).toEqual([4, 5]);
+    expect(result.diagnostics.some((d) => d.id === "W051")).toBe(true);
+  });
+
+  it("doctype.xml produces W051 and leaves its internal entity undefined (E001)", () => {
+    const result = validate(readFixture("invalid", "doctype.xml"));
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map((d) => d.id)).toEqual([
+      "E001",
+      "W051",
+      "I001",
+    ]);
+  });
+
   it("invalid-signature.xml produces E031", () => {
     const result = validate(readFixture("invalid", "invalid-signature.xml"));
     expect(result.diagnostics.some((d) => d.id === "E031")).toBe(true);